@@ -0,0 +1,99 @@
+/**
+ * LLM Proxy
+ * Forwards chat completion requests from the browser to the configured
+ * OpenAI-compatible server, so its URL and API key stay on the server.
+ *
+ *   LLM_BASE_URL   e.g. http://localhost:8080/v1
+ *   LLM_MODEL      model name passed to the server
+ *   LLM_API_KEY    optional bearer token
+ */
+
+import { SYSTEM_PROMPT } from '@/lib/llm-provider';
+
+const TEMPERATURE = 0.2;
+// Turns of one request, counting the system prompt and the question
+const MAX_MESSAGES = 50;
+// Characters of all messages together, well above any configured context budget
+const MAX_REQUEST_CHARS = 400_000;
+
+interface ProxyRequest {
+  messages: Array<{ role: string; content: string }>;
+  stream: boolean;
+}
+
+/**
+ * Accepts only requests shaped like the app's own: its system prompt, then
+ * earlier turns, then the question. The route has no auth, so it must not
+ * forward arbitrary prompts. Returns an error message otherwise.
+ */
+function parseProxyRequest(body: unknown): ProxyRequest | string {
+  if (typeof body !== 'object' || body === null) return 'Request body must be an object';
+  const { messages, stream } = body as Record<string, unknown>;
+  if (!Array.isArray(messages)) return 'messages must be an array';
+  if (messages.length < 2 || messages.length > MAX_MESSAGES) {
+    return `messages must hold between 2 and ${MAX_MESSAGES} turns`;
+  }
+  if (stream !== undefined && typeof stream !== 'boolean') return 'stream must be a boolean';
+
+  const valid = messages.every((message, index) => {
+    if (typeof message !== 'object' || message === null) return false;
+    const { role, content } = message as Record<string, unknown>;
+    if (typeof content !== 'string') return false;
+    if (index === 0) return role === 'system' && content === SYSTEM_PROMPT;
+    if (index === messages.length - 1) return role === 'user';
+    return role === 'user' || role === 'assistant';
+  });
+  if (!valid) return 'messages must be the system prompt, earlier turns and a question';
+
+  const length = messages.reduce((sum, message) => sum + message.content.length, 0);
+  if (length > MAX_REQUEST_CHARS) return 'Request is too long';
+
+  return { messages, stream: Boolean(stream) };
+}
+
+export async function POST(request: Request): Promise<Response> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return Response.json({ error: { message: 'Request body must be JSON' } }, { status: 400 });
+  }
+
+  const parsed = parseProxyRequest(body);
+  if (typeof parsed === 'string') {
+    return Response.json({ error: { message: parsed } }, { status: 400 });
+  }
+  const { messages, stream } = parsed;
+
+  const baseUrl = process.env.LLM_BASE_URL || 'http://localhost:8080/v1';
+  const apiKey = process.env.LLM_API_KEY;
+
+  let upstream: Response;
+  try {
+    upstream = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+      },
+      body: JSON.stringify({
+        model: process.env.LLM_MODEL || 'local-model',
+        messages,
+        temperature: TEMPERATURE,
+        stream,
+      }),
+      // Stop generating when the browser cancels
+      signal: request.signal,
+    });
+  } catch (error) {
+    // The client falls back to extractive answers on any error status
+    const message = error instanceof Error ? error.message : 'Model server unreachable';
+    return Response.json({ error: { message } }, { status: 502 });
+  }
+
+  // Server-sent events and error bodies are passed through unchanged
+  return new Response(upstream.body, {
+    status: upstream.status,
+    headers: { 'Content-Type': upstream.headers.get('Content-Type') || 'application/json' },
+  });
+}
@@ -1,35 +1,28 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useMemo } from "react";
 import { useUser } from "@/lib/user-context";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { toClientDocument } from "@/lib/documents";
+import { useChunkRetriever } from "@/lib/use-chunk-retriever";
+import { usePageLoader } from "@/lib/use-page-loader";
 import ChatInterface from "@/components/ChatInterface";
 
-interface Document {
-  id: string;
-  filename: string;
-  originalName: string;
-  fileSize: number;
-  uploadedAt: number;
-  status: string;
-  textContent?: string;
-  analysis?: any;
-}
-
 export default function ChatPage() {
   const { user, isLoading } = useUser();
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const convexDocuments: Doc<"documents">[] | undefined = useQuery(
+    api.documents.getUserDocuments,
+    user ? { userId: user.id } : "skip"
+  );
+  const documents = useMemo(
+    () => (convexDocuments || []).map(toClientDocument),
+    [convexDocuments]
+  );
 
-  // Load documents from localStorage (shared with documents page)
-  useEffect(() => {
-    const savedDocs = localStorage.getItem('deepwiki-documents');
-    if (savedDocs) {
-      try {
-        setDocuments(JSON.parse(savedDocs));
-      } catch (error) {
-        console.error('Failed to load documents:', error);
-      }
-    }
-  }, []);
+  const retrieveChunks = useChunkRetriever();
+  const loadPages = usePageLoader();
 
   if (isLoading) {
     return (
@@ -53,5 +46,5 @@ export default function ChatPage() {
     );
   }
 
-  return <ChatInterface documents={documents} />;
+  return <ChatInterface documents={documents} retrieveChunks={retrieveChunks} loadPages={loadPages} />;
 }
\ No newline at end of file
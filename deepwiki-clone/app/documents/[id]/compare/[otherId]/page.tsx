@@ -0,0 +1,119 @@
+"use client";
+
+import Link from "next/link";
+import { useMemo } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { useUser } from "@/lib/user-context";
+import { alignPages, diffDocuments, summarizeDiff } from "@/convex/lib/diff";
+import DocumentDiff from "@/components/DocumentDiff";
+
+// Versions of one document are told apart by number, other documents by name
+function documentLabel(document: Doc<"documents">, other: Doc<"documents">): string {
+  return document.originalName === other.originalName
+    ? `v${document.version ?? 1}`
+    : document.originalName;
+}
+
+export default function CompareDocumentsPage() {
+  const { id, otherId } = useParams<{ id: string; otherId: string }>();
+  const router = useRouter();
+  const { user, isLoading } = useUser();
+  const before = useQuery(api.documents.getDocument, { documentId: id as Id<"documents"> });
+  const after = useQuery(api.documents.getDocument, { documentId: otherId as Id<"documents"> });
+  const beforePages = useQuery(api.pages.getPages, { documentId: id as Id<"documents"> });
+  const afterPages = useQuery(api.pages.getPages, { documentId: otherId as Id<"documents"> });
+  const userDocuments: Doc<"documents">[] | undefined = useQuery(
+    api.documents.getUserDocuments,
+    user ? { userId: user.id } : "skip"
+  );
+
+  const hunks = useMemo(
+    () => beforePages && afterPages ? diffDocuments(beforePages, afterPages) : [],
+    [beforePages, afterPages]
+  );
+  const pages = useMemo(() => alignPages(hunks), [hunks]);
+  const summary = summarizeDiff(hunks);
+
+  if (isLoading || before === undefined || after === undefined || beforePages === undefined || afterPages === undefined) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Please sign in to compare documents</div>
+      </div>
+    );
+  }
+
+  if (!before || !after) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Document not found</div>
+      </div>
+    );
+  }
+
+  const beforeLabel = documentLabel(before, after);
+  const afterLabel = documentLabel(after, before);
+  const pending = [before, after].filter(document => document.processingStatus !== "completed");
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="mb-8">
+        <Link href="/documents" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Your Documents
+        </Link>
+        <h1 className="text-3xl font-bold mt-2 mb-2">
+          {before.originalName === after.originalName
+            ? `${after.originalName}: ${beforeLabel} → ${afterLabel}`
+            : `${beforeLabel} → ${afterLabel}`}
+        </h1>
+        <div className="flex flex-wrap items-center gap-4 text-sm">
+          <span className="text-green-700 dark:text-green-300">+{summary.inserted} inserted</span>
+          <span className="text-red-700 dark:text-red-300">−{summary.deleted} deleted</span>
+          <span className="text-blue-700 dark:text-blue-300">↕{summary.moved} moved</span>
+          <span className="text-gray-500">{summary.unchanged} unchanged</span>
+          <button
+            onClick={() => router.push(`/documents/${otherId}/compare/${id}`)}
+            className="text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Swap
+          </button>
+          {userDocuments && (
+            <label className="flex items-center gap-2 text-gray-600 dark:text-gray-400">
+              Compare {beforeLabel} with
+              <select
+                value={otherId}
+                onChange={(e) => router.push(`/documents/${id}/compare/${e.target.value}`)}
+                className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+              >
+                {userDocuments
+                  .filter(document => document._id !== before._id)
+                  .map(document => (
+                    <option key={document._id} value={document._id}>
+                      {document.originalName}{document.version ? ` (v${document.version})` : ""}
+                    </option>
+                  ))}
+              </select>
+            </label>
+          )}
+        </div>
+        {pending.length > 0 && (
+          <div className="mt-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-800 dark:text-yellow-200">
+            {pending.map(document => documentLabel(document, document === before ? after : before)).join(" and ")} {pending.length === 1 ? "is" : "are"} not fully processed, so the comparison may be incomplete
+          </div>
+        )}
+      </div>
+
+      <DocumentDiff pages={pages} beforeLabel={beforeLabel} afterLabel={afterLabel} />
+    </div>
+  );
+}
@@ -0,0 +1,394 @@
+"use client";
+
+import Link from "next/link";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useParams, useRouter, useSearchParams } from "next/navigation";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { useUser } from "@/lib/user-context";
+import { toClientDocument } from "@/lib/documents";
+import { DocumentReference } from "@/lib/ai-chat-service";
+import { useChunkRetriever } from "@/lib/use-chunk-retriever";
+import { usePageLoader } from "@/lib/use-page-loader";
+import { DocumentBlock, documentBlocks } from "@/convex/lib/chunking";
+import { getDocumentFormat } from "@/convex/lib/formats";
+import TableOfContents from "@/components/TableOfContents";
+import DocumentChat from "@/components/DocumentChat";
+
+const STATUS_LABELS: Record<string, string> = {
+  uploaded: "Uploaded",
+  extracting: "Extracting text",
+  analyzing: "Analyzing layout",
+  indexing: "Indexing",
+  completed: "Ready",
+  failed: "Failed",
+};
+
+// Concepts listed in the sidebar, most frequent first as extracted
+const MAX_CONCEPTS = 20;
+
+// Character range of a citation opened from the chat box, in document offsets
+interface CitedRange {
+  pageNumber: number;
+  start: number;
+  end: number;
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+export default function DocumentReaderPage() {
+  const { id } = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const { user, isLoading } = useUser();
+  const [cited, setCited] = useState<CitedRange | null>(null);
+  const [pageInput, setPageInput] = useState("");
+  const citationRef = useRef<HTMLElement>(null);
+
+  const document = useQuery(api.documents.getDocument, { documentId: id as Id<"documents"> });
+  const userDocuments: Doc<"documents">[] | undefined = useQuery(
+    api.documents.getUserDocuments,
+    user ? { userId: user.id } : "skip"
+  );
+  const documents = useMemo(() => (userDocuments || []).map(toClientDocument), [userDocuments]);
+  const retrieveChunks = useChunkRetriever();
+  const loadPages = usePageLoader();
+  const clientDocument = useMemo(() => document && toClientDocument(document), [document]);
+
+  const storedPages = useQuery(api.pages.getPages, { documentId: id as Id<"documents"> });
+  const pages = useMemo(() => storedPages || [], [storedPages]);
+  const blocks = useMemo(() => documentBlocks(pages), [pages]);
+
+  // ?page=12 opens page 12; out of range or missing numbers open the first page
+  const requestedPage = parseInt(searchParams.get("page") || "", 10);
+  const pageNumber = pages.some(page => page.pageNumber === requestedPage)
+    ? requestedPage
+    : pages[0]?.pageNumber ?? 1;
+  const pageIndex = pages.findIndex(page => page.pageNumber === pageNumber);
+  const page = pages[pageIndex];
+  const pageBlocks = blocks.filter(block => block.pageNumber === pageNumber);
+
+  useEffect(() => {
+    setPageInput(String(pageNumber));
+  }, [pageNumber]);
+
+  // Bring an opened citation into view once its page renders
+  useEffect(() => {
+    citationRef.current?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [cited, pageNumber]);
+
+  const goToPage = (target: number) => {
+    setCited(null);
+    router.replace(`/documents/${id}?page=${target}`, { scroll: false });
+  };
+
+  const openReference = (reference: DocumentReference) => {
+    // Answers about versions also cite the other version
+    if (reference.documentId !== id) {
+      router.push(`/documents/${reference.documentId}?page=${reference.pageNumber}`);
+      return;
+    }
+    setCited({ pageNumber: reference.pageNumber, start: reference.charStart, end: reference.charEnd });
+    router.replace(`/documents/${id}?page=${reference.pageNumber}`, { scroll: false });
+  };
+
+  // Marks the part of a block that the opened citation covers
+  const renderBlockText = (block: DocumentBlock) => {
+    if (!cited || cited.pageNumber !== block.pageNumber) return block.text;
+    const start = Math.max(0, cited.start - block.offset);
+    const end = Math.min(block.text.length, cited.end - block.offset);
+    if (end <= start) return block.text;
+
+    const isFirst = cited.start >= block.offset;
+    return (
+      <>
+        {block.text.slice(0, start)}
+        <mark
+          ref={isFirst ? citationRef : undefined}
+          className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm"
+        >
+          {block.text.slice(start, end)}
+        </mark>
+        {block.text.slice(end)}
+      </>
+    );
+  };
+
+  if (isLoading || document === undefined || storedPages === undefined) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Loading...</div>
+      </div>
+    );
+  }
+
+  if (!user) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Please sign in to read documents</div>
+      </div>
+    );
+  }
+
+  if (!document || !clientDocument) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Document not found</div>
+      </div>
+    );
+  }
+
+  const format = getDocumentFormat(document.metadata.mimeType);
+  const stats = clientDocument.analysis?.basic_stats;
+  const concepts = (clientDocument.keyConcepts || []).slice(0, MAX_CONCEPTS);
+  const history = document.processingHistory || [];
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      {/* Header */}
+      <div className="mb-6">
+        <Link href="/documents" className="text-sm text-blue-600 dark:text-blue-400 hover:underline">
+          ← Your Documents
+        </Link>
+        <h1 className="text-3xl font-bold mt-2 mb-2 flex items-center gap-3">
+          <span title={format?.label}>{format?.icon ?? "📄"}</span>
+          <span className="truncate">{document.originalName}</span>
+          {document.version && (
+            <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+              v{document.version}
+            </span>
+          )}
+        </h1>
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600 dark:text-gray-400">
+          <span>{STATUS_LABELS[document.processingStatus]}</span>
+          {document.metadata.title && <span>Title: {document.metadata.title}</span>}
+          {document.metadata.author && <span>Author: {document.metadata.author}</span>}
+          {document.metadata.language && <span>Language: {document.metadata.language.toUpperCase()}</span>}
+          {document.fileUrl && (
+            <a href={document.fileUrl} target="_blank" rel="noreferrer" className="text-blue-600 dark:text-blue-400 hover:underline">
+              Open original
+            </a>
+          )}
+          {document.previousVersionId && (
+            <a
+              href={`/documents/${document.previousVersionId}/compare/${document._id}`}
+              className="text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              Compare with previous version
+            </a>
+          )}
+        </div>
+        {document.supersededBy && (
+          <div className="mt-3 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-800 dark:text-yellow-200">
+            A newer version replaced this one in search.{" "}
+            <a href={`/documents/${document.supersededBy}`} className="underline font-medium">
+              Open the newer version
+            </a>
+          </div>
+        )}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-12">
+        {/* Sidebar */}
+        <div className="lg:col-span-4 space-y-4">
+          {/* Page Navigator */}
+          {pages.length > 0 && (
+            <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <h2 className="font-semibold mb-3">Pages</h2>
+              <div className="flex items-center gap-2 text-sm">
+                <button
+                  onClick={() => goToPage(pages[pageIndex - 1].pageNumber)}
+                  disabled={pageIndex <= 0}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+                >
+                  ← Prev
+                </button>
+                <form
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    const target = parseInt(pageInput, 10);
+                    if (pages.some(p => p.pageNumber === target)) goToPage(target);
+                  }}
+                  className="flex items-center gap-1"
+                >
+                  Page
+                  <input
+                    type="number"
+                    value={pageInput}
+                    onChange={(e) => setPageInput(e.target.value)}
+                    min={pages[0].pageNumber}
+                    max={pages[pages.length - 1].pageNumber}
+                    className="w-16 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800"
+                  />
+                  of {pages[pages.length - 1].pageNumber}
+                </form>
+                <button
+                  onClick={() => goToPage(pages[pageIndex + 1].pageNumber)}
+                  disabled={pageIndex >= pages.length - 1}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50"
+                >
+                  Next →
+                </button>
+              </div>
+            </div>
+          )}
+
+          {/* Outline */}
+          {clientDocument.outline && clientDocument.outline.entries.length > 0 && (
+            <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <TableOfContents
+                outline={clientDocument.outline}
+                onSelectPage={goToPage}
+                currentPage={pageNumber}
+                defaultOpen
+              />
+            </div>
+          )}
+
+          {/* Key Concepts */}
+          {concepts.length > 0 && (
+            <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <h2 className="font-semibold mb-3">Key Concepts</h2>
+              <ul className="space-y-2 text-sm">
+                {concepts.map(concept => (
+                  <li key={concept.text}>
+                    <div className={concept.pages.includes(pageNumber) ? "font-medium" : ""}>
+                      {concept.text}
+                      {concept.expansion && (
+                        <span className="text-gray-500"> ({concept.expansion})</span>
+                      )}
+                      <span className="text-xs text-gray-500"> · {concept.frequency}×</span>
+                    </div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {concept.pages.map(conceptPage => (
+                        <button
+                          key={conceptPage}
+                          onClick={() => goToPage(conceptPage)}
+                          className={`px-1.5 py-0.5 rounded text-xs ${
+                            conceptPage === pageNumber
+                              ? "bg-blue-600 text-white"
+                              : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                          }`}
+                        >
+                          p. {conceptPage}
+                        </button>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* Statistics */}
+          {stats && (
+            <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <h2 className="font-semibold mb-3">Statistics</h2>
+              <div className="grid grid-cols-2 gap-2 text-sm text-gray-600 dark:text-gray-400">
+                <div>📄 {stats.page_count} pages</div>
+                <div>📝 {stats.word_count.toLocaleString()} words</div>
+                <div>📊 {stats.sentence_count} sentences</div>
+                <div>📑 {stats.paragraph_count} paragraphs</div>
+                <div className="col-span-2">Average words per page: {stats.avg_words_per_page.toFixed(1)}</div>
+                {clientDocument.ocrPages && (
+                  <div className="col-span-2">🔍 {clientDocument.ocrPages.length} pages read with OCR</div>
+                )}
+              </div>
+            </div>
+          )}
+
+          {/* Processing History */}
+          <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+            <h2 className="font-semibold mb-3">Processing History</h2>
+            {history.length > 0 ? (
+              <ol className="space-y-2 text-sm">
+                {history.map((event, index) => (
+                  <li key={index} className="flex gap-2">
+                    <span className="text-xs text-gray-500 w-28 shrink-0">{formatDate(event.at)}</span>
+                    <span>
+                      <span className={event.status === "failed" ? "text-red-600 dark:text-red-400" : ""}>
+                        {STATUS_LABELS[event.status]}
+                      </span>
+                      {event.message && (
+                        <span className="block text-xs text-gray-500">{event.message}</span>
+                      )}
+                    </span>
+                  </li>
+                ))}
+              </ol>
+            ) : (
+              <div className="text-sm text-gray-600 dark:text-gray-400">
+                Uploaded {formatDate(document.uploadedAt)}
+                {document.metadata.extractedAt && `, processed ${formatDate(document.metadata.extractedAt)}`}
+              </div>
+            )}
+            {document.metadata.processingTimeMs !== undefined && (
+              <div className="mt-2 text-xs text-gray-500">
+                Last run took {(document.metadata.processingTimeMs / 1000).toFixed(1)}s
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Reader and Chat */}
+        <div className="lg:col-span-8 space-y-6">
+          <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-6">
+            {page ? (
+              <>
+                <div className="flex items-center justify-between mb-4 text-xs text-gray-500">
+                  <span className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded font-mono">
+                    Page {pageNumber}
+                  </span>
+                  {page.ocrConfidence !== undefined && (
+                    <span>Read with OCR, {page.ocrConfidence.toFixed(0)}% confidence</span>
+                  )}
+                </div>
+                <div className="space-y-4 text-gray-800 dark:text-gray-200">
+                  {pageBlocks.map(block =>
+                    block.heading ? (
+                      <h3 key={block.offset} className="text-lg font-semibold">
+                        {renderBlockText(block)}
+                      </h3>
+                    ) : (
+                      <p key={block.offset} className="whitespace-pre-wrap leading-relaxed">
+                        {renderBlockText(block)}
+                      </p>
+                    )
+                  )}
+                </div>
+              </>
+            ) : (
+              <div className="text-center py-12 text-gray-600 dark:text-gray-400">
+                {document.processingStatus === "failed"
+                  ? "No text could be extracted from this document"
+                  : "The text appears here once processing finishes"}
+              </div>
+            )}
+          </div>
+
+          {document.processingStatus === "completed" && (
+            <div className="bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+              <h2 className="font-semibold mb-3">💬 Ask About This Document</h2>
+              <DocumentChat
+                documentId={id}
+                documentName={document.originalName}
+                documents={documents}
+                retrieveChunks={retrieveChunks}
+                loadPages={loadPages}
+                onOpenReference={openReference}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,49 +1,41 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useMemo } from "react";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
 import { useUser } from "@/lib/user-context";
+import { toClientDocument } from "@/lib/documents";
 import EnhancedPDFUpload from "@/components/EnhancedPDFUpload";
+import BulkImport from "@/components/BulkImport";
 import EnhancedDocumentList from "@/components/EnhancedDocumentList";
-import { PDFAnalysisResult } from "@/lib/pdf-service";
-
-interface Document {
-  id: string;
-  filename: string;
-  originalName: string;
-  fileSize: number;
-  uploadedAt: number;
-  status: string;
-  textContent?: string;
-  analysis?: PDFAnalysisResult;
-}
 
 export default function SimpleDocumentsPage() {
   const { user, isLoading } = useUser();
-  const [documents, setDocuments] = useState<Document[]>([]);
-
-  // Load documents from localStorage on mount
-  useEffect(() => {
-    const savedDocs = localStorage.getItem('deepwiki-documents');
-    if (savedDocs) {
-      try {
-        setDocuments(JSON.parse(savedDocs));
-      } catch (error) {
-        console.error('Failed to load documents:', error);
-      }
-    }
-  }, []);
+  const convexDocuments: Doc<"documents">[] | undefined = useQuery(
+    api.documents.getUserDocuments,
+    user ? { userId: user.id } : "skip"
+  );
+  const deleteDocument = useMutation(api.documents.deleteDocument);
+  const reprocessDocument = useMutation(api.documents.reprocessDocument);
 
-  // Save documents to localStorage whenever documents change
-  useEffect(() => {
-    localStorage.setItem('deepwiki-documents', JSON.stringify(documents));
-  }, [documents]);
+  const documents = useMemo(
+    () => (convexDocuments || []).map(toClientDocument),
+    [convexDocuments]
+  );
 
-  const handleUploadComplete = (newDocs: Document[]) => {
-    setDocuments(prev => [...prev, ...newDocs]);
+  const handleDelete = async (documentId: string) => {
+    await deleteDocument({ documentId: documentId as Id<"documents"> });
   };
 
-  const handleDelete = (documentId: string) => {
-    setDocuments(prev => prev.filter(doc => doc.id !== documentId));
+  const handleRetry = async (documentId: string) => {
+    try {
+      await reprocessDocument({ documentId: documentId as Id<"documents"> });
+    } catch (error) {
+      console.error("Failed to reprocess document:", error);
+      alert("Failed to reprocess document");
+    }
   };
 
   if (isLoading) {
@@ -74,12 +66,12 @@ export default function SimpleDocumentsPage() {
             📍 <strong>Phase 4:</strong> Enhanced upload with PDF text extraction, search, and conversational AI. 
             {documents.length > 0 && (
               <>
-                <a href="/search" className="ml-2 underline font-medium">
+                <Link href="/search" className="ml-2 underline font-medium">
                   🔍 Search your {documents.length} document(s)
-                </a>
-                <a href="/chat" className="ml-2 underline font-medium">
+                </Link>
+                <Link href="/chat" className="ml-2 underline font-medium">
                   💬 Chat with your documents
-                </a>
+                </Link>
               </>
             )}
           </p>
@@ -91,7 +83,10 @@ export default function SimpleDocumentsPage() {
         <div className="lg:col-span-4">
           <div className="sticky top-4">
             <h2 className="text-xl font-semibold mb-4">Upload PDFs</h2>
-            <EnhancedPDFUpload onUploadComplete={handleUploadComplete} />
+            <EnhancedPDFUpload />
+
+            <h2 className="text-xl font-semibold mt-8 mb-4">Bulk Import</h2>
+            <BulkImport />
           </div>
         </div>
 
@@ -103,6 +98,7 @@ export default function SimpleDocumentsPage() {
           <EnhancedDocumentList 
             documents={documents}
             onDelete={handleDelete}
+            onRetry={handleRetry}
           />
         </div>
       </div>
@@ -2,6 +2,7 @@ import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
 import './globals.css'
 import Header from '@/components/Header'
+import LocalDocumentMigration from '@/components/LocalDocumentMigration'
 import { ThemeProvider } from '@/components/ThemeProvider'
 import { ConvexClientProvider } from '@/lib/convex-provider'
 import { UserProvider } from '@/lib/user-context'
@@ -33,6 +34,7 @@ export default function RootLayout({
                   {children}
                 </main>
               </div>
+              <LocalDocumentMigration />
             </ThemeProvider>
           </UserProvider>
         </ConvexClientProvider>
@@ -19,7 +19,7 @@ export default function HomePage() {
             Upload Documents
           </Link>
           <Link 
-            href="/search/s3-models-example"
+            href="/search"
             className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-lg hover:border-gray-400 dark:hover:border-gray-500 transition-colors font-medium"
           >
             View Demo
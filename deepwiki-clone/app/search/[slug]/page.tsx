@@ -1,123 +1,151 @@
 'use client'
 
-import { useState } from 'react'
+import { useMemo, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import { useQuery } from 'convex/react'
+import { api } from '@/convex/_generated/api'
+import { Doc } from '@/convex/_generated/dataModel'
+import { useUser } from '@/lib/user-context'
+import { describeScope, DocumentScope } from '@/lib/document-scope'
+import { toClientDocument } from '@/lib/documents'
+import { ActiveCitation, citedDocumentFor, citedDocuments } from '@/lib/citations'
+import { useSearchStarter } from '@/lib/use-search-starter'
 import QueryDisplay from '@/components/QueryDisplay'
 import SplitPanel from '@/components/SplitPanel'
 import ResponsePanel from '@/components/ResponsePanel'
-import CodePanel from '@/components/CodePanel'
-
-// Mock data - in a real app, this would come from an API
-const mockResponse = {
-  query: "tell me about the s3 models",
-  repo: "cashapp/misk",
-  response: {
-    content: `Based on the codebase context, you're asking about S3-related models in the Misk framework.
-
-## S3 Models in Misk
-
-Misk provides S3 integration primarily through the \`misk-aws\` module, which includes S3 client configuration and cryptographic key management. README.md:41
-
-### S3 Client Configuration
-
-The main S3 model is provided through the \`RealS3Module\` class, which configures the AWS S3 client: misk-aws.api:232-237
-
-This module provides:
-- S3 client configuration through \`configureClient()\` method
-- S3 instance provisioning via \`provideS3()\` method that takes AWS region and credentials
-
-### S3 Key Management
-
-A more sophisticated S3 model exists in the crypto module through \`S3KeySource\`, which implements external key management using S3: S3KeySource.kt:12-33
-
-The \`S3KeySource\` class provides:
-- Fetches Tink keysets from S3 buckets
-- Uses envelope key encryption with KMS
-- Organizes keys by alias and region in a specific bucket structure
-- Handles cross-region bucket access with separate S3 clients when needed S3KeySource.kt:49-58
-
-### Dependencies
-
-The S3 functionality depends on AWS SDK libraries as defined in the build configuration: build.gradle.kts:10-12`,
-    codeRefs: [
-      { file: "README.md", line: 41 },
-      { file: "misk-aws.api", lines: "232-237" },
-      { file: "S3KeySource.kt", lines: "12-33" },
-      { file: "S3KeySource.kt", lines: "49-58" },
-      { file: "build.gradle.kts", lines: "10-12" }
-    ]
-  },
-  codeSnippets: [
-    {
-      file: "misk-aws/api/misk-aws.api",
-      repo: "cashapp/misk",
-      lines: [
-        { number: 232, content: "public class misk/s3/RealS3Module : misk/inject/KAbstractModule {" },
-        { number: 233, content: "  public fun <init> ()V" },
-        { number: 234, content: "  protected fun configure ()V" },
-        { number: 235, content: "  public fun configureClient (Lcom/amazonaws/services/s3/AmazonS3ClientBuilder;)V" },
-        { number: 236, content: "  public final fun provideS3 (Lmisk/cloud/aws/AwsRegion;Lcom/amazonaws/auth/AWSCredentialsProvider;)Lcom/amazonaws/services/s3/AmazonS3;" },
-        { number: 237, content: "}" }
-      ]
-    },
-    {
-      file: "misk-crypto/src/main/kotlin/misk/crypto/S3KeySource.kt",
-      repo: "cashapp/misk",
-      lines: [
-        { number: 34, content: "class S3KeySource @Inject constructor(" },
-        { number: 35, content: "  private val deployment: Deployment," },
-        { number: 36, content: "  defaultS3: AmazonS3," },
-        { number: 49, content: "  private val s3: AmazonS3 = bucketNameSource.getBucketRegion(deployment)?.let { region ->" },
-        { number: 50, content: "    if (region != defaultS3.regionName) {" },
-        { number: 51, content: "      logger.info(\"creating S3ExternalKeyManager S3 client for $region\")" },
-        { number: 52, content: "      AmazonS3ClientBuilder" },
-        { number: 53, content: "        .standard()" },
-        { number: 54, content: "        .withRegion(region)" },
-        { number: 55, content: "        .withCredentials(awsCredentials)" },
-        { number: 56, content: "        .build()" },
-        { number: 57, content: "    } else null" },
-        { number: 58, content: "  } ?: defaultS3" }
-      ]
-    }
-  ]
-}
+import CitationPanel from '@/components/CitationPanel'
+
+export default function SearchPage() {
+  const { slug } = useParams<{ slug: string }>()
+  const router = useRouter()
+  const { user } = useUser()
+  const search = useQuery(api.searches.getSearch, user ? { searchId: slug, userId: user.id } : 'skip')
+  const convexDocuments: Doc<'documents'>[] | undefined = useQuery(
+    api.documents.getUserDocuments,
+    user ? { userId: user.id } : 'skip'
+  )
+  const documents = useMemo(() => (convexDocuments || []).map(toClientDocument), [convexDocuments])
+  const startQuestion = useSearchStarter(documents)
+  const [isStarting, setIsStarting] = useState(false)
+  const [activeCitation, setActiveCitation] = useState<ActiveCitation | null>(null)
+  const results = search?.results
+  const cited = useMemo(() => results ? citedDocuments(results, documents) : [], [results, documents])
+
+  if (search === undefined) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Loading...</div>
+      </div>
+    )
+  }
 
-interface PageProps {
-  params: {
-    slug: string
+  if (search === null) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-lg">Search not found</div>
+      </div>
+    )
   }
-}
 
-export default function SearchPage({ params }: PageProps) {
-  const [activeReference, setActiveReference] = useState<string | null>(null)
+  const scope: DocumentScope = { collectionId: search.collectionId, documentIds: search.documentIds }
+  const scopeLabel = describeScope(
+    scope,
+    search.collectionId && search.collectionName ? [{ _id: search.collectionId, name: search.collectionName }] : []
+  )
 
-  const handleFileReferenceClick = (fileRef: string) => {
-    setActiveReference(fileRef)
-    // Scroll to the corresponding code section
-    const fileName = fileRef.split(':')[0]
-    const sanitizedFileName = fileName.replace(/[^a-zA-Z0-9]/g, '-')
-    const element = document.getElementById(`code-ref-${sanitizedFileName}`)
-    if (element) {
-      element.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  // Asks the same question again as a deep search, on a page of its own
+  const handleGoDeeper = async () => {
+    setIsStarting(true)
+    try {
+      const searchId = await startQuestion(search.query, scope, 'deep')
+      if (searchId) router.push(`/search/${searchId}`)
+    } catch (error) {
+      console.error('Failed to start deep search:', error)
+    } finally {
+      setIsStarting(false)
     }
   }
 
+  const canGoDeeper = user && search.searchType === 'fast' && search.status !== 'processing' &&
+    convexDocuments !== undefined && !isStarting
+  const steps = search.steps || []
+
   return (
     <div className="flex min-h-[calc(100vh-3.5rem)] w-full flex-col">
-      <QueryDisplay 
-        query={mockResponse.query} 
-        repo={mockResponse.repo}
+      <QueryDisplay
+        query={search.query}
+        scopeLabel={scopeLabel}
+        searchType={search.searchType}
+        onGoDeeper={canGoDeeper ? handleGoDeeper : undefined}
       />
-      
-      <SplitPanel>
-        <ResponsePanel 
-          content={mockResponse.response.content} 
-          onFileReferenceClick={handleFileReferenceClick}
-        />
-        <CodePanel 
-          snippets={mockResponse.codeSnippets} 
-          activeReference={activeReference}
-        />
-      </SplitPanel>
+
+      {search.status === 'processing' && (
+        <div className="flex flex-1 flex-col items-center justify-center gap-4 text-gray-600 dark:text-gray-400">
+          <div className="flex items-center gap-3">
+            <div className="w-5 h-5 border-2 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
+            {steps.length > 0 ? steps[steps.length - 1].message : 'Searching your documents...'}
+          </div>
+          {steps.length > 1 && <StepList steps={steps.slice(0, -1)} />}
+        </div>
+      )}
+
+      {search.status === 'completed' && steps.length > 0 && (
+        <details className="container mx-auto px-4 py-2 text-sm text-gray-600 dark:text-gray-400">
+          <summary className="cursor-pointer">Research steps ({steps.length})</summary>
+          <StepList steps={steps} />
+        </details>
+      )}
+
+      {(search.status === 'failed' || search.status === 'interrupted') && (
+        <div className="container mx-auto px-4 py-8">
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-700 dark:text-red-300">
+            {search.status === 'interrupted'
+              ? 'This search was interrupted before it finished. Ask the question again from the search page.'
+              : `The search failed: ${search.error ?? 'unknown error'}`}
+          </div>
+        </div>
+      )}
+
+      {search.status === 'completed' && (results ? (
+        <SplitPanel>
+          <ResponsePanel
+            content={results.content}
+            documents={cited}
+            activeCitation={activeCitation}
+            onCitationClick={citation => {
+              const document = citedDocumentFor(citation, cited)
+              if (document) setActiveCitation({ documentId: document.documentId, pageNumber: citation.firstPage })
+            }}
+          />
+          <div>
+            <div className="px-4 py-3 border-b border-gray-200 dark:border-gray-800 text-xs text-gray-500">
+              Confidence {results.confidence}%
+            </div>
+            {cited.length > 0 ? (
+              <CitationPanel documents={cited} activeCitation={activeCitation} onPageClick={setActiveCitation} />
+            ) : (
+              <div className="p-6 text-sm text-gray-500">No passages were cited.</div>
+            )}
+          </div>
+        </SplitPanel>
+      ) : (
+        <div className="container mx-auto px-4 py-8 text-gray-600 dark:text-gray-400">
+          No answer was saved for this search.
+        </div>
+      ))}
     </div>
   )
-}
\ No newline at end of file
+}
+
+function StepList({ steps }: { steps: Array<{ message: string; at: number }> }) {
+  return (
+    <ol className="mt-2 space-y-1 text-sm">
+      {steps.map((step, index) => (
+        <li key={index} className="flex items-center gap-2">
+          <span className="text-green-600">✓</span>
+          {step.message}
+        </li>
+      ))}
+    </ol>
+  )
+}
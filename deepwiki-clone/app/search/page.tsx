@@ -1,35 +1,29 @@
 "use client";
 
-import { useState, useEffect } from "react";
+import { useMemo } from "react";
 import { useUser } from "@/lib/user-context";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc } from "@/convex/_generated/dataModel";
+import { toSearchableDocuments } from "@/lib/documents";
 import SearchInterface from "@/components/SearchInterface";
 
-interface Document {
-  id: string;
-  filename: string;
-  originalName: string;
-  fileSize: number;
-  uploadedAt: number;
-  status: string;
-  textContent?: string;
-  analysis?: any;
-}
-
 export default function SearchPage() {
   const { user, isLoading } = useUser();
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const convexDocuments: Doc<"documents">[] | undefined = useQuery(
+    api.documents.getUserDocuments,
+    user ? { userId: user.id } : "skip"
+  );
+  const collections = useQuery(
+    api.collections.getUserCollections,
+    user ? { userId: user.id } : "skip"
+  );
 
-  // Load documents from localStorage (shared with documents page)
-  useEffect(() => {
-    const savedDocs = localStorage.getItem('deepwiki-documents');
-    if (savedDocs) {
-      try {
-        setDocuments(JSON.parse(savedDocs));
-      } catch (error) {
-        console.error('Failed to load documents:', error);
-      }
-    }
-  }, []);
+  // Chunks stay on the server; search only needs the document metadata
+  const documents = useMemo(
+    () => toSearchableDocuments(convexDocuments || [], collections || []),
+    [convexDocuments, collections]
+  );
 
   if (isLoading) {
     return (
@@ -55,7 +49,10 @@ export default function SearchPage() {
 
   return (
     <div className="container mx-auto px-4 py-8">
-      <SearchInterface documents={documents} />
+      <SearchInterface
+        documents={documents}
+        collections={collections || []}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,322 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useUser } from "@/lib/user-context";
+import { hashFile, uploadToStorage } from "@/lib/documents";
+import {
+  ImportFileStatus,
+  ImportResult,
+  ImportSource,
+  folderPlacement,
+  runImportQueue,
+  sourceFromDrop,
+  sourceFromFolderInput,
+  sourceFromZip,
+} from "@/lib/bulk-import";
+
+interface ImportSummary {
+  source: string;
+  uploaded: number;
+  duplicates: number;
+  // Uploaded by an earlier, interrupted attempt
+  alreadyImported: number;
+  failed: ImportResult[];
+  skipped: string[];
+  stopped: boolean;
+}
+
+const STATUS_ICONS: Record<ImportFileStatus, string> = {
+  queued: "⏳",
+  uploading: "⬆️",
+  retrying: "🔁",
+  completed: "✅",
+  duplicate: "⏭️",
+  failed: "❌",
+};
+
+export default function BulkImport() {
+  const { user } = useUser();
+  const zipInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [fileStatuses, setFileStatuses] = useState<Array<{ path: string; status: ImportFileStatus }>>([]);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const unfinishedImports = useQuery(
+    api.imports.getUnfinishedImports,
+    user ? { userId: user.id } : "skip"
+  );
+  const startImport = useMutation(api.imports.startImport);
+  const recordImportFile = useMutation(api.imports.recordImportFile);
+  const finishImport = useMutation(api.imports.finishImport);
+  const dismissImport = useMutation(api.imports.dismissImport);
+  const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
+  const uploadDocument = useMutation(api.documents.uploadDocument);
+
+  // React has no prop for the non-standard directory picker attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute("webkitdirectory", "");
+  }, []);
+
+  const runImport = async (loadSource: () => Promise<ImportSource>) => {
+    if (!user || isImporting) return;
+
+    setIsImporting(true);
+    setSummary(null);
+    setError(null);
+    setFileStatuses([]);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      const source = await loadSource();
+      const { importId, completedPaths, collections } = await startImport({
+        userId: user.id,
+        source: source.name,
+        sourceKey: source.key,
+        paths: source.files.map(file => file.path),
+        collections: source.files
+          .map(file => folderPlacement(file.path).collection)
+          .filter((name): name is string => name !== undefined),
+      });
+
+      // Files uploaded by an earlier attempt are not uploaded again
+      const done = new Set(completedPaths);
+      const pending = source.files.filter(file => !done.has(file.path));
+      const collectionIds = new Map(collections.map(collection => [collection.name, collection.collectionId]));
+
+      const results = await runImportQueue(
+        pending,
+        {
+          store: async (file) => {
+            const blob = await file.getFile();
+            const contentHash = await hashFile(blob);
+            const fileId = await uploadToStorage(await generateUploadUrl(), blob);
+            return { blob, contentHash, fileId };
+          },
+          record: async (file, { blob, contentHash, fileId }) => {
+            const { collection, tags, name } = folderPlacement(file.path);
+            const result = await uploadDocument({
+              filename: `${Date.now()}_${blob.name}`,
+              originalName: name,
+              fileId,
+              userId: user.id,
+              collectionId: collection ? collectionIds.get(collection) : undefined,
+              fileSize: blob.size,
+              mimeType: file.mimeType,
+              contentHash,
+              tags: tags.length > 0 ? tags : undefined,
+            });
+            return { status: result.duplicate ? "duplicate" : "completed", documentId: result.documentId };
+          },
+        },
+        {
+          signal: controller.signal,
+          onStatus: (path, status) => setFileStatuses(prev =>
+            prev.some(entry => entry.path === path)
+              ? prev.map(entry => entry.path === path ? { path, status } : entry)
+              : [...prev, { path, status }]
+          ),
+          onResult: async (result) => {
+            try {
+              await recordImportFile({
+                importId,
+                path: result.path,
+                status: result.status,
+                attempts: result.attempts,
+                documentId: result.documentId as Id<"documents"> | undefined,
+                error: result.error,
+              });
+            } catch (recordError) {
+              // The file is uploaded again on resume, where it is recognised as a duplicate
+              console.error(`Failed to record import of ${result.path}:`, recordError);
+            }
+          },
+        }
+      );
+
+      await finishImport({ importId });
+      setSummary({
+        source: source.name,
+        uploaded: results.filter(result => result.status === "completed").length,
+        duplicates: results.filter(result => result.status === "duplicate").length,
+        alreadyImported: source.files.length - pending.length,
+        failed: results.filter(result => result.status === "failed"),
+        skipped: source.skipped,
+        stopped: controller.signal.aborted,
+      });
+    } catch (importError) {
+      console.error("Import failed:", importError);
+      setError(importError instanceof Error ? importError.message : "Import failed");
+    } finally {
+      abortControllerRef.current = null;
+      setIsImporting(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    const dataTransfer = e.dataTransfer;
+    runImport(() => sourceFromDrop(dataTransfer));
+  };
+
+  const handleZipSelect = (files: FileList | null) => {
+    const archive = files?.[0];
+    if (archive) runImport(() => sourceFromZip(archive));
+  };
+
+  const handleFolderSelect = (files: FileList | null) => {
+    if (files && files.length > 0) runImport(async () => sourceFromFolderInput(files));
+  };
+
+  const finishedCount = fileStatuses.filter(entry =>
+    entry.status === "completed" || entry.status === "duplicate" || entry.status === "failed"
+  ).length;
+
+  return (
+    <div className="space-y-4">
+      {/* Imports to resume */}
+      {!isImporting && unfinishedImports && unfinishedImports.length > 0 && (
+        <div className="space-y-2">
+          {unfinishedImports.map(entry => (
+            <div
+              key={entry._id}
+              className="p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg text-sm text-yellow-800 dark:text-yellow-200"
+            >
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  📦 <strong>{entry.source}</strong>: {entry.doneCount} of {entry.fileCount} files imported
+                  {entry.failedCount > 0 && `, ${entry.failedCount} failed`}.
+                  Select it again to resume.
+                </div>
+                <button
+                  onClick={() => dismissImport({ importId: entry._id })}
+                  className="text-xs underline shrink-0"
+                >
+                  Dismiss
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Drop Zone */}
+      <div
+        onDrop={handleDrop}
+        onDragOver={(e) => e.preventDefault()}
+        className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+          isImporting
+            ? "border-blue-300 bg-blue-50 dark:bg-blue-900/20"
+            : "border-gray-300 dark:border-gray-600 hover:border-blue-400 dark:hover:border-blue-500"
+        }`}
+      >
+        <div className="text-3xl mb-2">📦</div>
+        <div className="font-medium">
+          {isImporting ? `Importing... ${finishedCount} / ${fileStatuses.length}` : "Drop a ZIP archive or a folder"}
+        </div>
+        <div className="text-xs text-gray-600 dark:text-gray-400 mt-1">
+          Top-level folders become collections, subfolders become tags
+        </div>
+        {!isImporting && (
+          <div className="flex justify-center gap-2 mt-3">
+            <button
+              onClick={() => zipInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              Choose ZIP
+            </button>
+            <button
+              onClick={() => folderInputRef.current?.click()}
+              className="px-3 py-1.5 text-sm border border-gray-300 dark:border-gray-600 rounded-lg hover:bg-gray-50 dark:hover:bg-gray-800"
+            >
+              Choose Folder
+            </button>
+          </div>
+        )}
+        {isImporting && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="mt-3 px-3 py-1.5 text-sm text-red-600 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+          >
+            Stop after current files
+          </button>
+        )}
+      </div>
+
+      {/* Hidden File Inputs */}
+      <input
+        ref={zipInputRef}
+        type="file"
+        accept=".zip,application/zip"
+        onChange={(e) => {
+          handleZipSelect(e.target.files);
+          e.target.value = "";
+        }}
+        className="hidden"
+      />
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        onChange={(e) => {
+          handleFolderSelect(e.target.files);
+          e.target.value = "";
+        }}
+        className="hidden"
+      />
+
+      {/* Per-File Progress */}
+      {fileStatuses.length > 0 && (
+        <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 space-y-1 max-h-48 overflow-y-auto">
+          {fileStatuses.map(entry => (
+            <div key={entry.path} className="text-sm truncate" title={entry.path}>
+              {STATUS_ICONS[entry.status]} {entry.path}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg text-sm text-red-800 dark:text-red-200">
+          ❌ {error}
+        </div>
+      )}
+
+      {/* Summary Report */}
+      {summary && (
+        <div className="p-3 bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg text-sm space-y-1">
+          <div className="font-medium">
+            {summary.stopped ? "Import of" : "Imported"} {summary.source}
+            {summary.stopped && " stopped, select it again to resume"}
+          </div>
+          <div>✅ {summary.uploaded} uploaded</div>
+          {summary.duplicates > 0 && <div>⏭️ {summary.duplicates} already in your documents</div>}
+          {summary.alreadyImported > 0 && <div>↩️ {summary.alreadyImported} imported by an earlier attempt</div>}
+          {summary.skipped.length > 0 && (
+            <div title={summary.skipped.join("\n")}>
+              🚫 {summary.skipped.length} skipped, format not supported
+            </div>
+          )}
+          {summary.failed.length > 0 && (
+            <div className="text-red-700 dark:text-red-300">
+              <div>❌ {summary.failed.length} failed, select the source again to retry:</div>
+              <ul className="ml-5 list-disc">
+                {summary.failed.map(result => (
+                  <li key={result.path}>
+                    {result.path}: {result.error} ({result.attempts} attempts)
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,39 +1,138 @@
 "use client";
 
-import { useState, useEffect, useRef } from "react";
-import { aiChatService, ChatMessage, DocumentReference, ChatResponse } from "@/lib/ai-chat-service";
+import { useState, useEffect, useMemo, useRef } from "react";
+import { aiChatService, ChatMessage, DocumentReference, getReferenceKey } from "@/lib/ai-chat-service";
+import { ChunkRetriever } from "@/lib/search-service";
+import { PageLoader } from "@/lib/version-changes";
+import { useUser } from "@/lib/user-context";
+import { useQuery, useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { DocumentScope, ALL_DOCUMENTS, toScopeArgs } from "@/lib/document-scope";
+import { ClientDocument, toReferenceArgs, withPageTexts } from "@/lib/documents";
+import { findClickedReference, formatAnswerHtml } from "@/lib/chat-format";
 import PDFReferenceViewer from "./PDFReferenceViewer";
+import ThreadSidebar from "./ThreadSidebar";
+import ScopeSelector from "./ScopeSelector";
 
-interface Document {
-  id: string;
-  originalName: string;
-  textContent?: string;
-  analysis?: any;
+interface ChatInterfaceProps {
+  documents: ClientDocument[];
+  retrieveChunks: ChunkRetriever;
+  loadPages: PageLoader;
 }
 
-interface ChatInterfaceProps {
-  documents: Document[];
+function toChatMessage(message: Doc<"messages">): ChatMessage {
+  return {
+    id: message._id,
+    type: message.role,
+    content: message.content,
+    timestamp: message.createdAt,
+    references: message.references,
+    stopped: message.stopped,
+  };
 }
 
-export default function ChatInterface({ documents }: ChatInterfaceProps) {
+export default function ChatInterface({ documents, retrieveChunks, loadPages }: ChatInterfaceProps) {
+  const { user } = useUser();
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [currentQuestion, setCurrentQuestion] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [selectedReference, setSelectedReference] = useState<DocumentReference | null>(null);
   const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>([]);
   const [allReferences, setAllReferences] = useState<DocumentReference[]>([]);
+  // Answer being streamed, moved into messages once generation ends
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
   const referencePanelRef = useRef<HTMLDivElement>(null);
+  const splitContainerRef = useRef<HTMLDivElement>(null);
+  const [activeThreadId, setActiveThreadId] = useState<Id<"threads"> | null>(null);
+  const [scope, setScope] = useState<DocumentScope>(ALL_DOCUMENTS);
+  // Thread whose messages are currently loaded into the chat service
+  const loadedThreadRef = useRef<Id<"threads"> | null>(null);
   const [leftPanelWidth, setLeftPanelWidth] = useState(60); // Default 60% for chat
   const [isDragging, setIsDragging] = useState(false);
 
+  // The service outlives this component; a remount starts without a thread,
+  // so turns left from an earlier visit must not carry into the new chat
+  useEffect(() => {
+    aiChatService.clearHistory();
+  }, []);
+
   // Update AI service with documents when they change
   useEffect(() => {
     aiChatService.setDocuments(documents);
-    setMessages(aiChatService.getChatHistory());
   }, [documents]);
 
+  const threads: Doc<"threads">[] | undefined = useQuery(
+    api.threads.getUserThreads,
+    user ? { userId: user.id } : "skip"
+  );
+  const storedMessages: Doc<"messages">[] | undefined = useQuery(
+    api.threads.getThreadMessages,
+    activeThreadId && user ? { threadId: activeThreadId, userId: user.id } : "skip"
+  );
+  const collections: Doc<"collections">[] | undefined = useQuery(
+    api.collections.getUserCollections,
+    user ? { userId: user.id } : "skip"
+  );
+  const createThread = useMutation(api.threads.createThread);
+  const updateThreadScope = useMutation(api.threads.updateThreadScope);
+  const addMessage = useMutation(api.threads.addMessage);
+  const renameThread = useMutation(api.threads.renameThread);
+  const deleteThread = useMutation(api.threads.deleteThread);
+
+  // Resume a thread once its messages arrive
+  useEffect(() => {
+    if (!activeThreadId || !storedMessages || loadedThreadRef.current === activeThreadId) return;
+    loadedThreadRef.current = activeThreadId;
+
+    const thread = threads?.find(t => t._id === activeThreadId);
+    setScope({
+      collectionId: thread?.collectionId,
+      documentIds: thread?.documentIds,
+    });
+
+    const history = storedMessages.map(toChatMessage);
+    aiChatService.loadHistory(history);
+    setMessages(history);
+    setAllReferences(history.flatMap(m => m.references || []));
+    setSuggestedQuestions([]);
+    setSelectedReference(null);
+  }, [activeThreadId, storedMessages, threads]);
+
+  // Answers are only drawn from documents in the selected scope
+  useEffect(() => {
+    aiChatService.setScope(scope);
+  }, [scope]);
+
+  // Retrieval runs server-side through the chunks query
+  useEffect(() => {
+    aiChatService.setRetriever(retrieveChunks);
+  }, [retrieveChunks]);
+
+  useEffect(() => {
+    aiChatService.setPageLoader(loadPages);
+  }, [loadPages]);
+
+  // The reference panel shows the pages of the cited documents only
+  const referencedIds = useMemo(
+    () => Array.from(new Set(allReferences.map(reference => reference.documentId))),
+    [allReferences]
+  );
+  const referencedPages = useQuery(
+    api.pages.getPagesOfDocuments,
+    referencedIds.length > 0 ? { documentIds: referencedIds as Id<"documents">[] } : "skip"
+  );
+  const referencedDocuments = useMemo(
+    () => documents.map(document => {
+      const pages = referencedPages?.find(entry => entry.documentId === document.id)?.pages;
+      return pages ? withPageTexts(document, pages) : document;
+    }),
+    [documents, referencedPages]
+  );
+
   // Auto-scroll to bottom when new messages are added (but only if user is near bottom)
   useEffect(() => {
     if (chatContainerRef.current) {
@@ -45,7 +144,12 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
         messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
       }
     }
-  }, [messages]);
+  }, [messages, streamingMessage]);
+
+  // Stop generating when the chat unmounts
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   const handleSendMessage = async (question: string = currentQuestion) => {
     if (!question.trim() || isLoading) return;
@@ -53,23 +157,84 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
     setIsLoading(true);
     setCurrentQuestion("");
     
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
     try {
-      const response: ChatResponse = await aiChatService.askQuestion(question);
-      setMessages(aiChatService.getChatHistory());
-      setSuggestedQuestions(response.relatedQuestions || []);
-      
-      // Collect all references from all assistant messages
-      const newReferences = aiChatService.getChatHistory()
-        .filter(m => m.type === 'assistant' && m.references)
-        .flatMap(m => m.references || []);
-      setAllReferences(newReferences);
+      // The first question of a conversation starts a new thread
+      let threadId = activeThreadId;
+      if (!threadId && user) {
+        threadId = await createThread({ userId: user.id, ...toScopeArgs(scope) });
+        loadedThreadRef.current = threadId;
+        setActiveThreadId(threadId);
+      }
+      if (threadId && user) {
+        await addMessage({ threadId, userId: user.id, role: "user", content: question });
+      }
+
+      for await (const event of aiChatService.streamQuestion(question, controller.signal)) {
+        switch (event.type) {
+          case 'references':
+            setMessages([...aiChatService.getChatHistory()]);
+            setSuggestedQuestions([]);
+            setStreamingMessage({
+              id: 'streaming',
+              type: 'assistant',
+              content: '',
+              timestamp: Date.now(),
+              references: event.references
+            });
+            break;
+          case 'token':
+            setStreamingMessage(prev => prev && { ...prev, content: prev.content + event.text });
+            break;
+          case 'citation':
+            // Make the link clickable as soon as it is complete
+            setAllReferences(prev =>
+              prev.some(ref => getReferenceKey(ref) === getReferenceKey(event.reference))
+                ? prev
+                : [...prev, event.reference]
+            );
+            break;
+          case 'done': {
+            const { message } = event.response;
+            if (threadId && user) {
+              await addMessage({
+                threadId,
+                userId: user.id,
+                role: "assistant",
+                content: message.content,
+                references: message.references?.map(toReferenceArgs),
+                ...(message.stopped && { stopped: true }),
+              });
+            }
+
+            setMessages([...aiChatService.getChatHistory()]);
+            setSuggestedQuestions(event.response.relatedQuestions || []);
+
+            // Collect all references from all assistant messages
+            const newReferences = aiChatService.getChatHistory()
+              .filter(m => m.type === 'assistant' && m.references)
+              .flatMap(m => m.references || []);
+            setAllReferences(newReferences);
+            break;
+          }
+        }
+      }
     } catch (error) {
       console.error("Failed to send message:", error);
+      setMessages([...aiChatService.getChatHistory()]);
     } finally {
+      abortControllerRef.current = null;
+      setStreamingMessage(null);
       setIsLoading(false);
     }
   };
 
+  const handleStopGenerating = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -77,31 +242,52 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
     }
   };
 
-  const clearChat = () => {
+  const startNewThread = () => {
+    setActiveThreadId(null);
+    loadedThreadRef.current = null;
     aiChatService.clearHistory();
     setMessages([]);
     setSuggestedQuestions([]);
     setSelectedReference(null);
+    setAllReferences([]);
   };
 
-  const stats = aiChatService.getDocumentStatistics();
+  const handleScopeChange = async (newScope: DocumentScope) => {
+    setScope(newScope);
+    if (!activeThreadId || !user) return;
 
-  const formatMessageContent = (content: string) => {
-    // Convert markdown-like formatting to HTML and handle reference links
-    let formatted = content
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/\n/g, '<br />');
-    
-    // Handle DeepWiki-style reference links: [filename:pageX](ref:docId:pageNumber)
-    formatted = formatted.replace(
-      /\[([^\]]+)\]\(ref:([^:]+):(\d+)\)/g, 
-      '<button class="reference-link text-blue-600 dark:text-blue-400 hover:underline font-medium" data-doc-id="$2" data-page="$3">$1</button>'
-    );
-    
-    return formatted;
+    try {
+      await updateThreadScope({ threadId: activeThreadId, userId: user.id, ...toScopeArgs(newScope) });
+    } catch (error) {
+      console.error("Failed to update thread scope:", error);
+    }
+  };
+
+  const handleSelectThread = (threadId: Id<"threads">) => {
+    if (threadId !== activeThreadId) setActiveThreadId(threadId);
+  };
+
+  const handleRenameThread = async (threadId: Id<"threads">, title: string) => {
+    if (!user) return;
+    try {
+      await renameThread({ threadId, userId: user.id, title });
+    } catch (error) {
+      console.error("Failed to rename thread:", error);
+    }
+  };
+
+  const handleDeleteThread = async (threadId: Id<"threads">) => {
+    if (!user) return;
+    try {
+      await deleteThread({ threadId, userId: user.id });
+      if (threadId === activeThreadId) startNewThread();
+    } catch (error) {
+      console.error("Failed to delete thread:", error);
+    }
   };
 
+  const stats = aiChatService.getDocumentStatistics();
+
   const handleReferenceClick = (reference: DocumentReference) => {
     setSelectedReference(reference);
     
@@ -110,7 +296,7 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
     setTimeout(() => {
       if (referencePanelRef.current) {
         const referenceElement = referencePanelRef.current.querySelector(
-          `[data-reference-id="${reference.documentId}:${reference.pageNumber}"]`
+          `[data-reference-id="${getReferenceKey(reference)}"]`
         );
         if (referenceElement) {
           referenceElement.scrollIntoView({ 
@@ -124,19 +310,9 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
 
   // Handle clicks on reference links in the chat
   const handleMessageClick = (e: React.MouseEvent) => {
-    const target = e.target as HTMLElement;
-    if (target.classList.contains('reference-link')) {
-      const docId = target.getAttribute('data-doc-id');
-      const page = target.getAttribute('data-page');
-      
-      if (docId && page) {
-        const reference = allReferences.find(
-          ref => ref.documentId === docId && ref.pageNumber === parseInt(page)
-        );
-        if (reference) {
-          handleReferenceClick(reference);
-        }
-      }
+    const reference = findClickedReference(e.target as HTMLElement, allReferences);
+    if (reference) {
+      handleReferenceClick(reference);
     }
   };
 
@@ -146,34 +322,70 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
     e.preventDefault();
   };
 
-  const handleMouseMove = (e: MouseEvent) => {
+  // Add and remove mouse event listeners while dragging
+  useEffect(() => {
     if (!isDragging) return;
-    
-    const containerWidth = window.innerWidth;
-    const newLeftWidth = (e.clientX / containerWidth) * 100;
-    
-    // Constrain between 30% and 80%
-    const constrainedWidth = Math.min(Math.max(newLeftWidth, 30), 80);
-    setLeftPanelWidth(constrainedWidth);
-  };
 
-  const handleMouseUp = () => {
-    setIsDragging(false);
-  };
+    const handleMouseMove = (e: MouseEvent) => {
+      // Measure against the split area, which starts after the thread sidebar
+      const rect = splitContainerRef.current?.getBoundingClientRect();
+      if (!rect) return;
+      const newLeftWidth = ((e.clientX - rect.left) / rect.width) * 100;
 
-  // Add and remove mouse event listeners
-  useEffect(() => {
-    if (isDragging) {
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
-      
-      return () => {
-        document.removeEventListener('mousemove', handleMouseMove);
-        document.removeEventListener('mouseup', handleMouseUp);
-      };
-    }
+      // Constrain between 30% and 80%
+      const constrainedWidth = Math.min(Math.max(newLeftWidth, 30), 80);
+      setLeftPanelWidth(constrainedWidth);
+    };
+
+    const handleMouseUp = () => {
+      setIsDragging(false);
+    };
+
+    document.addEventListener('mousemove', handleMouseMove);
+    document.addEventListener('mouseup', handleMouseUp);
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove);
+      document.removeEventListener('mouseup', handleMouseUp);
+    };
   }, [isDragging]);
 
+  const renderAnswer = (message: ChatMessage, isStreaming = false) => (
+    <div className="flex items-start space-x-3 ml-8">
+      <div className="w-8 h-8 bg-green-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
+        A
+      </div>
+      <div className="flex-1">
+        <div 
+          className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
+          onClick={handleMessageClick}
+        >
+          <div
+            className="prose dark:prose-invert max-w-none"
+            dangerouslySetInnerHTML={{
+              __html: formatAnswerHtml(message.content, isStreaming)
+            }}
+          />
+          {message.references && message.references.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
+              <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
+                </svg>
+                <span>
+                  {message.references.length} reference{message.references.length > 1 ? 's' : ''} • Click blue links to view in panel
+                </span>
+              </div>
+            </div>
+          )}
+          {message.stopped && (
+            <p className="mt-3 text-xs text-gray-500 dark:text-gray-400 italic">Generation stopped</p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+
   if (documents.length === 0) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -190,232 +402,229 @@ export default function ChatInterface({ documents }: ChatInterfaceProps) {
 
   return (
     <div className="h-screen flex relative">
-      {/* Main Chat Panel - DeepWiki Style */}
-      <div 
-        className="flex flex-col relative"
-        style={{ width: `${leftPanelWidth}%` }}
-      >
-        {/* Header */}
-        <div className="border-b border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-900 z-10">
-          <div className="flex items-center justify-between">
-            <div>
-              <h1 className="text-2xl font-bold">Chat with Your Documents</h1>
-              <p className="text-sm text-gray-600 dark:text-gray-400">
-                Ask questions about {stats.availableForChat} document{stats.availableForChat !== 1 ? 's' : ''}
-              </p>
-            </div>
-            {messages.length > 0 && (
-              <button
-                onClick={clearChat}
-                className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600"
-              >
-                Clear Chat
-              </button>
-            )}
-          </div>
-        </div>
+      <ThreadSidebar
+        threads={threads || []}
+        activeThreadId={activeThreadId}
+        onSelect={handleSelectThread}
+        onNewThread={startNewThread}
+        onRename={handleRenameThread}
+        onDelete={handleDeleteThread}
+        disabled={isLoading}
+      />
 
-        {/* Scrollable Messages Area - DeepWiki Style */}
+      <div ref={splitContainerRef} className="flex-1 flex min-w-0">
+        {/* Main Chat Panel - DeepWiki Style */}
         <div 
-          ref={chatContainerRef}
-          className="flex-1 overflow-y-auto pb-32 bg-white dark:bg-gray-900"
-          style={{ scrollBehavior: 'smooth' }}
+          className="flex flex-col relative"
+          style={{ width: `${leftPanelWidth}%` }}
         >
-          {messages.length === 0 ? (
-            <div className="text-center py-16 px-4">
-              <div className="text-4xl mb-6">🤖</div>
-              <h3 className="text-xl font-medium mb-4">Start a conversation</h3>
-              <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-lg mx-auto">
-                Ask me anything about your documents. I'll find relevant information and provide sources.
-              </p>
-              <div className="space-y-3">
-                <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Try asking:</p>
-                <div className="flex flex-wrap gap-2 justify-center max-w-2xl mx-auto">
-                  {[
-                    "What are the main topics covered?",
-                    "Summarize the key points",
-                    "What does this document say about...",
-                    "Can you explain the concepts in simple terms?"
-                  ].map((suggestion, index) => (
-                    <button
-                      key={index}
-                      onClick={() => handleSendMessage(suggestion)}
-                      className="px-4 py-2 text-sm bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
-                    >
-                      {suggestion}
-                    </button>
-                  ))}
+          {/* Header */}
+          <div className="border-b border-gray-200 dark:border-gray-700 p-4 bg-white dark:bg-gray-900 z-10">
+            <div className="flex items-center justify-between">
+              <div>
+                <h1 className="text-2xl font-bold">Chat with Your Documents</h1>
+                <div className="flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+                  <span>
+                    Ask questions about {stats.availableForChat} document{stats.availableForChat !== 1 ? 's' : ''} in
+                  </span>
+                  <ScopeSelector
+                    scope={scope}
+                    onChange={handleScopeChange}
+                    collections={collections || []}
+                    documents={documents}
+                    disabled={isLoading}
+                  />
                 </div>
               </div>
+              {messages.length > 0 && (
+                <button
+                  onClick={startNewThread}
+                  disabled={isLoading}
+                  className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-50"
+                >
+                  New Chat
+                </button>
+              )}
             </div>
-          ) : (
-            <div className="space-y-6 p-4">
-              {messages.map((message, index) => (
-                <div key={message.id} className="space-y-4">
-                  {/* Question */}
-                  {message.type === 'user' && (
-                    <div className="flex items-start space-x-3">
-                      <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
-                        Q
-                      </div>
-                      <div className="flex-1">
-                        <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
-                          <p className="text-gray-900 dark:text-gray-100 font-medium">{message.content}</p>
+          </div>
+
+          {/* Scrollable Messages Area - DeepWiki Style */}
+          <div 
+            ref={chatContainerRef}
+            className="flex-1 overflow-y-auto pb-32 bg-white dark:bg-gray-900"
+            style={{ scrollBehavior: 'smooth' }}
+          >
+            {messages.length === 0 ? (
+              <div className="text-center py-16 px-4">
+                <div className="text-4xl mb-6">🤖</div>
+                <h3 className="text-xl font-medium mb-4">Start a conversation</h3>
+                <p className="text-gray-600 dark:text-gray-400 mb-6 max-w-lg mx-auto">
+                  Ask me anything about your documents. I&apos;ll find relevant information and provide sources.
+                </p>
+                <div className="space-y-3">
+                  <p className="text-sm font-medium text-gray-700 dark:text-gray-300">Try asking:</p>
+                  <div className="flex flex-wrap gap-2 justify-center max-w-2xl mx-auto">
+                    {[
+                      "What are the main topics covered?",
+                      "Summarize the key points",
+                      "What does this document say about...",
+                      "Can you explain the concepts in simple terms?"
+                    ].map((suggestion, index) => (
+                      <button
+                        key={index}
+                        onClick={() => handleSendMessage(suggestion)}
+                        className="px-4 py-2 text-sm bg-blue-100 dark:bg-blue-900 text-blue-700 dark:text-blue-300 rounded-lg hover:bg-blue-200 dark:hover:bg-blue-800 transition-colors"
+                      >
+                        {suggestion}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            ) : (
+              <div className="space-y-6 p-4">
+                {messages.map((message, index) => (
+                  <div key={message.id} className="space-y-4">
+                    {/* Question */}
+                    {message.type === 'user' && (
+                      <div className="flex items-start space-x-3">
+                        <div className="w-8 h-8 bg-blue-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
+                          Q
                         </div>
-                      </div>
-                    </div>
-                  )}
-                  
-                  {/* Answer */}
-                  {message.type === 'assistant' && (
-                    <div className="flex items-start space-x-3 ml-8">
-                      <div className="w-8 h-8 bg-green-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
-                        A
-                      </div>
-                      <div className="flex-1">
-                        <div 
-                          className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4"
-                          onClick={handleMessageClick}
-                        >
-                          <div
-                            className="prose dark:prose-invert max-w-none"
-                            dangerouslySetInnerHTML={{
-                              __html: formatMessageContent(message.content)
-                            }}
-                          />
-                          {message.references && message.references.length > 0 && (
-                            <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
-                              <div className="flex items-center space-x-2 text-xs text-gray-500 dark:text-gray-400">
-                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13.828 10.172a4 4 0 00-5.656 0l-4 4a4 4 0 105.656 5.656l1.102-1.101m-.758-4.899a4 4 0 005.656 0l4-4a4 4 0 00-5.656-5.656l-1.1 1.1" />
-                                </svg>
-                                <span>
-                                  {message.references.length} reference{message.references.length > 1 ? 's' : ''} • Click blue links to view in panel
-                                </span>
-                              </div>
-                            </div>
-                          )}
+                        <div className="flex-1">
+                          <div className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-4">
+                            <p className="text-gray-900 dark:text-gray-100 font-medium">{message.content}</p>
+                          </div>
                         </div>
                       </div>
-                    </div>
-                  )}
+                    )}
+                  
+                    {/* Answer */}
+                    {message.type === 'assistant' && renderAnswer(message)}
                   
-                  {/* Suggested Questions after each answer */}
-                  {message.type === 'assistant' && index === messages.length - 1 && suggestedQuestions.length > 0 && (
-                    <div className="ml-16 mt-4">
-                      <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Related questions:</p>
-                      <div className="flex flex-wrap gap-2">
-                        {suggestedQuestions.map((question, qIndex) => (
-                          <button
-                            key={qIndex}
-                            onClick={() => handleSendMessage(question)}
-                            className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
-                            disabled={isLoading}
-                          >
-                            {question}
-                          </button>
-                        ))}
+                    {/* Suggested Questions after each answer */}
+                    {message.type === 'assistant' && index === messages.length - 1 && suggestedQuestions.length > 0 && (
+                      <div className="ml-16 mt-4">
+                        <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Related questions:</p>
+                        <div className="flex flex-wrap gap-2">
+                          {suggestedQuestions.map((question, qIndex) => (
+                            <button
+                              key={qIndex}
+                              onClick={() => handleSendMessage(question)}
+                              className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-lg hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors"
+                              disabled={isLoading}
+                            >
+                              {question}
+                            </button>
+                          ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </div>
-              ))}
-              
-              {isLoading && (
-                <div className="flex items-start space-x-3 ml-8">
-                  <div className="w-8 h-8 bg-green-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
-                    A
+                    )}
                   </div>
-                  <div className="flex-1">
-                    <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
-                      <div className="flex items-center space-x-2">
-                        <div className="animate-spin w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full"></div>
-                        <span className="text-sm text-gray-600 dark:text-gray-400">Thinking...</span>
+                ))}
+              
+                {streamingMessage?.content ? renderAnswer(streamingMessage, true) : isLoading && (
+                  <div className="flex items-start space-x-3 ml-8">
+                    <div className="w-8 h-8 bg-green-600 rounded-full flex items-center justify-center text-white text-sm font-medium">
+                      A
+                    </div>
+                    <div className="flex-1">
+                      <div className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-4">
+                        <div className="flex items-center space-x-2">
+                          <div className="animate-spin w-4 h-4 border-2 border-green-600 border-t-transparent rounded-full"></div>
+                          <span className="text-sm text-gray-600 dark:text-gray-400">Thinking...</span>
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              )}
+                )}
               
-              <div ref={messagesEndRef} />
-            </div>
-          )}
-        </div>
+                <div ref={messagesEndRef} />
+              </div>
+            )}
+          </div>
 
-        {/* Floating Input Box - DeepWiki Style */}
-        <div className="absolute bottom-0 left-0 right-0 bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 p-4 z-20">
-          <div className="max-w-4xl mx-auto">
-            <div className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
-              <div className="flex space-x-3 p-4">
-                <textarea
-                  value={currentQuestion}
-                  onChange={(e) => setCurrentQuestion(e.target.value)}
-                  onKeyPress={handleKeyPress}
-                  placeholder="Ask me a question about your documents..."
-                  className="flex-1 resize-none border-0 bg-transparent focus:outline-none focus:ring-0 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
-                  rows={1}
-                  disabled={isLoading}
-                />
-                <button
-                  onClick={() => handleSendMessage()}
-                  disabled={isLoading || !currentQuestion.trim()}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
-                >
+          {/* Floating Input Box - DeepWiki Style */}
+          <div className="absolute bottom-0 left-0 right-0 bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-700 p-4 z-20">
+            <div className="max-w-4xl mx-auto">
+              <div className="bg-white dark:bg-gray-800 border border-gray-300 dark:border-gray-600 rounded-lg shadow-lg">
+                <div className="flex space-x-3 p-4">
+                  <textarea
+                    value={currentQuestion}
+                    onChange={(e) => setCurrentQuestion(e.target.value)}
+                    onKeyPress={handleKeyPress}
+                    placeholder="Ask me a question about your documents..."
+                    className="flex-1 resize-none border-0 bg-transparent focus:outline-none focus:ring-0 dark:text-white placeholder-gray-500 dark:placeholder-gray-400"
+                    rows={1}
+                    disabled={isLoading}
+                  />
                   {isLoading ? (
-                    <div className="animate-spin w-4 h-4 border-2 border-white border-t-transparent rounded-full"></div>
+                    <button
+                      onClick={handleStopGenerating}
+                      className="px-4 py-2 bg-gray-700 text-white rounded-lg hover:bg-gray-800 transition-colors flex items-center space-x-2"
+                    >
+                      <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                        <rect x="6" y="6" width="12" height="12" rx="1" />
+                      </svg>
+                      <span>Stop</span>
+                    </button>
                   ) : (
-                    <>
+                    <button
+                      onClick={() => handleSendMessage()}
+                      disabled={!currentQuestion.trim()}
+                      className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors flex items-center space-x-2"
+                    >
                       <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 19l9 2-9-18-9 18 9-2zm0 0v-8" />
                       </svg>
                       <span>Send</span>
-                    </>
+                    </button>
                   )}
-                </button>
+                </div>
               </div>
             </div>
           </div>
         </div>
-      </div>
 
-      {/* Draggable Splitter */}
-      <div
-        className={`w-1 bg-gray-200 dark:bg-gray-700 hover:bg-blue-500 dark:hover:bg-blue-400 cursor-col-resize flex-shrink-0 transition-colors ${
-          isDragging ? 'bg-blue-500 dark:bg-blue-400' : ''
-        }`}
-        onMouseDown={handleMouseDown}
-      >
-        {/* Visual indicator */}
-        <div className="w-full h-full flex items-center justify-center">
-          <div className="w-0.5 h-8 bg-gray-400 dark:bg-gray-500 rounded-full"></div>
+        {/* Draggable Splitter */}
+        <div
+          className={`w-1 bg-gray-200 dark:bg-gray-700 hover:bg-blue-500 dark:hover:bg-blue-400 cursor-col-resize flex-shrink-0 transition-colors ${
+            isDragging ? 'bg-blue-500 dark:bg-blue-400' : ''
+          }`}
+          onMouseDown={handleMouseDown}
+        >
+          {/* Visual indicator */}
+          <div className="w-full h-full flex items-center justify-center">
+            <div className="w-0.5 h-8 bg-gray-400 dark:bg-gray-500 rounded-full"></div>
+          </div>
         </div>
-      </div>
 
-      {/* Enhanced References Panel - DeepWiki Style */}
-      <div 
-        className="border-l border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 flex flex-col"
-        style={{ width: `${100 - leftPanelWidth}%` }}
-      >
-        <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
-          <h2 className="font-semibold text-gray-900 dark:text-gray-100">Document References</h2>
-          {allReferences.length > 0 && (
-            <p className="text-xs text-gray-500 mt-1">
-              {allReferences.length} reference{allReferences.length > 1 ? 's' : ''} across {documents.length} document{documents.length > 1 ? 's' : ''}
-            </p>
-          )}
-        </div>
-        
+        {/* Enhanced References Panel - DeepWiki Style */}
         <div 
-          ref={referencePanelRef}
-          className="flex-1 overflow-y-auto"
-          style={{ scrollBehavior: 'smooth' }}
+          className="border-l border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 flex flex-col"
+          style={{ width: `${100 - leftPanelWidth}%` }}
         >
-          <PDFReferenceViewer
-            documents={documents}
-            activeReference={selectedReference}
-            onReferenceClick={handleReferenceClick}
-            allReferences={allReferences}
-          />
+          <div className="p-4 border-b border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-900">
+            <h2 className="font-semibold text-gray-900 dark:text-gray-100">Document References</h2>
+            {allReferences.length > 0 && (
+              <p className="text-xs text-gray-500 mt-1">
+                {allReferences.length} reference{allReferences.length > 1 ? 's' : ''} across {documents.length} document{documents.length > 1 ? 's' : ''}
+              </p>
+            )}
+          </div>
+        
+          <div 
+            ref={referencePanelRef}
+            className="flex-1 overflow-y-auto"
+            style={{ scrollBehavior: 'smooth' }}
+          >
+            <PDFReferenceViewer
+              documents={referencedDocuments}
+              activeReference={selectedReference}
+              onReferenceClick={handleReferenceClick}
+              allReferences={allReferences}
+            />
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,224 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useQuery } from 'convex/react'
+import { api } from '@/convex/_generated/api'
+import { Id } from '@/convex/_generated/dataModel'
+import { ActiveCitation, CitedDocument, ExcerptBlock, PageExcerpt, pageExcerpt } from '@/lib/citations'
+
+interface CitationPanelProps {
+  documents: CitedDocument[]
+  activeCitation?: ActiveCitation | null
+  onPageClick?: (citation: ActiveCitation) => void
+}
+
+export default function CitationPanel({ documents, activeCitation, onPageClick }: CitationPanelProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  const toggleDocument = (documentId: string) => {
+    const newCollapsed = new Set(collapsed)
+    if (newCollapsed.has(documentId)) {
+      newCollapsed.delete(documentId)
+    } else {
+      newCollapsed.add(documentId)
+    }
+    setCollapsed(newCollapsed)
+  }
+
+  // A citation clicked in the answer opens its document
+  useEffect(() => {
+    if (!activeCitation) return
+    const document = documents.find(d => d.documentId === activeCitation.documentId)
+    if (!document) return
+    setCollapsed(prev => {
+      if (!prev.has(document.documentId)) return prev
+      const next = new Set(prev)
+      next.delete(document.documentId)
+      return next
+    })
+  }, [activeCitation, documents])
+
+  // Versions of a document share its name, so cards of several versions show their numbers
+  const sharedNames = new Set(documents
+    .map(d => d.documentName)
+    .filter((name, index, names) => names.indexOf(name) !== index))
+
+  return (
+    <div className="bg-gray-50 dark:bg-gray-900/50">
+      {documents.map(document => (
+        <CitedDocumentCard
+          key={document.documentId}
+          document={document}
+          versionLabel={document.version || sharedNames.has(document.documentName) ? `v${document.version ?? 1}` : undefined}
+          isExpanded={!collapsed.has(document.documentId)}
+          onToggle={() => toggleDocument(document.documentId)}
+          activeCitation={activeCitation}
+          onPageClick={onPageClick}
+        />
+      ))}
+    </div>
+  )
+}
+
+interface CitedDocumentCardProps {
+  document: CitedDocument
+  versionLabel?: string
+  isExpanded: boolean
+  onToggle: () => void
+  activeCitation?: ActiveCitation | null
+  onPageClick?: (citation: ActiveCitation) => void
+}
+
+function CitedDocumentCard({ document, versionLabel, isExpanded, onToggle, activeCitation, onPageClick }: CitedDocumentCardProps) {
+  const pages = useQuery(
+    api.documents.getDocumentPages,
+    isExpanded ? { documentId: document.documentId as Id<'documents'>, pageNumbers: document.pageNumbers } : 'skip'
+  )
+  const isActiveDocument = activeCitation?.documentId === document.documentId
+
+  return (
+    <div
+      className={`border-b border-gray-200 dark:border-gray-800 transition-all duration-300 ${
+        isActiveDocument ? 'bg-blue-50/50 dark:bg-blue-900/10' : ''
+      }`}
+    >
+      <div className="p-4">
+        {/* Header */}
+        <div className="flex items-center justify-between mb-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={onToggle}
+              className="p-1 hover:bg-gray-200 dark:hover:bg-gray-700 rounded"
+            >
+              {isExpanded ? (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                </svg>
+              ) : (
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+                </svg>
+              )}
+            </button>
+
+            <div className="w-6 h-6 bg-gray-300 dark:bg-gray-600 rounded flex items-center justify-center">
+              <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24">
+                <path d="M14,2H6A2,2 0 0,0 4,4V20A2,2 0 0,0 6,22H18A2,2 0 0,0 20,20V8L14,2M18,20H6V4H13V9H18V20Z" />
+              </svg>
+            </div>
+
+            <Link
+              href={`/documents/${document.documentId}?page=${document.pageNumbers[0] ?? 1}`}
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {document.documentName}
+            </Link>
+            {versionLabel && (
+              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                {versionLabel}
+              </span>
+            )}
+          </div>
+
+          <span className="text-xs text-gray-500">
+            {document.pageNumbers.length === 1 ? 'Page' : 'Pages'} {document.pageNumbers.join(', ')}
+          </span>
+        </div>
+
+        {/* Page Excerpts */}
+        {isExpanded && (
+          pages === undefined ? (
+            <div className="text-xs text-gray-500">Loading pages...</div>
+          ) : pages === null || pages.length === 0 ? (
+            // The document was deleted or has no text; fall back to the saved excerpts
+            <ul className="space-y-2">
+              {document.excerpts.map((excerpt, index) => (
+                <li
+                  key={index}
+                  className="text-sm text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-900 border border-gray-200 dark:border-gray-700 rounded-md p-3"
+                >
+                  {excerpt}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <div className="space-y-3">
+              {pages.map(({ page, offset }) => (
+                <CitedPage
+                  key={page.pageNumber}
+                  pageNumber={page.pageNumber}
+                  excerpt={pageExcerpt(page, offset, document.spans)}
+                  isActive={isActiveDocument && activeCitation?.pageNumber === page.pageNumber}
+                  onClick={() => onPageClick?.({ documentId: document.documentId, pageNumber: page.pageNumber })}
+                />
+              ))}
+            </div>
+          )
+        )}
+      </div>
+    </div>
+  )
+}
+
+interface CitedPageProps {
+  pageNumber: number
+  excerpt: PageExcerpt
+  isActive: boolean
+  onClick: () => void
+}
+
+function CitedPage({ pageNumber, excerpt, isActive, onClick }: CitedPageProps) {
+  const pageRef = useRef<HTMLDivElement>(null)
+
+  // Bring the page of a citation clicked in the answer into view
+  useEffect(() => {
+    if (isActive) pageRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+  }, [isActive])
+
+  return (
+    <div
+      ref={pageRef}
+      onClick={onClick}
+      className={`bg-white dark:bg-gray-900 rounded-md border overflow-hidden cursor-pointer transition-all duration-300 ${
+        isActive ? 'ring-2 ring-blue-500 border-blue-500' : 'border-gray-200 dark:border-gray-700 hover:border-gray-300 dark:hover:border-gray-600'
+      }`}
+    >
+      <div className="px-4 py-1.5 text-xs font-medium text-gray-500 border-b border-gray-200 dark:border-gray-700">
+        Page {pageNumber}
+      </div>
+      <div className="p-4 space-y-2 text-sm">
+        {excerpt.blocks.map(block => (
+          <div key={block.offset}>
+            {block.gapBefore && <div className="text-gray-400 pl-12 mb-2">…</div>}
+            <div className="flex">
+              <span className="select-none text-gray-400 dark:text-gray-500 w-8 text-right mr-4 font-mono text-xs pt-0.5 shrink-0">
+                {block.heading ? '' : `¶${block.paragraphIndex + 1}`}
+              </span>
+              <span className={`leading-relaxed whitespace-pre-wrap ${block.heading ? 'font-semibold' : 'text-gray-700 dark:text-gray-300'}`}>
+                {renderHighlights(block)}
+              </span>
+            </div>
+          </div>
+        ))}
+        {excerpt.gapAfter && <div className="text-gray-400 pl-12">…</div>}
+      </div>
+    </div>
+  )
+}
+
+function renderHighlights(block: ExcerptBlock) {
+  const parts = []
+  let lastIndex = 0
+  for (const [start, end] of block.highlights) {
+    if (start > lastIndex) parts.push(block.text.slice(lastIndex, start))
+    parts.push(
+      <mark key={start} className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm">
+        {block.text.slice(start, end)}
+      </mark>
+    )
+    lastIndex = end
+  }
+  if (lastIndex < block.text.length) parts.push(block.text.slice(lastIndex))
+  return parts
+}
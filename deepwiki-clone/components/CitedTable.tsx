@@ -0,0 +1,74 @@
+"use client";
+
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { tableRowRanges } from "@/convex/lib/tables";
+
+interface CitedTableProps {
+  tableId: string;
+  // Cited character range within the document text
+  charStart: number;
+  charEnd: number;
+}
+
+export default function CitedTable({ tableId, charStart, charEnd }: CitedTableProps) {
+  const table = useQuery(api.tables.getTable, { tableId: tableId as Id<"tables"> });
+
+  if (table === undefined) {
+    return <div className="p-3 text-xs text-gray-500">Loading table...</div>;
+  }
+  if (table === null) {
+    return <div className="p-3 text-xs text-gray-500">This table is no longer available</div>;
+  }
+
+  // Rows overlapping the cited range are highlighted
+  const citedRows = new Set(
+    tableRowRanges(table.header, table.rows)
+      .map((range, index) => ({ index, start: table.startOffset + range.start, end: table.startOffset + range.end }))
+      .filter(range => range.start < charEnd && range.end > charStart)
+      .map(range => range.index)
+  );
+
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-sm border-collapse">
+        <caption className="text-left text-xs text-gray-600 dark:text-gray-400 px-3 py-2">
+          Table {table.number} · Page {table.pageNumber}
+        </caption>
+        {table.header.length > 0 && (
+          <thead className="bg-gray-100 dark:bg-gray-700">
+            <tr>
+              {table.header.map((cell, index) => (
+                <th
+                  key={index}
+                  scope="col"
+                  className="px-3 py-1.5 text-left font-medium border border-gray-200 dark:border-gray-600"
+                >
+                  {cell}
+                </th>
+              ))}
+            </tr>
+          </thead>
+        )}
+        <tbody>
+          {table.rows.map((row, rowIndex) => (
+            <tr
+              key={rowIndex}
+              className={citedRows.has(rowIndex) ? "bg-yellow-100 dark:bg-yellow-900/40" : ""}
+            >
+              {row.map((cell, cellIndex) => (
+                <td
+                  key={cellIndex}
+                  className="px-3 py-1.5 border border-gray-200 dark:border-gray-600 text-gray-700 dark:text-gray-300"
+                >
+                  {cell}
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
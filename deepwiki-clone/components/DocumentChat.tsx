@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { AIChatService, ChatMessage, DocumentReference } from "@/lib/ai-chat-service";
+import { ChunkRetriever } from "@/lib/search-service";
+import { PageLoader } from "@/lib/version-changes";
+import { ClientDocument } from "@/lib/documents";
+import { findClickedReference, formatAnswerHtml } from "@/lib/chat-format";
+
+interface DocumentChatProps {
+  documentId: string;
+  documentName: string;
+  // The user's documents, so questions about versions can find the other versions
+  documents: ClientDocument[];
+  retrieveChunks: ChunkRetriever;
+  loadPages: PageLoader;
+  onOpenReference: (reference: DocumentReference) => void;
+}
+
+// Answers questions from one document, with its own conversation apart from the chat page
+export default function DocumentChat({
+  documentId,
+  documentName,
+  documents,
+  retrieveChunks,
+  loadPages,
+  onOpenReference,
+}: DocumentChatProps) {
+  const chatServiceRef = useRef<AIChatService | null>(null);
+  if (!chatServiceRef.current) chatServiceRef.current = new AIChatService();
+  const chatService = chatServiceRef.current;
+
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [streamingMessage, setStreamingMessage] = useState<ChatMessage | null>(null);
+  const [question, setQuestion] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    chatService.setDocuments(documents);
+  }, [chatService, documents]);
+
+  useEffect(() => {
+    chatService.setRetriever(retrieveChunks);
+  }, [chatService, retrieveChunks]);
+
+  useEffect(() => {
+    chatService.setPageLoader(loadPages);
+  }, [chatService, loadPages]);
+
+  // A different document starts a new conversation
+  useEffect(() => {
+    chatService.setScope({ documentIds: [documentId] });
+    chatService.clearHistory();
+    setMessages([]);
+  }, [chatService, documentId]);
+
+  // Stop generating when the reader closes
+  useEffect(() => {
+    return () => abortControllerRef.current?.abort();
+  }, []);
+
+  const handleAsk = async () => {
+    if (!question.trim() || isLoading) return;
+
+    setIsLoading(true);
+    const asked = question;
+    setQuestion("");
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+
+    try {
+      for await (const event of chatService.streamQuestion(asked, controller.signal)) {
+        switch (event.type) {
+          case "references":
+            setMessages([...chatService.getChatHistory()]);
+            setStreamingMessage({
+              id: "streaming",
+              type: "assistant",
+              content: "",
+              timestamp: Date.now(),
+              references: event.references,
+            });
+            break;
+          case "token":
+            setStreamingMessage(prev => prev && { ...prev, content: prev.content + event.text });
+            break;
+          case "done":
+            setMessages([...chatService.getChatHistory()]);
+            break;
+        }
+      }
+    } catch (error) {
+      console.error("Failed to answer question:", error);
+      setMessages([...chatService.getChatHistory()]);
+    } finally {
+      abortControllerRef.current = null;
+      setStreamingMessage(null);
+      setIsLoading(false);
+    }
+  };
+
+  const handleAnswerClick = (e: React.MouseEvent, message: ChatMessage) => {
+    const reference = findClickedReference(e.target as HTMLElement, message.references || []);
+    if (reference) onOpenReference(reference);
+  };
+
+  const renderAnswer = (message: ChatMessage, isStreaming = false) => (
+    <div
+      key={message.id}
+      className="bg-gray-50 dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg p-3 text-sm"
+      onClick={(e) => handleAnswerClick(e, message)}
+    >
+      <div dangerouslySetInnerHTML={{ __html: formatAnswerHtml(message.content, isStreaming) }} />
+      {message.stopped && (
+        <p className="mt-2 text-xs text-gray-500 dark:text-gray-400 italic">Generation stopped</p>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      {messages.length === 0 && !isLoading && (
+        <p className="text-sm text-gray-600 dark:text-gray-400">
+          Ask a question about {documentName}. Answers cite its pages, and clicking a citation opens the page here.
+        </p>
+      )}
+
+      <div className="space-y-3 max-h-96 overflow-y-auto">
+        {messages.map(message =>
+          message.type === "user" ? (
+            <div
+              key={message.id}
+              className="bg-blue-50 dark:bg-blue-900/20 border border-blue-200 dark:border-blue-800 rounded-lg p-3 text-sm font-medium"
+            >
+              {message.content}
+            </div>
+          ) : renderAnswer(message)
+        )}
+        {streamingMessage?.content ? renderAnswer(streamingMessage, true) : isLoading && (
+          <div className="text-sm text-gray-600 dark:text-gray-400">Thinking...</div>
+        )}
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleAsk();
+          }}
+          placeholder="Ask about this document..."
+          className="flex-1 px-3 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+        {isLoading ? (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="px-3 py-2 text-sm text-red-600 border border-red-300 dark:border-red-700 rounded-lg hover:bg-red-50 dark:hover:bg-red-900/20"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            onClick={handleAsk}
+            disabled={!question.trim()}
+            className="px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+          >
+            Ask
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+"use client";
+
+import { useState } from "react";
+import { DiffHunk, PageDiff } from "@/convex/lib/diff";
+
+interface DocumentDiffProps {
+  pages: PageDiff[];
+  beforeLabel: string;
+  afterLabel: string;
+}
+
+// Runs of unchanged paragraphs are folded so the changes stand out
+function foldUnchanged(hunks: DiffHunk[]): Array<DiffHunk | { unchanged: number }> {
+  const rows: Array<DiffHunk | { unchanged: number }> = [];
+  for (const hunk of hunks) {
+    const last = rows[rows.length - 1];
+    if (hunk.type !== "equal") rows.push(hunk);
+    else if (last && "unchanged" in last) last.unchanged++;
+    else rows.push({ unchanged: 1 });
+  }
+  return rows;
+}
+
+function describePages(pages: number[]): string {
+  if (pages.length === 0) return "";
+  const sorted = [...pages].sort((a, b) => a - b);
+  return sorted.length === 1 ? `page ${sorted[0]}` : `pages ${sorted[0]}–${sorted[sorted.length - 1]}`;
+}
+
+export default function DocumentDiff({ pages, beforeLabel, afterLabel }: DocumentDiffProps) {
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const changedPages = pages.filter(page => page.hunks.some(hunk => hunk.type !== "equal"));
+  const visiblePages = showUnchanged ? pages : changedPages;
+
+  const renderHunk = (hunk: DiffHunk, key: number) => {
+    switch (hunk.type) {
+      case "insert":
+        return (
+          <div key={key} className="px-3 py-2 rounded bg-green-50 dark:bg-green-900/20 border-l-4 border-green-500">
+            <div className="text-xs font-medium text-green-700 dark:text-green-300 mb-1">Inserted</div>
+            <p className="text-sm whitespace-pre-wrap">{hunk.after!.text}</p>
+          </div>
+        );
+      case "delete":
+        return (
+          <div key={key} className="px-3 py-2 rounded bg-red-50 dark:bg-red-900/20 border-l-4 border-red-500">
+            <div className="text-xs font-medium text-red-700 dark:text-red-300 mb-1">
+              Deleted from page {hunk.before!.pageNumber} of {beforeLabel}
+            </div>
+            <p className="text-sm whitespace-pre-wrap line-through text-gray-600 dark:text-gray-400">{hunk.before!.text}</p>
+          </div>
+        );
+      case "move":
+        return (
+          <div key={key} className="px-3 py-2 rounded bg-blue-50 dark:bg-blue-900/20 border-l-4 border-blue-500">
+            <div className="text-xs font-medium text-blue-700 dark:text-blue-300 mb-1">
+              Moved from page {hunk.before!.pageNumber} of {beforeLabel}
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{hunk.after!.text}</p>
+          </div>
+        );
+      case "equal":
+        return (
+          <p key={key} className="px-3 py-1 text-sm whitespace-pre-wrap text-gray-600 dark:text-gray-400">
+            {hunk.after!.text}
+          </p>
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <label className="inline-flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+        <input
+          type="checkbox"
+          checked={showUnchanged}
+          onChange={(e) => setShowUnchanged(e.target.checked)}
+        />
+        Show unchanged text
+      </label>
+
+      {visiblePages.length === 0 && (
+        <div className="text-center py-12 text-gray-500 dark:text-gray-400">
+          No differences between {beforeLabel} and {afterLabel}
+        </div>
+      )}
+
+      {visiblePages.map((page, index) => (
+        <section key={index} className="border border-gray-200 dark:border-gray-700 rounded-lg">
+          <header className="px-4 py-2 bg-gray-50 dark:bg-gray-800 border-b border-gray-200 dark:border-gray-700 text-sm font-medium">
+            {page.afterPage !== undefined ? `Page ${page.afterPage} of ${afterLabel}` : `Removed from ${beforeLabel}`}
+            {page.beforePages.length > 0 && (
+              <span className="ml-2 font-normal text-gray-500">
+                ({describePages(page.beforePages)} of {beforeLabel})
+              </span>
+            )}
+          </header>
+          <div className="p-3 space-y-2">
+            {showUnchanged
+              ? page.hunks.map(renderHunk)
+              : foldUnchanged(page.hunks).map((row, rowIndex) =>
+                  "unchanged" in row ? (
+                    <div key={rowIndex} className="px-3 text-xs text-gray-400 dark:text-gray-500">
+                      {row.unchanged} unchanged paragraph{row.unchanged !== 1 ? "s" : ""}
+                    </div>
+                  ) : (
+                    renderHunk(row, rowIndex)
+                  )
+                )}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { useQuery, useMutation } from "@/lib/convex-provider";
+import { useQuery, useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { useState } from "react";
 import { Id } from "@/convex/_generated/dataModel";
@@ -1,27 +1,62 @@
 "use client";
 
-import { useState } from "react";
-import { PDFAnalysisResult } from "@/lib/pdf-service";
+import { useEffect, useState } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { BasicStats, OcrPage } from "@/lib/documents";
+import { DocumentOutline } from "@/convex/lib/outline";
+import { getDocumentFormat } from "@/convex/lib/formats";
+import TableOfContents from "./TableOfContents";
 
 interface Document {
   id: string;
   filename: string;
   originalName: string;
   fileSize: number;
+  mimeType?: string;
   uploadedAt: number;
   status: string;
-  textContent?: string;
-  analysis?: PDFAnalysisResult;
+  version?: number;
+  previousVersionId?: string;
+  supersededBy?: string;
+  tags?: string[];
+  processingTimeMs?: number;
+  processingError?: {
+    stage: string;
+    message: string;
+    attempts: number;
+  };
+  outline?: DocumentOutline;
+  language?: string;
+  ocrPages?: OcrPage[];
+  analysis?: {
+    basic_stats: BasicStats;
+    metadata?: {
+      title?: string;
+      author?: string;
+    };
+  };
 }
 
 interface EnhancedDocumentListProps {
   documents: Document[];
-  onDelete?: (id: string) => void;
+  onDelete?: (id: string) => Promise<void> | void;
+  onRetry?: (id: string) => Promise<void> | void;
+}
+
+// OCR'd pages below this confidence are flagged for checking
+const LOW_OCR_CONFIDENCE = 80;
+
+// Anchor of a page in the content preview, the target of table of contents links
+function getPageElementId(documentId: string, pageNumber: number): string {
+  return `document-${documentId}-page-${pageNumber}`;
 }
 
-export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDocumentListProps) {
+export default function EnhancedDocumentList({ documents, onDelete, onRetry }: EnhancedDocumentListProps) {
   const [deletingIds, setDeletingIds] = useState<Set<string>>(new Set());
   const [expandedDocs, setExpandedDocs] = useState<Set<string>>(new Set());
+  const [pageTarget, setPageTarget] = useState<{ documentId: string; pageNumber: number } | null>(null);
 
   const handleDelete = async (documentId: string) => {
     if (!confirm("Are you sure you want to delete this document?")) {
@@ -31,9 +66,7 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
     setDeletingIds(prev => new Set(prev).add(documentId));
     
     try {
-      // Simulate delete operation
-      await new Promise(resolve => setTimeout(resolve, 500));
-      onDelete?.(documentId);
+      await onDelete?.(documentId);
     } catch (error) {
       console.error("Failed to delete document:", error);
       alert("Failed to delete document");
@@ -58,6 +91,11 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
     });
   };
 
+  const jumpToPage = (documentId: string, pageNumber: number) => {
+    setExpandedDocs(prev => new Set(prev).add(documentId));
+    setPageTarget({ documentId, pageNumber });
+  };
+
   const formatFileSize = (bytes: number): string => {
     if (bytes === 0) return "0 Bytes";
     const k = 1024;
@@ -96,10 +134,6 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
     );
   };
 
-  const truncateText = (text: string, limit: number = 200): string => {
-    if (text.length <= limit) return text;
-    return text.substring(0, limit) + "...";
-  };
 
   if (documents.length === 0) {
     return (
@@ -117,7 +151,8 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
     <div className="space-y-4">
       {documents.map((document) => {
         const isExpanded = expandedDocs.has(document.id);
-        const hasContent = document.textContent || document.analysis;
+        const hasContent = Boolean(document.analysis);
+        const format = document.mimeType ? getDocumentFormat(document.mimeType) : undefined;
         
         return (
           <div
@@ -128,13 +163,20 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
               <div className="flex-1 min-w-0">
                 {/* Document Header */}
                 <div className="flex items-center gap-3 mb-2">
-                  <div className="text-2xl">📄</div>
+                  <div className="text-2xl" title={format?.label}>{format?.icon ?? "📄"}</div>
                   <div className="flex-1 min-w-0">
                     <h3 className="text-lg font-medium truncate">
-                      {document.originalName}
+                      <a href={`/documents/${document.id}`} className="hover:text-blue-600 dark:hover:text-blue-400 hover:underline">
+                        {document.originalName}
+                      </a>
                     </h3>
                     <div className="flex items-center gap-2 mt-1">
                       {getStatusBadge(document.status)}
+                      {document.version && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200">
+                          v{document.version}
+                        </span>
+                      )}
                       <span className="text-sm text-gray-500">
                         {formatFileSize(document.fileSize)}
                       </span>
@@ -143,6 +185,14 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
                           ✨ Analyzed
                         </span>
                       )}
+                      {document.tags?.map(tag => (
+                        <span
+                          key={tag}
+                          className="px-2 py-0.5 rounded text-xs bg-blue-50 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300"
+                        >
+                          #{tag}
+                        </span>
+                      ))}
                     </div>
                   </div>
                 </div>
@@ -162,14 +212,81 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
                 {/* Document Metadata */}
                 <div className="text-sm text-gray-600 dark:text-gray-400 space-y-1">
                   <div>Uploaded: {formatDate(document.uploadedAt)}</div>
+                  {document.status === "completed" && document.processingTimeMs !== undefined && (
+                    <div>Processed in {(document.processingTimeMs / 1000).toFixed(1)}s</div>
+                  )}
                   {document.analysis?.metadata?.title && (
                     <div>Title: {document.analysis.metadata.title}</div>
                   )}
                   {document.analysis?.metadata?.author && (
                     <div>Author: {document.analysis.metadata.author}</div>
                   )}
+                  {document.language && (
+                    <div>Language: {document.language.toUpperCase()}</div>
+                  )}
+                  {document.previousVersionId && (
+                    <div>
+                      <a
+                        href={`/documents/${document.previousVersionId}/compare/${document.id}`}
+                        className="text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Compare with previous version
+                      </a>
+                    </div>
+                  )}
+                  {document.supersededBy && (
+                    <div className="text-amber-700 dark:text-amber-300">
+                      Superseded by a newer version, only searched when selected directly
+                    </div>
+                  )}
                 </div>
 
+                {/* OCR'd Pages */}
+                {document.ocrPages && document.ocrPages.length > 0 && (
+                  <div className="mt-2 text-sm">
+                    <div className="text-gray-600 dark:text-gray-400 mb-1">
+                      🔍 {document.ocrPages.length} page{document.ocrPages.length !== 1 ? "s" : ""} read with OCR, check citations from them against the PDF:
+                    </div>
+                    <div className="flex flex-wrap gap-1">
+                      {document.ocrPages.map(page => (
+                        <button
+                          key={page.pageNumber}
+                          onClick={() => jumpToPage(document.id, page.pageNumber)}
+                          title={`OCR confidence ${page.confidence.toFixed(0)}%`}
+                          className={`px-2 py-0.5 rounded text-xs ${
+                            page.confidence < LOW_OCR_CONFIDENCE
+                              ? "bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200"
+                              : "bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300"
+                          }`}
+                        >
+                          p. {page.pageNumber} · {page.confidence.toFixed(0)}%
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Table of Contents */}
+                {document.outline && document.outline.entries.length > 0 && (
+                  <div className="mt-3">
+                    <TableOfContents
+                      outline={document.outline}
+                      onSelectPage={pageNumber => jumpToPage(document.id, pageNumber)}
+                      currentPage={pageTarget?.documentId === document.id ? pageTarget.pageNumber : undefined}
+                    />
+                  </div>
+                )}
+
+                {/* Processing Error */}
+                {document.processingError && document.status !== "completed" && (
+                  <div className="mt-2 text-sm text-red-600 dark:text-red-400">
+                    {document.status === "failed"
+                      ? `Failed while ${document.processingError.stage} after ${document.processingError.attempts} attempt${document.processingError.attempts !== 1 ? "s" : ""}: `
+                      : `Attempt ${document.processingError.attempts} failed while ${document.processingError.stage}, retrying: `}
+                    {document.processingError.message}
+                  </div>
+                )}
+
                 {/* Content Preview */}
                 {hasContent && (
                   <div className="mt-3">
@@ -180,23 +297,11 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
                       {isExpanded ? "🔼 Hide Content" : "🔽 Show Content Preview"}
                     </button>
                     
-                    {isExpanded && document.textContent && (
-                      <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
-                        <h4 className="font-medium mb-2">Extracted Text:</h4>
-                        <div className="text-sm text-gray-700 dark:text-gray-300 max-h-96 overflow-y-auto">
-                          <pre className="whitespace-pre-wrap">
-                            {isExpanded ? document.textContent : truncateText(document.textContent)}
-                          </pre>
-                        </div>
-                        {document.analysis && (
-                          <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600">
-                            <h5 className="font-medium mb-1">Analysis Summary:</h5>
-                            <div className="text-xs text-gray-600 dark:text-gray-400">
-                              Average words per page: {document.analysis.basic_stats.avg_words_per_page.toFixed(1)}
-                            </div>
-                          </div>
-                        )}
-                      </div>
+                    {isExpanded && (
+                      <DocumentTextPreview
+                        document={document}
+                        targetPage={pageTarget?.documentId === document.id ? pageTarget.pageNumber : undefined}
+                      />
                     )}
                   </div>
                 )}
@@ -204,6 +309,14 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
 
               {/* Actions */}
               <div className="flex items-center gap-2 ml-4">
+                {document.status === "failed" && onRetry && (
+                  <button
+                    onClick={() => onRetry(document.id)}
+                    className="px-3 py-1.5 text-sm bg-blue-100 text-blue-700 hover:bg-blue-200 dark:bg-blue-900 dark:text-blue-200 dark:hover:bg-blue-800 rounded-md transition-colors"
+                  >
+                    Retry
+                  </button>
+                )}
                 <button
                   onClick={() => handleDelete(document.id)}
                   disabled={deletingIds.has(document.id)}
@@ -218,4 +331,55 @@ export default function EnhancedDocumentList({ documents, onDelete }: EnhancedDo
       })}
     </div>
   );
-}
\ No newline at end of file
+}
+
+interface DocumentTextPreviewProps {
+  document: Document;
+  // Page picked from the OCR list or the table of contents
+  targetPage?: number;
+}
+
+// The extracted text page by page, loaded when the preview opens
+function DocumentTextPreview({ document, targetPage }: DocumentTextPreviewProps) {
+  const pages = useQuery(api.pages.getPages, { documentId: document.id as Id<"documents"> });
+
+  // Scroll once the selected page has rendered
+  useEffect(() => {
+    if (!pages || targetPage === undefined) return;
+    window.document
+      .getElementById(getPageElementId(document.id, targetPage))
+      ?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [document.id, pages, targetPage]);
+
+  return (
+    <div className="mt-2 p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+      <h4 className="font-medium mb-2">Extracted Text:</h4>
+      <div className="text-sm text-gray-700 dark:text-gray-300 max-h-96 overflow-y-auto">
+        {pages === undefined ? (
+          <div className="text-gray-500">Loading text...</div>
+        ) : (
+          pages.map(page => {
+            const confidence = document.ocrPages?.find(ocrPage => ocrPage.pageNumber === page.pageNumber)?.confidence;
+            return (
+              <div key={page.pageNumber} id={getPageElementId(document.id, page.pageNumber)}>
+                <div className="text-xs text-gray-500 border-b border-gray-200 dark:border-gray-600 mb-1 mt-2 first:mt-0">
+                  Page {page.pageNumber}
+                  {confidence !== undefined && ` · OCR, ${confidence.toFixed(0)}% confidence`}
+                </div>
+                <pre className="whitespace-pre-wrap">{page.fullText}</pre>
+              </div>
+            );
+          })
+        )}
+      </div>
+      {document.analysis && (
+        <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-600">
+          <h5 className="font-medium mb-1">Analysis Summary:</h5>
+          <div className="text-xs text-gray-600 dark:text-gray-400">
+            Average words per page: {document.analysis.basic_stats.avg_words_per_page.toFixed(1)}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,22 +1,36 @@
 "use client";
 
 import { useState, useRef, useEffect } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
 import { useUser } from "@/lib/user-context";
-import { pdfService, PDFAnalysisResult } from "@/lib/pdf-service";
+import { pdfService } from "@/lib/pdf-service";
+import { hashFile, uploadToStorage } from "@/lib/documents";
+import { ImportFileStatus, runImportQueue } from "@/lib/bulk-import";
+import { ACCEPTED_FILE_TYPES, resolveMimeType } from "@/convex/lib/formats";
 
-interface Document {
-  id: string;
-  filename: string;
-  originalName: string;
-  fileSize: number;
-  uploadedAt: number;
-  status: string;
-  textContent?: string;
-  analysis?: PDFAnalysisResult;
+interface EnhancedPDFUploadProps {
+  onUploadComplete?: () => void;
 }
 
-interface EnhancedPDFUploadProps {
-  onUploadComplete?: (docs: Document[]) => void;
+function progressMessage(name: string, status: ImportFileStatus, version?: number): string {
+  switch (status) {
+    case "queued":
+      return `⏳ ${name} waiting...`;
+    case "uploading":
+      return `📄 Uploading ${name}...`;
+    case "retrying":
+      return `🔁 Retrying ${name}...`;
+    case "completed":
+      return version
+        ? `✅ ${name} uploaded as version ${version}, processing in the background`
+        : `✅ ${name} uploaded, processing in the background`;
+    case "duplicate":
+      return `⏭️ ${name} was already uploaded`;
+    case "failed":
+      return `❌ Failed to upload ${name}`;
+  }
 }
 
 export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploadProps) {
@@ -25,6 +39,15 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
   const [isUploading, setIsUploading] = useState(false);
   const [uploadProgress, setUploadProgress] = useState<string[]>([]);
   const [serviceAvailable, setServiceAvailable] = useState<boolean | null>(null);
+  // Uploading a file with the same name into a collection adds a new version
+  const [collectionId, setCollectionId] = useState<Id<"collections"> | "">("");
+
+  const collections = useQuery(
+    api.collections.getUserCollections,
+    user ? { userId: user.id } : "skip"
+  );
+  const generateUploadUrl = useMutation(api.documents.generateUploadUrl);
+  const uploadDocument = useMutation(api.documents.uploadDocument);
   
   // Check service availability on component mount
   useEffect(() => {
@@ -43,93 +66,68 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
   const handleFileSelect = async (files: FileList | null) => {
     if (!files || !user) return;
 
-    const pdfFiles = Array.from(files).filter(file => file.type === "application/pdf");
+    const supportedFiles = Array.from(files)
+      .map(file => ({ file, mimeType: resolveMimeType(file.name, file.type) }))
+      .filter((entry): entry is { file: File; mimeType: string } => entry.mimeType !== undefined);
     
-    if (pdfFiles.length === 0) {
-      alert("Please select PDF files only");
+    if (supportedFiles.length === 0) {
+      alert("Please select PDF, Word, EPUB, HTML, Markdown or text files");
       return;
     }
 
     setIsUploading(true);
     setUploadProgress([]);
+    const versions = new Map<string, number>();
 
     try {
-      const uploadedDocs: Document[] = [];
-      
-      for (let i = 0; i < pdfFiles.length; i++) {
-        const file = pdfFiles[i];
-        const documentId = `doc_${Date.now()}_${i}`;
-        
-        setUploadProgress(prev => [...prev, `📄 Processing ${file.name}...`]);
-
-        try {
-          let analysis: PDFAnalysisResult | undefined;
-          let textContent = "";
-          let status = "uploaded";
-
-          // Try to process with real service if available
-          if (serviceAvailable) {
-            setUploadProgress(prev => 
-              prev.map((msg, idx) => 
-                idx === i ? `🔍 Extracting text from ${file.name}...` : msg
-              )
-            );
-
-            analysis = await pdfService.analyzeDocument(file, documentId);
-            textContent = analysis.text_content;
-            status = "processed";
-
-            setUploadProgress(prev => 
-              prev.map((msg, idx) => 
-                idx === i ? `📊 Analyzing ${file.name}...` : msg
-              )
-            );
-          } else {
-            // Fallback to mock processing
-            await new Promise(resolve => setTimeout(resolve, 1000));
-            status = "uploaded";
-          }
-        
-          const newDoc: Document = {
-            id: documentId,
-            filename: `${Date.now()}_${file.name}`,
-            originalName: file.name,
-            fileSize: file.size,
-            uploadedAt: Date.now(),
-            status,
-            textContent,
-            analysis
-          };
-        
-          uploadedDocs.push(newDoc);
-
-          setUploadProgress(prev => 
-            prev.map((msg, idx) => 
-              idx === i ? `✅ ${file.name} processed successfully` : msg
-            )
-          );
-        } catch (error) {
-          console.error(`Failed to process ${file.name}:`, error);
-          
-          // Create document with error status
-          const newDoc: Document = {
-            id: documentId,
-            filename: `${Date.now()}_${file.name}`,
-            originalName: file.name,
-            fileSize: file.size,
-            uploadedAt: Date.now(),
-            status: "failed"
-          };
-          
-          uploadedDocs.push(newDoc);
-          
-          setUploadProgress(prev => 
-            prev.map((msg, idx) => 
-              idx === i ? `❌ Failed to process ${file.name}` : msg
-            )
-          );
+      // Uploads run a few at a time and each file is retried before it counts as failed
+      const results = await runImportQueue(
+        supportedFiles.map(({ file, mimeType }) => ({
+          path: file.name,
+          size: file.size,
+          mimeType,
+          getFile: async () => file,
+        })),
+        {
+          // Store the file, then create the document record pointing at it.
+          // Extraction and indexing continue on the server.
+          store: async ({ getFile }) => {
+            const file = await getFile();
+            const contentHash = await hashFile(file);
+            const fileId = await uploadToStorage(await generateUploadUrl(), file);
+            return { file, contentHash, fileId };
+          },
+          record: async ({ mimeType }, { file, contentHash, fileId }) => {
+            const result = await uploadDocument({
+              filename: `${Date.now()}_${file.name}`,
+              originalName: file.name,
+              fileId,
+              userId: user.id,
+              collectionId: collectionId || undefined,
+              fileSize: file.size,
+              mimeType,
+              contentHash,
+            });
+            if (result.version > 1 && !result.duplicate) {
+              versions.set(file.name, result.version);
+            }
+            return { status: result.duplicate ? "duplicate" : "completed", documentId: result.documentId };
+          },
+        },
+        {
+          onStatus: (name, status) => setUploadProgress(prev => {
+            const message = progressMessage(name, status, versions.get(name));
+            const index = supportedFiles.findIndex(({ file }) => file.name === name);
+            const next = [...prev];
+            next[index] = message;
+            return next;
+          }),
         }
-      }
+      );
+
+      results
+        .filter(result => result.status === "failed")
+        .forEach(result => console.error(`Failed to upload ${result.path}:`, result.error));
 
       // Clear progress after 3 seconds
       setTimeout(() => {
@@ -137,7 +135,7 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
         setIsUploading(false);
       }, 3000);
 
-      onUploadComplete?.(uploadedDocs);
+      onUploadComplete?.();
 
     } catch (error) {
       console.error("Upload failed:", error);
@@ -162,7 +160,7 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
     if (serviceAvailable) {
       return <span className="text-green-600">🟢 PDF Processing Service Online</span>;
     }
-    return <span className="text-orange-600">🟡 Using Mock Processing (Service Offline)</span>;
+    return <span className="text-orange-600">🟡 PDF Processing Service Offline (processing will be retried)</span>;
   };
 
   return (
@@ -172,6 +170,26 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
         {getServiceStatusIndicator()}
       </div>
 
+      {/* Target Collection */}
+      {collections && collections.length > 0 && (
+        <label className="block text-sm">
+          <span className="text-gray-700 dark:text-gray-300">Collection</span>
+          <select
+            value={collectionId}
+            onChange={(e) => setCollectionId(e.target.value as Id<"collections"> | "")}
+            disabled={isUploading}
+            className="mt-1 block w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800"
+          >
+            <option value="">No collection</option>
+            {collections.map(collection => (
+              <option key={collection._id} value={collection._id}>
+                {collection.name}
+              </option>
+            ))}
+          </select>
+        </label>
+      )}
+
       {/* Drop Zone */}
       <div
         onDrop={handleDrop}
@@ -188,12 +206,12 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
         <div className="space-y-2">
           <div className="text-4xl">📄</div>
           <div className="text-lg font-medium">
-            {isUploading ? "Processing PDFs..." : "Upload PDF Files"}
+            {isUploading ? "Uploading documents..." : "Upload Documents"}
           </div>
           <div className="text-sm text-gray-600 dark:text-gray-400">
             {isUploading 
-              ? "Please wait while files are being processed" 
-              : "Click to browse or drag and drop PDF files here"
+              ? "Please wait while files are being uploaded" 
+              : "Click to browse or drag and drop PDF, Word, EPUB, HTML, Markdown or text files here"
             }
           </div>
           {serviceAvailable && (
@@ -212,7 +230,7 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
         ref={fileInputRef}
         type="file"
         multiple
-        accept=".pdf"
+        accept={ACCEPTED_FILE_TYPES}
         onChange={(e) => handleFileSelect(e.target.files)}
         className="hidden"
       />
@@ -220,7 +238,7 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
       {/* Upload Progress */}
       {uploadProgress.length > 0 && (
         <div className="space-y-2">
-          <h3 className="font-medium">Processing Progress:</h3>
+          <h3 className="font-medium">Upload Progress:</h3>
           <div className="bg-gray-50 dark:bg-gray-800 rounded-lg p-3 space-y-1 max-h-40 overflow-y-auto">
             {uploadProgress.map((progress, index) => (
               <div key={index} className="text-sm">
@@ -237,7 +255,7 @@ export default function EnhancedPDFUpload({ onUploadComplete }: EnhancedPDFUploa
           onClick={() => fileInputRef.current?.click()}
           className="w-full px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
         >
-          Select PDF Files
+          Select Files
         </button>
       )}
 
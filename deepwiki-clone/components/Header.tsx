@@ -1,20 +1,15 @@
 'use client'
 
 import Link from 'next/link'
-import { useTheme } from './ThemeProvider'
+import { useOptionalTheme } from './ThemeProvider'
 import { useEffect, useState } from 'react'
 
 export default function Header() {
   const [mounted, setMounted] = useState(false)
   const [currentTheme, setCurrentTheme] = useState<'light' | 'dark'>('light')
   
-  // Only access theme context after component mounts
-  let themeContext: any = null
-  try {
-    themeContext = useTheme()
-  } catch {
-    // Ignore theme context errors during SSR
-  }
+  // The theme context is only provided after the provider mounts
+  const themeContext = useOptionalTheme()
 
   useEffect(() => {
     setMounted(true)
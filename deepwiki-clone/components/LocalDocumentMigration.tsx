@@ -0,0 +1,54 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useConvex } from "convex/react";
+import { useUser } from "@/lib/user-context";
+import { readLegacyDocuments, migrateLocalDocuments, MigrationResult } from "@/lib/migrate-local-documents";
+
+export default function LocalDocumentMigration() {
+  const { user } = useUser();
+  const convex = useConvex();
+  const startedRef = useRef(false);
+  const [pendingCount, setPendingCount] = useState(0);
+  const [result, setResult] = useState<MigrationResult | null>(null);
+
+  // Runs once per page load, and only while old browser-stored documents remain.
+  // A tab that finds another one migrating shows nothing.
+  useEffect(() => {
+    if (!user || startedRef.current) return;
+    startedRef.current = true;
+
+    const pending = readLegacyDocuments().length;
+    if (pending === 0) return;
+
+    setPendingCount(pending);
+    migrateLocalDocuments(convex, user.id)
+      .then(setResult)
+      .catch(error => console.error("Document migration failed:", error))
+      .finally(() => setPendingCount(0));
+  }, [user, convex]);
+
+  if (pendingCount === 0 && !result) return null;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-50 max-w-sm p-3 bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg text-sm">
+      {pendingCount > 0 ? (
+        <span>Moving {pendingCount} document{pendingCount !== 1 ? "s" : ""} from this browser to your library...</span>
+      ) : result && (
+        <div className="flex items-start justify-between space-x-3">
+          <span>
+            Moved {result.migrated} document{result.migrated !== 1 ? "s" : ""} to your library.
+            {result.failed > 0 && ` ${result.failed} will be retried next time.`}
+          </span>
+          <button
+            onClick={() => setResult(null)}
+            className="text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+            title="Dismiss"
+          >
+            ×
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,108 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { useQuery } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { RenderedPage, renderPage } from "@/lib/pdf-renderer";
+import "pdfjs-dist/web/pdf_viewer.css";
+
+interface PDFPageViewProps {
+  documentId: string;
+  pageNumber: number;
+  // Cited character range within the document text
+  charStart: number;
+  charEnd: number;
+}
+
+// Space left above the highlight when it is scrolled into view
+const SCROLL_MARGIN = 48;
+
+export default function PDFPageView({ documentId, pageNumber, charStart, charEnd }: PDFPageViewProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [page, setPage] = useState<RenderedPage | null>(null);
+  const [cssWidth, setCssWidth] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const highlight = useQuery(api.pageWords.getCitationHighlight, {
+    documentId: documentId as Id<"documents">,
+    pageNumber,
+    charStart,
+    charEnd,
+  });
+  const fileUrl = highlight?.fileUrl;
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const canvas = canvasRef.current;
+    const textLayer = textLayerRef.current;
+    if (!fileUrl || !container || !canvas || !textLayer) return;
+
+    const controller = new AbortController();
+    const width = container.clientWidth;
+    setPage(null);
+    setError(null);
+    renderPage(fileUrl, pageNumber, canvas, textLayer, width, controller.signal)
+      .then(rendered => {
+        if (controller.signal.aborted) return;
+        setCssWidth(width);
+        setPage(rendered);
+      })
+      .catch(renderError => {
+        if (controller.signal.aborted) return;
+        console.error("Failed to render PDF page:", renderError);
+        setError(renderError instanceof Error ? renderError.message : "Failed to render the page");
+      });
+
+    return () => controller.abort();
+  }, [fileUrl, pageNumber]);
+
+  const scale = page ? cssWidth / (highlight?.width ?? page.width) : 0;
+  const rects = page ? highlight?.rects ?? [] : [];
+  const firstTop = rects[0]?.top;
+
+  // Bring the cited span into view once the page is drawn
+  useEffect(() => {
+    if (firstTop === undefined || !scrollRef.current) return;
+    scrollRef.current.scrollTo({ top: Math.max(0, firstTop * scale - SCROLL_MARGIN), behavior: "smooth" });
+  }, [firstTop, scale]);
+
+  if (highlight === null) {
+    return <div className="p-3 text-xs text-gray-500">This document is no longer available</div>;
+  }
+
+  return (
+    <div ref={scrollRef} className="max-h-96 overflow-y-auto bg-gray-100 dark:bg-gray-800 rounded-lg border">
+      <div ref={containerRef} className={`relative w-full ${page ? "" : "min-h-[8rem]"}`}>
+        <canvas ref={canvasRef} className="block" />
+        <div ref={textLayerRef} className="textLayer" />
+        {rects.map((rect, index) => (
+          <div
+            key={index}
+            className="absolute bg-yellow-300/40 border border-yellow-500/60 rounded-sm pointer-events-none"
+            style={{
+              left: rect.x0 * scale,
+              top: rect.top * scale,
+              width: (rect.x1 - rect.x0) * scale,
+              height: (rect.bottom - rect.top) * scale,
+            }}
+          />
+        ))}
+        {!page && !error && (
+          <div className="absolute inset-0 flex items-center justify-center text-xs text-gray-500">
+            Loading page {pageNumber}...
+          </div>
+        )}
+      </div>
+      {error && <div className="p-3 text-xs text-red-600 dark:text-red-400">{error}</div>}
+      {page && rects.length === 0 && (
+        <div className="p-2 text-xs text-gray-500 border-t border-gray-200 dark:border-gray-700">
+          The cited text could not be located on this page
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,25 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { DocumentReference } from "@/lib/ai-chat-service";
+import { DocumentReference, getReferenceKey } from "@/lib/ai-chat-service";
+import { buildPageOffsets } from "@/lib/pdf-service";
+import { formatLocation } from "@/lib/documents";
+import { CHANGE_LABELS } from "@/convex/lib/diff";
+import { DocumentOutline } from "@/convex/lib/outline";
+import { PDF_MIME_TYPE } from "@/convex/lib/formats";
+import TableOfContents from "./TableOfContents";
+import CitedTable from "./CitedTable";
+import PDFPageView from "./PDFPageView";
 
 interface Document {
   id: string;
   originalName: string;
+  mimeType?: string;
   textContent?: string;
+  outline?: DocumentOutline;
   analysis?: {
-    text_content: string;
-    sections: Array<{
+    text_content?: string;
+    sections?: Array<{
       page_number: number;
       content: string;
     }>;
@@ -43,6 +53,10 @@ export default function PDFReferenceViewer({
   const [expandedSections, setExpandedSections] = useState<ExpandedSections>({});
   const [highlightedSection, setHighlightedSection] = useState<string | null>(null);
   const [expandedContext, setExpandedContext] = useState<ExpandedContext>({});
+  // Page opened from each document's table of contents
+  const [openPages, setOpenPages] = useState<{ [documentId: string]: number }>({});
+  // Whether a reference shows the rendered PDF page or the text, when the reader chose
+  const [pageViews, setPageViews] = useState<{ [referenceKey: string]: boolean }>({});
 
   // Auto-expand when activeReference changes
   useEffect(() => {
@@ -51,7 +65,7 @@ export default function PDFReferenceViewer({
         ...prev,
         [activeReference.documentId]: true
       }));
-      setHighlightedSection(`${activeReference.documentId}:${activeReference.pageNumber}`);
+      setHighlightedSection(getReferenceKey(activeReference));
     }
   }, [activeReference]);
 
@@ -62,6 +76,27 @@ export default function PDFReferenceViewer({
     }));
   };
 
+  const openPage = (documentId: string, pageNumber: number) => {
+    setExpandedSections(prev => ({ ...prev, [documentId]: true }));
+    setOpenPages(prev => ({ ...prev, [documentId]: pageNumber }));
+  };
+
+  // The focused reference of a PDF opens on its page unless the reader switched to text
+  const showsPdfPage = (document: Document, referenceKey: string, isHighlighted: boolean) =>
+    document.mimeType === PDF_MIME_TYPE && (pageViews[referenceKey] ?? isHighlighted);
+
+  const togglePageView = (referenceKey: string, showing: boolean) => {
+    setPageViews(prev => ({ ...prev, [referenceKey]: !showing }));
+  };
+
+  const closePage = (documentId: string) => {
+    setOpenPages(prev => {
+      const next = { ...prev };
+      delete next[documentId];
+      return next;
+    });
+  };
+
   const getDocumentSections = (document: Document) => {
     return document.analysis?.sections || [];
   };
@@ -91,61 +126,84 @@ export default function PDFReferenceViewer({
     }));
   };
 
+  // Locate the cited span on its page from the reference's document offsets
+  const getCitedRange = (document: Document, pageNumber: number, reference: DocumentReference) => {
+    const sections = document.analysis?.sections || [];
+    const page = buildPageOffsets(sections).find(p => p.page_number === pageNumber);
+    if (!page) return null;
+
+    const start = reference.charStart - page.start;
+    const end = reference.charEnd - page.start;
+    if (start < 0 || end > page.end - page.start || end <= start) return null;
+    return { start, end };
+  };
+
+  const renderWithCitation = (content: string, range: { start: number; end: number } | null, offset: number = 0) => {
+    if (!range) return content;
+    const start = range.start + offset;
+    const end = range.end + offset;
+    return (
+      <>
+        {content.slice(0, start)}
+        <mark className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm">{content.slice(start, end)}</mark>
+        {content.slice(end)}
+      </>
+    );
+  };
+
   const getExpandedContent = (document: Document, pageNumber: number, referenceKey: string, reference: DocumentReference) => {
     const section = document.analysis?.sections?.find(s => s.page_number === pageNumber);
     if (!section) return reference.relevantText;
 
+    const range = getCitedRange(document, pageNumber, reference);
     const expansion = expandedContext[referenceKey];
     
-    // If no expansion, return a focused excerpt around the relevant text
+    // If no expansion, return a focused excerpt around the cited span
     if (!expansion || (expansion.before === 0 && expansion.after === 0)) {
-      return getRelevantExcerpt(section.content, reference.excerpt);
+      return getRelevantExcerpt(section.content, range);
     }
 
     // Get content from current section plus additional context
-    let expandedContent = section.content;
+    let before = '';
+    let after = '';
 
     // Try to get more content from adjacent sections/pages
     if (expansion.before > 0) {
       const prevSection = document.analysis?.sections?.find(s => s.page_number === pageNumber - 1);
       if (prevSection) {
-        const beforeText = prevSection.content.slice(-expansion.before);
-        expandedContent = beforeText + '\n\n--- Page Break ---\n\n' + expandedContent;
+        before = prevSection.content.slice(-expansion.before) + '\n\n--- Page Break ---\n\n';
       }
     }
 
     if (expansion.after > 0) {
       const nextSection = document.analysis?.sections?.find(s => s.page_number === pageNumber + 1);
       if (nextSection) {
-        const afterText = nextSection.content.slice(0, expansion.after);
-        expandedContent = expandedContent + '\n\n--- Page Break ---\n\n' + afterText;
+        after = '\n\n--- Page Break ---\n\n' + nextSection.content.slice(0, expansion.after);
       }
     }
 
-    return expandedContent;
+    return renderWithCitation(before + section.content + after, range, before.length);
   };
 
-  const getRelevantExcerpt = (content: string, excerpt: string) => {
-    // Find the excerpt in the content
-    const excerptIndex = content.toLowerCase().indexOf(excerpt.toLowerCase());
-    if (excerptIndex === -1) {
-      // If excerpt not found, return first part of content
+  const getRelevantExcerpt = (content: string, range: { start: number; end: number } | null) => {
+    if (!range) {
+      // If the span cannot be located, return first part of content
       return formatContent(content, 300);
     }
 
-    // Extract context around the excerpt (150 chars before and after)
+    // Extract context around the cited span (150 chars before and after)
     const contextBefore = 150;
     const contextAfter = 150;
-    const startIndex = Math.max(0, excerptIndex - contextBefore);
-    const endIndex = Math.min(content.length, excerptIndex + excerpt.length + contextAfter);
+    const startIndex = Math.max(0, range.start - contextBefore);
+    const endIndex = Math.min(content.length, range.end + contextAfter);
+    const prefix = startIndex > 0 ? '...' : '';
+    const suffix = endIndex < content.length ? '...' : '';
     
-    let relevantContent = content.substring(startIndex, endIndex);
-    
-    // Add ellipsis if we're not at the beginning/end
-    if (startIndex > 0) relevantContent = '...' + relevantContent;
-    if (endIndex < content.length) relevantContent = relevantContent + '...';
-    
-    return relevantContent;
+    return renderWithCitation(
+      prefix + content.substring(startIndex, endIndex) + suffix,
+      range,
+      prefix.length - startIndex
+    );
   };
 
   const groupReferencesByDocument = () => {
@@ -180,6 +238,8 @@ export default function PDFReferenceViewer({
 
           const isExpanded = expandedSections[documentId];
           const sections = getDocumentSections(document);
+          const openPageNumber = openPages[documentId];
+          const openSection = sections.find(s => s.page_number === openPageNumber);
 
           return (
             <div key={documentId} className="border border-gray-200 dark:border-gray-700 rounded-lg overflow-hidden">
@@ -222,16 +282,46 @@ export default function PDFReferenceViewer({
               {/* Document Content - Expandable like DeepWiki */}
               {isExpanded && (
                 <div className="bg-white dark:bg-gray-900">
+                  {/* Table of contents and the page it opened */}
+                  {document.outline && document.outline.entries.length > 0 && (
+                    <div className="p-3 border-b border-gray-100 dark:border-gray-800">
+                      <TableOfContents
+                        outline={document.outline}
+                        onSelectPage={pageNumber => openPage(documentId, pageNumber)}
+                        currentPage={openPageNumber}
+                      />
+                    </div>
+                  )}
+                  {openSection && (
+                    <div className="p-4 border-b border-gray-100 dark:border-gray-800">
+                      <div className="flex items-center justify-between mb-2">
+                        <div className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-xs font-mono">
+                          Page {openSection.page_number}
+                        </div>
+                        <button
+                          onClick={() => closePage(documentId)}
+                          className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                        >
+                          Close Page
+                        </button>
+                      </div>
+                      <div className="max-h-80 overflow-y-auto bg-gray-50 dark:bg-gray-800 rounded-lg border p-3 text-sm text-gray-700 dark:text-gray-300 font-mono whitespace-pre-wrap">
+                        {openSection.content}
+                      </div>
+                    </div>
+                  )}
+
                   {/* Reference sections */}
                   {refs.map((ref, index) => {
                     const section = sections.find(s => s.page_number === ref.pageNumber);
-                    const sectionKey = `${ref.documentId}:${ref.pageNumber}`;
+                    const sectionKey = getReferenceKey(ref);
                     const isHighlighted = highlightedSection === sectionKey;
+                    const showsPage = showsPdfPage(document, sectionKey, isHighlighted);
 
                     return (
                       <div 
                         key={index}
-                        data-reference-id={`${ref.documentId}:${ref.pageNumber}`}
+                        data-reference-id={sectionKey}
                         className={`border-b border-gray-100 dark:border-gray-800 last:border-b-0 ${
                           isHighlighted ? 'bg-blue-50 dark:bg-blue-900/20' : ''
                         }`}
@@ -241,71 +331,100 @@ export default function PDFReferenceViewer({
                           <div className="flex items-center justify-between mb-3">
                             <div className="flex items-center space-x-2">
                               <div className="bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-xs font-mono">
-                                Page {ref.pageNumber}
+                                {formatLocation(ref)}
                               </div>
+                              {ref.change && (
+                                <div className="bg-amber-100 dark:bg-amber-900/40 text-amber-800 dark:text-amber-200 px-2 py-1 rounded text-xs">
+                                  {CHANGE_LABELS[ref.change]}
+                                </div>
+                              )}
                               <div className="text-xs text-gray-500">
                                 Confidence: {ref.confidence.toFixed(0)}%
                               </div>
                             </div>
-                            <button
-                              onClick={() => onReferenceClick?.(ref)}
-                              className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
-                            >
-                              Focus Reference
-                            </button>
+                            <div className="flex items-center space-x-3">
+                              {document.mimeType === PDF_MIME_TYPE && (
+                                <button
+                                  onClick={() => togglePageView(sectionKey, showsPage)}
+                                  className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                                >
+                                  {showsPage ? "Show Text" : "View PDF Page"}
+                                </button>
+                              )}
+                              <button
+                                onClick={() => onReferenceClick?.(ref)}
+                                className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                              >
+                                Focus Reference
+                              </button>
+                            </div>
                           </div>
 
-                          {/* Content Preview - Like DeepWiki code blocks */}
-                          <div className="relative">
+                          {/* PDF pages render with the cited span highlighted, cited tables as tables,
+                              other passages as a content preview like DeepWiki code blocks */}
+                          {showsPage ? (
+                            <PDFPageView
+                              documentId={ref.documentId}
+                              pageNumber={ref.pageNumber}
+                              charStart={ref.charStart}
+                              charEnd={ref.charEnd}
+                            />
+                          ) : ref.table ? (
                             <div className="bg-gray-50 dark:bg-gray-800 rounded-lg border">
-                              <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
-                                <div className="text-xs text-gray-600 dark:text-gray-400">
-                                  Content Preview
-                                </div>
-                                <button className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
-                                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
-                                  </svg>
-                                </button>
-                              </div>
-
-                              {/* Context Expansion Controls */}
-                              <div className="border-b border-gray-200 dark:border-gray-700">
-                                <div className="flex items-center justify-center py-2">
-                                  <button
-                                    onClick={() => expandContextBefore(sectionKey)}
-                                    className="flex items-center space-x-1 px-3 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
-                                  >
-                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                              <CitedTable tableId={ref.table.tableId} charStart={ref.charStart} charEnd={ref.charEnd} />
+                            </div>
+                          ) : (
+                            <div className="relative">
+                              <div className="bg-gray-50 dark:bg-gray-800 rounded-lg border">
+                                <div className="flex items-center justify-between px-3 py-2 border-b border-gray-200 dark:border-gray-700">
+                                  <div className="text-xs text-gray-600 dark:text-gray-400">
+                                    Content Preview
+                                  </div>
+                                  <button className="text-xs text-gray-500 hover:text-gray-700 dark:hover:text-gray-300">
+                                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
                                     </svg>
-                                    <span>Show more above</span>
                                   </button>
                                 </div>
-                              </div>
 
-                              <div className="p-3">
-                                <div className="text-sm text-gray-700 dark:text-gray-300 font-mono whitespace-pre-wrap">
-                                  {getExpandedContent(document, ref.pageNumber, sectionKey, ref)}
+                                {/* Context Expansion Controls */}
+                                <div className="border-b border-gray-200 dark:border-gray-700">
+                                  <div className="flex items-center justify-center py-2">
+                                    <button
+                                      onClick={() => expandContextBefore(sectionKey)}
+                                      className="flex items-center space-x-1 px-3 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+                                    >
+                                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 15l7-7 7 7" />
+                                      </svg>
+                                      <span>Show more above</span>
+                                    </button>
+                                  </div>
                                 </div>
-                              </div>
 
-                              {/* Context Expansion Controls - Bottom */}
-                              <div className="border-t border-gray-200 dark:border-gray-700">
-                                <div className="flex items-center justify-center py-2">
-                                  <button
-                                    onClick={() => expandContextAfter(sectionKey)}
-                                    className="flex items-center space-x-1 px-3 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
-                                  >
-                                    <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
-                                    </svg>
-                                    <span>Show more below</span>
-                                  </button>
+                                <div className="p-3">
+                                  <div className="text-sm text-gray-700 dark:text-gray-300 font-mono whitespace-pre-wrap">
+                                    {getExpandedContent(document, ref.pageNumber, sectionKey, ref)}
+                                  </div>
+                                </div>
+
+                                {/* Context Expansion Controls - Bottom */}
+                                <div className="border-t border-gray-200 dark:border-gray-700">
+                                  <div className="flex items-center justify-center py-2">
+                                    <button
+                                      onClick={() => expandContextAfter(sectionKey)}
+                                      className="flex items-center space-x-1 px-3 py-1 text-xs text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+                                    >
+                                      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                                      </svg>
+                                      <span>Show more below</span>
+                                    </button>
+                                  </div>
                                 </div>
                               </div>
                             </div>
-                          </div>
+                          )}
 
                           {/* Excerpt highlight */}
                           <div className="mt-3 p-2 bg-yellow-50 dark:bg-yellow-900/20 border-l-4 border-yellow-400 rounded-r">
@@ -1,13 +1,15 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { useMutation } from "@/lib/convex-provider";
+import { useMutation } from "convex/react";
 import { api } from "@/convex/_generated/api";
 import { useUser } from "@/lib/user-context";
+import { Id } from "@/convex/_generated/dataModel";
+import { hashFile, uploadToStorage } from "@/lib/documents";
 
 interface PDFUploadProps {
   onUploadComplete?: () => void;
-  collectionId?: string;
+  collectionId?: Id<"collections">;
 }
 
 export default function PDFUpload({ onUploadComplete, collectionId }: PDFUploadProps) {
@@ -37,24 +39,25 @@ export default function PDFUpload({ onUploadComplete, collectionId }: PDFUploadP
         const file = pdfFiles[i];
         setUploadProgress(prev => [...prev, `Uploading ${file.name}...`]);
 
-        // Mock upload process - in real implementation this would upload to Convex
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Simulate upload time
-        
-        // Create document record
-        await uploadDocument({
+        // Store the file, then create the document record pointing at it
+        const contentHash = await hashFile(file);
+        const fileId = await uploadToStorage(await generateUploadUrl(), file);
+        const result = await uploadDocument({
           filename: `${Date.now()}_${file.name}`,
           originalName: file.name,
+          fileId,
           userId: user.id,
           collectionId: collectionId,
-          metadata: {
-            fileSize: file.size,
-            mimeType: file.type,
-          },
+          fileSize: file.size,
+          mimeType: file.type,
+          contentHash,
         });
 
         setUploadProgress(prev => 
           prev.map((msg, idx) => 
-            idx === i ? `✅ ${file.name} uploaded successfully` : msg
+            idx === i
+              ? result.duplicate ? `⏭️ ${file.name} was already uploaded` : `✅ ${file.name} uploaded successfully`
+              : msg
           )
         );
       }
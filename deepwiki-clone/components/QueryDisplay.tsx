@@ -5,10 +5,13 @@ import { useState } from 'react'
 
 interface QueryDisplayProps {
   query: string
-  repo: string
+  // Where the search looked, e.g. a collection name or "All documents"
+  scopeLabel: string
+  searchType: 'fast' | 'deep'
+  onGoDeeper?: () => void
 }
 
-export default function QueryDisplay({ query, repo }: QueryDisplayProps) {
+export default function QueryDisplay({ query, scopeLabel, searchType, onGoDeeper }: QueryDisplayProps) {
   const [copied, setCopied] = useState(false)
 
   const handleCopyLink = () => {
@@ -23,13 +26,13 @@ export default function QueryDisplay({ query, repo }: QueryDisplayProps) {
       <div className="container mx-auto px-4 py-4">
         <div className="flex items-center justify-between mb-3">
           <Link 
-            href={`/${repo}`}
+            href="/search"
             className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400 hover:text-gray-900 dark:hover:text-gray-100"
           >
             <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 19l-7-7m0 0l7-7m-7 7h18" />
             </svg>
-            return to {repo}
+            return to search
           </Link>
         </div>
 
@@ -57,21 +60,26 @@ export default function QueryDisplay({ query, repo }: QueryDisplayProps) {
         <div className="flex items-center gap-6 mt-3">
           <div className="flex items-center gap-2">
             <div className="w-2 h-2 bg-green-500 rounded-full animate-pulse"></div>
-            <span className="text-sm text-gray-600 dark:text-gray-400">Fast</span>
+            <span className="text-sm text-gray-600 dark:text-gray-400">{searchType === 'deep' ? 'Deep' : 'Fast'}</span>
           </div>
           
           <div className="flex items-center gap-2">
             <span className="text-sm text-gray-600 dark:text-gray-400">
-              Searched across {repo}
+              Searched across {scopeLabel}
             </span>
           </div>
 
-          <button className="flex items-center gap-2 px-3 py-1 text-sm bg-primary/10 text-primary rounded-md hover:bg-primary/20">
-            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-            </svg>
-            Go deeper
-          </button>
+          {onGoDeeper && (
+            <button
+              onClick={onGoDeeper}
+              className="flex items-center gap-2 px-3 py-1 text-sm bg-primary/10 text-primary rounded-md hover:bg-primary/20"
+            >
+              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+              </svg>
+              Go deeper
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -1,14 +1,27 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import { ActiveCitation, CitedDocument, DocumentCitation, citationCovers, splitCitations } from '@/lib/citations'
 
 interface ResponsePanelProps {
   content: string
-  onFileReferenceClick?: (fileRef: string) => void
+  // The cited documents, so names with spaces are recognised in citations
+  documents?: CitedDocument[]
+  activeCitation?: ActiveCitation | null
+  onCitationClick?: (citation: DocumentCitation) => void
 }
 
-export default function ResponsePanel({ content, onFileReferenceClick }: ResponsePanelProps) {
+export default function ResponsePanel({ content, documents = [], activeCitation, onCitationClick }: ResponsePanelProps) {
   const [copied, setCopied] = useState(false)
+  const contentRef = useRef<HTMLDivElement>(null)
+
+  // Bring the first citation of a page selected in the other panel into view
+  useEffect(() => {
+    if (!activeCitation) return
+    contentRef.current
+      ?.querySelector('[data-active-citation="true"]')
+      ?.scrollIntoView({ behavior: 'smooth', block: 'nearest' })
+  }, [activeCitation])
 
   const handleCopy = () => {
     navigator.clipboard.writeText(content)
@@ -61,53 +74,37 @@ export default function ResponsePanel({ content, onFileReferenceClick }: Respons
           </code>
         )
       }
-      // For non-code parts, check for file references
-      return renderWithFileReferences(part, index)
+      // For non-code parts, check for document citations
+      return renderWithCitations(part, index)
     })
   }
 
-  const renderWithFileReferences = (text: string, baseIndex: number) => {
-    // Match file references like "README.md:41" or "S3KeySource.kt:12-33"
-    const fileRefPattern = /([a-zA-Z0-9._-]+\.(?:md|kt|java|js|ts|py|go|rs|cpp|h|gradle)):(\d+(?:-\d+)?)/g
-    const parts = []
-    let lastIndex = 0
-    let match
+  const renderWithCitations = (text: string, baseIndex: number) => {
+    // Match document citations like "report.pdf:p12" or "report.pdf:p12-14"
+    const parts = splitCitations(text, documents.map(document => document.documentName)).map((part, index) => {
+      if (typeof part === 'string') return part
 
-    while ((match = fileRefPattern.exec(text)) !== null) {
-      // Add text before the match
-      if (match.index > lastIndex) {
-        parts.push(text.substring(lastIndex, match.index))
-      }
-      
-      // Add the clickable file reference
-      const fullRef = match[0]
-      const fileName = match[1]
-      const lineRef = match[2]
-      
-      parts.push(
+      const isActive = activeCitation ? citationCovers(part, activeCitation, documents) : false
+      return (
         <button
-          key={`${baseIndex}-${match.index}`}
-          onClick={() => onFileReferenceClick?.(fullRef)}
-          className="inline-flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:underline text-sm font-medium"
+          key={`${baseIndex}-${index}`}
+          onClick={() => onCitationClick?.(part)}
+          data-active-citation={isActive}
+          className={`inline-flex items-center gap-1 rounded-sm px-0.5 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300 hover:underline text-sm font-medium ${
+            isActive ? 'bg-yellow-200 dark:bg-yellow-700/60' : ''
+          }`}
         >
-          {fileName}:{lineRef}
+          {part.text}
         </button>
       )
-      
-      lastIndex = match.index + match[0].length
-    }
-    
-    // Add remaining text
-    if (lastIndex < text.length) {
-      parts.push(text.substring(lastIndex))
-    }
-    
+    })
+
     return parts.length === 1 ? parts[0] : parts
   }
 
   return (
     <div className="p-6 lg:p-8">
-      <div className="prose prose-gray dark:prose-invert max-w-none">
+      <div ref={contentRef} className="prose prose-gray dark:prose-invert max-w-none">
         {renderContent()}
       </div>
       
@@ -0,0 +1,133 @@
+"use client";
+
+import { useState, useEffect, useRef } from "react";
+import { DocumentScope, ALL_DOCUMENTS, describeScope, isScoped } from "@/lib/document-scope";
+import { MAX_SCOPED_DOCUMENTS } from "@/convex/lib/chunking";
+
+interface ScopeSelectorProps {
+  scope: DocumentScope;
+  onChange: (scope: DocumentScope) => void;
+  collections: Array<{ _id: string; name: string; documentCount: number }>;
+  documents: Array<{ id: string; originalName: string }>;
+  disabled?: boolean;
+}
+
+export default function ScopeSelector({
+  scope,
+  onChange,
+  collections,
+  documents,
+  disabled = false,
+}: ScopeSelectorProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const selectedIds = scope.documentIds || [];
+  const selectionFull = selectedIds.length >= MAX_SCOPED_DOCUMENTS;
+
+  // Close when clicking anywhere outside the dropdown
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleMouseDown = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+    document.addEventListener("mousedown", handleMouseDown);
+    return () => document.removeEventListener("mousedown", handleMouseDown);
+  }, [isOpen]);
+
+  const toggleDocument = (documentId: string) => {
+    const documentIds = selectedIds.includes(documentId)
+      ? selectedIds.filter(id => id !== documentId)
+      : [...selectedIds, documentId];
+    onChange(documentIds.length > 0 ? { documentIds } : ALL_DOCUMENTS);
+  };
+
+  return (
+    <div ref={containerRef} className="relative inline-block text-left">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        className={`inline-flex items-center space-x-2 px-3 py-1.5 text-sm border rounded-lg transition-colors disabled:opacity-50 ${
+          isScoped(scope)
+            ? "border-blue-300 dark:border-blue-700 bg-blue-50 dark:bg-blue-900/30 text-blue-700 dark:text-blue-300"
+            : "border-gray-300 dark:border-gray-600 text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-800"
+        }`}
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 4a1 1 0 011-1h16a1 1 0 011 1v2.586a1 1 0 01-.293.707l-6.414 6.414a1 1 0 00-.293.707V17l-4 4v-6.586a1 1 0 00-.293-.707L3.293 7.293A1 1 0 013 6.586V4z" />
+        </svg>
+        <span>{describeScope(scope, collections)}</span>
+        <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="absolute z-30 mt-2 w-72 max-h-96 overflow-y-auto bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 rounded-lg shadow-lg">
+          <button
+            onClick={() => {
+              onChange(ALL_DOCUMENTS);
+              setIsOpen(false);
+            }}
+            className={`w-full text-left px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${
+              !isScoped(scope) ? "font-medium text-blue-600 dark:text-blue-400" : ""
+            }`}
+          >
+            All documents
+          </button>
+
+          {collections.length > 0 && (
+            <div className="border-t border-gray-200 dark:border-gray-700 py-1">
+              <p className="px-4 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Collections</p>
+              {collections.map(collection => (
+                <button
+                  key={collection._id}
+                  onClick={() => {
+                    onChange({ collectionId: collection._id });
+                    setIsOpen(false);
+                  }}
+                  className={`w-full flex justify-between px-4 py-2 text-sm hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                    scope.collectionId === collection._id && selectedIds.length === 0
+                      ? "font-medium text-blue-600 dark:text-blue-400"
+                      : ""
+                  }`}
+                >
+                  <span className="truncate">{collection.name}</span>
+                  <span className="text-xs text-gray-500">{collection.documentCount}</span>
+                </button>
+              ))}
+            </div>
+          )}
+
+          {documents.length > 0 && (
+            <div className="border-t border-gray-200 dark:border-gray-700 py-1">
+              <p className="px-4 py-1 text-xs font-medium text-gray-500 dark:text-gray-400 uppercase">Documents</p>
+              {selectionFull && (
+                <p className="px-4 py-1 text-xs text-gray-500 dark:text-gray-400">
+                  Up to {MAX_SCOPED_DOCUMENTS} documents can be selected
+                </p>
+              )}
+              {documents.map(doc => (
+                <label
+                  key={doc.id}
+                  className="flex items-center space-x-2 px-4 py-1.5 text-sm cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.includes(doc.id)}
+                    onChange={() => toggleDocument(doc.id)}
+                    disabled={selectionFull && !selectedIds.includes(doc.id)}
+                    className="rounded border-gray-300"
+                  />
+                  <span className="truncate">{doc.originalName}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
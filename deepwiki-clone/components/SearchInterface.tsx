@@ -1,31 +1,43 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { searchService, SearchResult, SearchResponse } from "@/lib/search-service";
-
-interface Document {
-  id: string;
-  originalName: string;
-  textContent?: string;
-  analysis?: any;
-}
+import { useRouter } from "next/navigation";
+import { searchService, SearchResponse, SearchableDocument } from "@/lib/search-service";
+import { SearchType } from "@/lib/search-runner";
+import { useSearchStarter } from "@/lib/use-search-starter";
+import { useChunkRetriever } from "@/lib/use-chunk-retriever";
+import { DocumentScope, ALL_DOCUMENTS } from "@/lib/document-scope";
+import { formatLocation } from "@/lib/documents";
+import { useUser } from "@/lib/user-context";
+import ScopeSelector from "./ScopeSelector";
 
 interface SearchInterfaceProps {
-  documents: Document[];
+  documents: SearchableDocument[];
+  collections: Array<{ _id: string; name: string; documentCount: number }>;
 }
 
-export default function SearchInterface({ documents }: SearchInterfaceProps) {
+export default function SearchInterface({ documents, collections }: SearchInterfaceProps) {
+  const { user } = useUser();
+  const router = useRouter();
+  const startQuestion = useSearchStarter(documents);
+  const retrieveChunks = useChunkRetriever();
+  const [askMode, setAskMode] = useState<SearchType>("fast");
+  const [scope, setScope] = useState<DocumentScope>(ALL_DOCUMENTS);
   const [query, setQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResponse | null>(null);
   const [isSearching, setIsSearching] = useState(false);
   const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [syntaxError, setSyntaxError] = useState<SearchResponse["error"] | null>(null);
 
-  // Update search service with documents when they change
   useEffect(() => {
     searchService.setDocuments(documents);
   }, [documents]);
 
-  const handleSearch = async (searchQuery: string = query) => {
+  useEffect(() => {
+    searchService.setRetriever(retrieveChunks);
+  }, [retrieveChunks]);
+
+  const handleSearch = async (searchQuery: string = query, searchScope: DocumentScope = scope) => {
     if (!searchQuery.trim()) {
       setSearchResults(null);
       return;
@@ -33,9 +45,17 @@ export default function SearchInterface({ documents }: SearchInterfaceProps) {
 
     setIsSearching(true);
     try {
-      const results = await searchService.search(searchQuery);
+      const results = await searchService.search(searchQuery, searchScope);
+
+      // Syntax errors keep the previous results on screen
+      if (results.error) {
+        setSyntaxError(results.error);
+        return;
+      }
+
+      setSyntaxError(null);
       setSearchResults(results);
-      
+
       // Add to search history if not already present
       if (!searchHistory.includes(searchQuery)) {
         setSearchHistory(prev => [searchQuery, ...prev.slice(0, 4)]);
@@ -47,15 +67,40 @@ export default function SearchInterface({ documents }: SearchInterfaceProps) {
     }
   };
 
+  // Questions get an answer page of their own at /search/[id]
+  const handleAsk = async () => {
+    if (!user || !query.trim()) return;
+
+    setIsSearching(true);
+    try {
+      const searchId = await startQuestion(query, scope, askMode);
+      if (!searchId) return;
+      router.push(`/search/${searchId}`);
+    } catch (error) {
+      console.error("Failed to start search:", error);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       handleSearch();
     }
   };
 
+  const handleScopeChange = (newScope: DocumentScope) => {
+    setScope(newScope);
+    // Re-run the current search in the new scope
+    if (searchResults) {
+      handleSearch(searchResults.query, newScope);
+    }
+  };
+
   const clearSearch = () => {
     setQuery("");
     setSearchResults(null);
+    setSyntaxError(null);
   };
 
   const stats = searchService.getSearchStatistics();
@@ -78,8 +123,8 @@ export default function SearchInterface({ documents }: SearchInterfaceProps) {
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyPress={handleKeyPress}
-            placeholder="Search for concepts, terms, or specific content..."
-            className="w-full px-4 py-3 pr-12 text-lg border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
+            placeholder='Try "force majeure" AND termination -draft page:10..20'
+            className="w-full px-4 py-3 pr-44 text-lg border border-gray-300 dark:border-gray-600 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent dark:bg-gray-800 dark:text-white"
             disabled={isSearching}
           />
           <div className="absolute right-3 top-1/2 transform -translate-y-1/2 flex items-center space-x-2">
@@ -98,8 +143,58 @@ export default function SearchInterface({ documents }: SearchInterfaceProps) {
             >
               {isSearching ? "🔍" : "Search"}
             </button>
+            <button
+              onClick={handleAsk}
+              disabled={isSearching || !query.trim() || documents.length === 0}
+              className="px-4 py-1 border border-blue-600 text-blue-600 dark:text-blue-400 rounded-md hover:bg-blue-50 dark:hover:bg-blue-900/20 disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Answer the question from your documents"
+            >
+              Ask
+            </button>
           </div>
         </div>
+
+        <div className="mt-2 flex items-center space-x-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>Searching in</span>
+          <ScopeSelector
+            scope={scope}
+            onChange={handleScopeChange}
+            collections={collections}
+            documents={documents}
+            disabled={isSearching}
+          />
+          <span className="ml-auto">Ask</span>
+          <select
+            value={askMode}
+            onChange={(e) => setAskMode(e.target.value as SearchType)}
+            disabled={isSearching}
+            className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-800"
+            title="Deep answers split the question, search each part and follow references between documents"
+          >
+            <option value="fast">Fast</option>
+            <option value="deep">Deep</option>
+          </select>
+        </div>
+
+        {/* Query Syntax Error */}
+        {syntaxError ? (
+          <div className="mt-2 p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-sm text-red-700 dark:text-red-300">
+              <strong>Query error:</strong> {syntaxError.message}
+            </p>
+            <pre className="mt-1 text-xs font-mono text-red-600 dark:text-red-400 whitespace-pre overflow-x-auto">
+              {query}
+              {"\n"}
+              {" ".repeat(syntaxError.position)}^
+            </pre>
+          </div>
+        ) : (
+          <p className="mt-2 text-xs text-gray-500 dark:text-gray-400">
+            <strong>Search</strong> finds passages, <strong>Ask</strong> answers a question with citations, and <strong>Deep</strong> asks it in several steps.
+            Use <code>&quot;quoted phrases&quot;</code>, <code>AND</code> / <code>OR</code> / <code>NOT</code> or <code>-term</code>,
+            {" "}<code>prefix*</code>, and filters like <code>doc:report.pdf</code>, <code>page:10..20</code>, <code>collection:legal</code>
+          </p>
+        )}
       </div>
 
       {/* Search History */}
@@ -131,7 +226,7 @@ export default function SearchInterface({ documents }: SearchInterfaceProps) {
             <div className="flex items-center justify-between">
               <div>
                 <h2 className="text-xl font-semibold">
-                  Search Results for "{searchResults.query}"
+                  Search Results for &quot;{searchResults.query}&quot;
                 </h2>
                 <p className="text-sm text-gray-600 dark:text-gray-400">
                   {searchResults.totalResults} results found in {searchResults.searchTime}ms
@@ -181,7 +276,7 @@ export default function SearchInterface({ documents }: SearchInterfaceProps) {
                         📄 {result.documentName}
                       </h3>
                       <span className="text-sm text-gray-500">
-                        Page {result.pageNumber}
+                        {formatLocation(result)}
                       </span>
                     </div>
                     <div className="text-sm text-gray-500">
@@ -0,0 +1,130 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { DocumentOutline, OutlineEntry } from "@/convex/lib/outline";
+
+interface TableOfContentsProps {
+  outline: DocumentOutline;
+  onSelectPage: (pageNumber: number) => void;
+  // Highlights the entries on this page
+  currentPage?: number;
+  defaultOpen?: boolean;
+}
+
+interface OutlineNode {
+  key: string;
+  entry: OutlineEntry;
+  children: OutlineNode[];
+}
+
+// Nests the flat outline entries under their parents by level
+function buildTree(entries: OutlineEntry[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: OutlineNode[] = [];
+
+  entries.forEach((entry, index) => {
+    const node = { key: `${index}`, entry, children: [] };
+    while (stack.length > 0 && stack[stack.length - 1].entry.level >= entry.level) stack.pop();
+    if (stack.length > 0) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  });
+
+  return roots;
+}
+
+export default function TableOfContents({
+  outline,
+  onSelectPage,
+  currentPage,
+  defaultOpen = false,
+}: TableOfContentsProps) {
+  const [isOpen, setIsOpen] = useState(defaultOpen);
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+  const tree = useMemo(() => buildTree(outline.entries), [outline.entries]);
+
+  const toggleNode = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(key)) {
+        next.delete(key);
+      } else {
+        next.add(key);
+      }
+      return next;
+    });
+  };
+
+  const renderNode = (node: OutlineNode) => {
+    const isCollapsed = collapsed.has(node.key);
+    const isCurrent = node.entry.pageNumber === currentPage;
+
+    return (
+      <li key={node.key}>
+        <div className="flex items-center gap-1">
+          {node.children.length > 0 ? (
+            <button
+              onClick={() => toggleNode(node.key)}
+              className="p-0.5 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+              aria-label={isCollapsed ? "Expand section" : "Collapse section"}
+            >
+              <svg
+                className={`w-3 h-3 transition-transform ${isCollapsed ? "" : "rotate-90"}`}
+                fill="none"
+                stroke="currentColor"
+                viewBox="0 0 24 24"
+              >
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+              </svg>
+            </button>
+          ) : (
+            <span className="w-4" />
+          )}
+          <button
+            onClick={() => onSelectPage(node.entry.pageNumber)}
+            className={`flex-1 flex items-baseline justify-between gap-2 text-left px-1 py-0.5 rounded hover:bg-gray-100 dark:hover:bg-gray-700 ${
+              isCurrent ? "text-blue-600 dark:text-blue-400 font-medium" : "text-gray-700 dark:text-gray-300"
+            }`}
+          >
+            <span className="truncate">{node.entry.title}</span>
+            <span className="text-xs text-gray-500 flex-shrink-0">p. {node.entry.pageNumber}</span>
+          </button>
+        </div>
+        {node.children.length > 0 && !isCollapsed && (
+          <ul className="ml-4">{node.children.map(renderNode)}</ul>
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <div className="text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-1 text-blue-600 dark:text-blue-400 hover:text-blue-800 dark:hover:text-blue-300"
+      >
+        <svg
+          className={`w-3 h-3 transition-transform ${isOpen ? "rotate-90" : ""}`}
+          fill="none"
+          stroke="currentColor"
+          viewBox="0 0 24 24"
+        >
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5l7 7-7 7" />
+        </svg>
+        <span>Contents ({outline.entries.length})</span>
+      </button>
+
+      {isOpen && (
+        <div className="mt-2">
+          {outline.source === "headings" && (
+            <div className="text-xs text-gray-500 mb-1">Inferred from headings</div>
+          )}
+          <ul className="max-h-72 overflow-y-auto">{tree.map(renderNode)}</ul>
+        </div>
+      )}
+    </div>
+  );
+}
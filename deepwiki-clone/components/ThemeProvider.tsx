@@ -52,6 +52,9 @@ export function ThemeProvider({ children }: { children: React.ReactNode }) {
   )
 }
 
+// Undefined until the provider has mounted
+export const useOptionalTheme = () => useContext(ThemeContext)
+
 export const useTheme = () => {
   const context = useContext(ThemeContext)
   if (!context) {
@@ -0,0 +1,143 @@
+"use client";
+
+import { useState } from "react";
+import { Id } from "@/convex/_generated/dataModel";
+
+interface Thread {
+  _id: Id<"threads">;
+  title: string;
+  updatedAt: number;
+  messageCount: number;
+}
+
+interface ThreadSidebarProps {
+  threads: Thread[];
+  activeThreadId: Id<"threads"> | null;
+  onSelect: (threadId: Id<"threads">) => void;
+  onNewThread: () => void;
+  onRename: (threadId: Id<"threads">, title: string) => void;
+  onDelete: (threadId: Id<"threads">) => void;
+  disabled?: boolean;
+}
+
+export default function ThreadSidebar({
+  threads,
+  activeThreadId,
+  onSelect,
+  onNewThread,
+  onRename,
+  onDelete,
+  disabled = false,
+}: ThreadSidebarProps) {
+  const [editingId, setEditingId] = useState<Id<"threads"> | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+
+  const startEditing = (thread: Thread) => {
+    setEditingId(thread._id);
+    setDraftTitle(thread.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (thread: Thread) => {
+    if (confirm(`Delete "${thread.title}"? This cannot be undone.`)) {
+      onDelete(thread._id);
+    }
+  };
+
+  const formatDate = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toDateString() === new Date().toDateString()
+      ? date.toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })
+      : date.toLocaleDateString();
+  };
+
+  return (
+    <div className="w-64 flex-shrink-0 border-r border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900 flex flex-col">
+      <div className="p-3 border-b border-gray-200 dark:border-gray-700">
+        <button
+          onClick={onNewThread}
+          disabled={disabled}
+          className="w-full px-3 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          + New Chat
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {threads.length === 0 ? (
+          <p className="text-xs text-gray-500 dark:text-gray-400 text-center py-6">
+            Your conversations will appear here
+          </p>
+        ) : (
+          threads.map(thread => (
+            <div
+              key={thread._id}
+              className={`group rounded-lg px-3 py-2 cursor-pointer transition-colors ${
+                thread._id === activeThreadId
+                  ? "bg-blue-100 dark:bg-blue-900/40"
+                  : "hover:bg-gray-100 dark:hover:bg-gray-800"
+              }`}
+              onClick={() => !disabled && editingId !== thread._id && onSelect(thread._id)}
+            >
+              {editingId === thread._id ? (
+                <input
+                  autoFocus
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="w-full text-sm px-1 py-0.5 border border-blue-400 rounded bg-white dark:bg-gray-800 focus:outline-none"
+                />
+              ) : (
+                <div className="flex items-start justify-between space-x-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 dark:text-gray-100 truncate">{thread.title}</p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {formatDate(thread.updatedAt)} · {thread.messageCount} message{thread.messageCount !== 1 ? "s" : ""}
+                    </p>
+                  </div>
+                  <div className="flex space-x-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        startEditing(thread);
+                      }}
+                      className="p-1 text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                      title="Rename"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 013.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+                      </svg>
+                    </button>
+                    <button
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        handleDelete(thread);
+                      }}
+                      disabled={disabled}
+                      className="p-1 text-gray-500 hover:text-red-600"
+                      title="Delete"
+                    >
+                      <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                      </svg>
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
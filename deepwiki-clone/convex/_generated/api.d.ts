@@ -0,0 +1,72 @@
+/* eslint-disable */
+/**
+ * Generated `api` utility.
+ *
+ * THIS CODE IS AUTOMATICALLY GENERATED.
+ *
+ * To regenerate, run `npx convex dev`.
+ * @module
+ */
+
+import type {
+  ApiFromModules,
+  FilterApi,
+  FunctionReference,
+} from "convex/server";
+import type * as chunks from "../chunks.js";
+import type * as collections from "../collections.js";
+import type * as documents from "../documents.js";
+import type * as imports from "../imports.js";
+import type * as ingestion from "../ingestion.js";
+import type * as lib_chunking from "../lib/chunking.js";
+import type * as lib_concepts from "../lib/concepts.js";
+import type * as lib_diff from "../lib/diff.js";
+import type * as lib_extraction from "../lib/extraction.js";
+import type * as lib_formats from "../lib/formats.js";
+import type * as lib_outline from "../lib/outline.js";
+import type * as lib_tables from "../lib/tables.js";
+import type * as lib_textAnalysis from "../lib/textAnalysis.js";
+import type * as lib_wordBoxes from "../lib/wordBoxes.js";
+import type * as pageWords from "../pageWords.js";
+import type * as pages from "../pages.js";
+import type * as searches from "../searches.js";
+import type * as tables from "../tables.js";
+import type * as threads from "../threads.js";
+
+/**
+ * A utility for referencing Convex functions in your app's API.
+ *
+ * Usage:
+ * ```js
+ * const myFunctionReference = api.myModule.myFunction;
+ * ```
+ */
+declare const fullApi: ApiFromModules<{
+  chunks: typeof chunks;
+  collections: typeof collections;
+  documents: typeof documents;
+  imports: typeof imports;
+  ingestion: typeof ingestion;
+  "lib/chunking": typeof lib_chunking;
+  "lib/concepts": typeof lib_concepts;
+  "lib/diff": typeof lib_diff;
+  "lib/extraction": typeof lib_extraction;
+  "lib/formats": typeof lib_formats;
+  "lib/outline": typeof lib_outline;
+  "lib/tables": typeof lib_tables;
+  "lib/textAnalysis": typeof lib_textAnalysis;
+  "lib/wordBoxes": typeof lib_wordBoxes;
+  pageWords: typeof pageWords;
+  pages: typeof pages;
+  searches: typeof searches;
+  tables: typeof tables;
+  threads: typeof threads;
+}>;
+export declare const api: FilterApi<
+  typeof fullApi,
+  FunctionReference<any, "public">
+>;
+export declare const internal: FilterApi<
+  typeof fullApi,
+  FunctionReference<any, "internal">
+>;
@@ -1,7 +0,0 @@
-// Mock server types for development
-export const mutation = (config: any) => config.handler;
-export const query = (config: any) => config.handler;
-export const action = (config: any) => config.handler;
-export const internalMutation = (config: any) => config.handler;
-export const internalQuery = (config: any) => config.handler;
-export const internalAction = (config: any) => config.handler;
\ No newline at end of file
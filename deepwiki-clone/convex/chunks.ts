@@ -0,0 +1,232 @@
+import { internalMutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Doc, Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { sectionLocation, tableLocation } from "./schema";
+import { MAX_SCOPED_DOCUMENTS } from "./lib/chunking";
+import { analyze, bm25Scores } from "./lib/textAnalysis";
+
+// Chunks deleted or updated per mutation, to stay under the write limits
+const DELETE_BATCH = 500;
+
+// Deletes a batch of a document's chunks and returns whether chunks remain
+export async function deleteChunks(ctx: MutationCtx, documentId: Id<"documents">): Promise<boolean> {
+  const chunks = await ctx.db
+    .query("chunks")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .take(DELETE_BATCH);
+
+  for (const chunk of chunks) {
+    await ctx.db.delete(chunk._id);
+  }
+  return chunks.length === DELETE_BATCH;
+}
+
+/**
+ * Deletes a batch of a document's chunks before they are rebuilt. Returns
+ * whether chunks remain, so the ingestion action calls it until none do.
+ */
+export const deleteChunkBatch = internalMutation({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => await deleteChunks(ctx, args.documentId),
+});
+
+// Stores a batch of chunks built by the ingestion action from the document's pages
+export const insertChunks = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    chunks: v.array(v.object({
+      pageNumber: v.number(),
+      paragraphIndex: v.number(),
+      text: v.string(),
+      startOffset: v.number(),
+      endOffset: v.number(),
+      section: v.optional(sectionLocation),
+      sectionPath: v.optional(v.array(v.string())),
+      sectionContext: v.optional(v.string()),
+      table: v.optional(tableLocation),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+
+    for (const chunk of args.chunks) {
+      await ctx.db.insert("chunks", {
+        documentId: args.documentId,
+        userId: document.userId,
+        collectionId: document.collectionId,
+        ...chunk,
+        stemmedText: analyze(chunk.text).join(" "),
+        ...(document.supersededBy && { superseded: true }),
+      });
+    }
+  },
+});
+
+/**
+ * Copies whether a document is superseded onto a batch of its chunks, then
+ * schedules the next batch. Each batch reads the document again, so when
+ * the document changes midway the last run leaves every chunk up to date.
+ */
+export const syncChunksSuperseded = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    cursor: v.union(v.string(), v.null()),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) return;
+
+    const page = await ctx.db
+      .query("chunks")
+      .withIndex("by_document", (q) => q.eq("documentId", args.documentId))
+      .paginate({ numItems: DELETE_BATCH, cursor: args.cursor });
+
+    const superseded = document.supersededBy ? true : undefined;
+    for (const chunk of page.page) {
+      if (chunk.superseded !== superseded) {
+        await ctx.db.patch(chunk._id, { superseded });
+      }
+    }
+    if (!page.isDone) {
+      await ctx.scheduler.runAfter(0, internal.chunks.syncChunksSuperseded, {
+        documentId: args.documentId,
+        cursor: page.continueCursor,
+      });
+    }
+  },
+});
+
+// Marks whether search skips a document's chunks by default, following its supersededBy
+export async function updateChunksSuperseded(ctx: MutationCtx, documentId: Id<"documents">) {
+  await ctx.scheduler.runAfter(0, internal.chunks.syncChunksSuperseded, { documentId, cursor: null });
+}
+
+// Weight of a section title match relative to a match in the chunk text
+const SECTION_PATH_WEIGHT = 0.5;
+// Most chunks one search returns
+const MAX_LIMIT = 100;
+// Chunks read from the stemmed index per search, ranked with BM25 before the
+// limit is applied. Spread over the documents when a document set is searched.
+const CANDIDATE_CHUNKS = 500;
+
+type ChunkFilter = {
+  userId: string;
+  collectionId?: Id<"collections">;
+  documentId?: Id<"documents">;
+  latestOnly: boolean;
+};
+
+// Chunks from a search index, with the scope applied as filter fields
+async function searchIndex(
+  ctx: QueryCtx,
+  index: "search_text" | "search_stemmed" | "search_section",
+  text: string,
+  filter: ChunkFilter,
+  count: number
+) {
+  const field = ({ search_text: "text", search_stemmed: "stemmedText", search_section: "sectionContext" } as const)[index];
+  return await ctx.db
+    .query("chunks")
+    .withSearchIndex(index, (q) => {
+      let search = q.search(field, text).eq("userId", filter.userId);
+      if (filter.collectionId) search = search.eq("collectionId", filter.collectionId);
+      if (filter.documentId) search = search.eq("documentId", filter.documentId);
+      if (filter.latestOnly) search = search.eq("superseded", undefined);
+      return search;
+    })
+    .take(count);
+}
+
+// Ranked full-text retrieval over chunk text and section titles, scoped to a
+// collection, a document set or a single document. Only the latest version of
+// each document is searched unless documents are named or allVersions is set.
+// Candidates come from the stemmed index, plus the plain text index for
+// partial words and chunks not yet stemmed, and are ranked with BM25.
+export const searchChunks = query({
+  args: {
+    query: v.string(),
+    userId: v.string(),
+    collectionId: v.optional(v.id("collections")),
+    documentIds: v.optional(v.array(v.id("documents"))),
+    documentId: v.optional(v.id("documents")),
+    limit: v.optional(v.number()),
+    allVersions: v.optional(v.boolean()),
+    // Index terms every returned chunk contains, e.g. the words of an AND query
+    requiredTerms: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const terms = Array.from(new Set(analyze(args.query)));
+    if (terms.length === 0) return [];
+
+    const limit = Math.min(args.limit ?? 20, MAX_LIMIT);
+    // Search index filters only match single values, so each document of a
+    // set is searched on its own and the candidates are ranked together
+    const documentIds: Array<Id<"documents"> | undefined> = args.documentId
+      ? [args.documentId]
+      : args.documentIds?.length
+        ? Array.from(new Set(args.documentIds))
+        : [undefined];
+    if (documentIds.length > MAX_SCOPED_DOCUMENTS) {
+      throw new Error(`Search at most ${MAX_SCOPED_DOCUMENTS} documents at a time`);
+    }
+
+    const latestOnly = !args.allVersions && !args.documentId && !args.documentIds?.length;
+    const perDocument = Math.max(limit, Math.ceil(CANDIDATE_CHUNKS / documentIds.length));
+    const candidates = new Map<string, Doc<"chunks">>();
+
+    for (const documentId of documentIds) {
+      const filter = { userId: args.userId, collectionId: args.collectionId, documentId, latestOnly };
+      const matches = [
+        ...await searchIndex(ctx, "search_stemmed", terms.join(" "), filter, perDocument),
+        ...await searchIndex(ctx, "search_text", args.query, filter, limit),
+        ...await searchIndex(ctx, "search_section", args.query, filter, limit),
+      ];
+      matches.forEach((chunk) => candidates.set(chunk._id, chunk));
+    }
+
+    const required = args.requiredTerms ?? [];
+    const chunks = Array.from(candidates.values()).map((chunk) => ({
+      chunk,
+      stems: chunk.stemmedText?.split(" ") ?? analyze(chunk.text),
+    })).filter(({ stems }) => required.every((term) => stems.includes(term)));
+
+    // The index matches the last word of the query as the start of a word
+    const prefix = terms[terms.length - 1];
+    const textScores = bm25Scores(chunks.map(({ stems }) => stems), terms, prefix);
+    const sectionScores = bm25Scores(chunks.map(({ chunk }) => analyze(chunk.sectionContext ?? "")), terms, prefix);
+    const ranked = chunks
+      .map(({ chunk }, i) => ({ chunk, score: textScores[i] + SECTION_PATH_WEIGHT * sectionScores[i] }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+
+    // Attach document names, fetching each document once. Chunks of a
+    // deleted document may remain until its data is cleaned up.
+    const names = new Map<string, string | null>();
+    for (const { chunk } of ranked) {
+      if (!names.has(chunk.documentId)) {
+        const document = await ctx.db.get(chunk.documentId);
+        names.set(chunk.documentId, document?.originalName ?? null);
+      }
+    }
+
+    return ranked.filter(({ chunk }) => names.get(chunk.documentId)).map(({ chunk, score }, rank) => ({
+      ...chunk,
+      documentName: names.get(chunk.documentId)!,
+      rank,
+      score,
+    }));
+  },
+});
+
+// All chunks of a document in reading order
+export const getDocumentChunks = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("chunks")
+      .withIndex("by_document", (q) => q.eq("documentId", args.documentId))
+      .collect();
+  },
+});
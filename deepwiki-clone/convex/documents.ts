@@ -1,7 +1,97 @@
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Doc, Id } from "./_generated/dataModel";
 import { v } from "convex/values";
+import { internal } from "./_generated/api";
+import { extractedContent, extractedPage, processingError, processingStatus } from "./schema";
+import { deleteChunks, updateChunksSuperseded } from "./chunks";
+import { deleteTables } from "./tables";
+import { deletePageWords } from "./pageWords";
+import { deletePages, loadPageTexts } from "./pages";
+import { PAGE_SEPARATOR } from "./lib/chunking";
 
-// Upload a new document
+// Reprocessing a document many times keeps only its latest status changes
+const MAX_PROCESSING_HISTORY = 100;
+
+function withEvent(
+  document: Doc<"documents">,
+  event: { status: Doc<"documents">["processingStatus"]; message?: string }
+): NonNullable<Doc<"documents">["processingHistory"]> {
+  return [...(document.processingHistory || []), { ...event, at: Date.now() }].slice(-MAX_PROCESSING_HISTORY);
+}
+
+/**
+ * Versions of a document: uploads with the same name into the same collection.
+ * Documents outside a collection are never versioned.
+ */
+async function getVersions(
+  ctx: QueryCtx,
+  collectionId: Id<"collections"> | undefined,
+  originalName: string
+): Promise<Doc<"documents">[]> {
+  if (!collectionId) return [];
+
+  const versions = await ctx.db
+    .query("documents")
+    .withIndex("by_collection_name", (q) => q.eq("collectionId", collectionId).eq("originalName", originalName))
+    .collect();
+  return versions.sort((a, b) => (a.version ?? 1) - (b.version ?? 1));
+}
+
+// Once a version is completed, the earlier ones are no longer searched by
+// default. Versions can finish out of order, so a version completing after a
+// later one is superseded by that one straight away.
+async function supersedeOutdatedVersions(ctx: MutationCtx, document: Doc<"documents">) {
+  let previousId = document.previousVersionId;
+  while (previousId) {
+    const previous = await ctx.db.get(previousId);
+    if (!previous) break;
+    if (!previous.supersededBy) {
+      await ctx.db.patch(previous._id, { supersededBy: document._id });
+      await updateChunksSuperseded(ctx, previous._id);
+    }
+    previousId = previous.previousVersionId;
+  }
+
+  if (document.supersededBy) return;
+  const versions = await getVersions(ctx, document.collectionId, document.originalName);
+  const later = versions.find((version) =>
+    (version.version ?? 1) > (document.version ?? 1) && version.processingStatus === "completed"
+  );
+  if (later) {
+    await ctx.db.patch(document._id, { supersededBy: later._id });
+    await updateChunksSuperseded(ctx, document._id);
+  }
+}
+
+// Keeps the version chain intact when a version is deleted
+async function unlinkVersion(ctx: MutationCtx, document: Doc<"documents">) {
+  const versions = await getVersions(ctx, document.collectionId, document.originalName);
+  const next = versions.find((version) => version.previousVersionId === document._id);
+  if (next) {
+    await ctx.db.patch(next._id, { previousVersionId: document.previousVersionId });
+  }
+
+  // Versions superseded by the deleted one fall back to its completed successor, or become the latest again
+  const successor = next?.processingStatus === "completed" ? next._id : undefined;
+  for (const version of versions) {
+    if (version.supersededBy !== document._id) continue;
+    await ctx.db.patch(version._id, { supersededBy: successor });
+    if (!successor) {
+      await updateChunksSuperseded(ctx, version._id);
+    }
+  }
+}
+
+// The user's document with the same content, whose file replaces a new upload of it
+async function findDuplicate(ctx: QueryCtx, userId: string, contentHash: string) {
+  return await ctx.db
+    .query("documents")
+    .withIndex("by_hash", (q) => q.eq("userId", userId).eq("contentHash", contentHash))
+    .first();
+}
+
+// Upload a new document. An exact duplicate of one the user already has is
+// not stored again, and the existing document is returned instead.
 export const uploadDocument = mutation({
   args: {
     filename: v.string(),
@@ -11,23 +101,45 @@ export const uploadDocument = mutation({
     collectionId: v.optional(v.id("collections")),
     fileSize: v.number(),
     mimeType: v.string(),
+    // Hex SHA-256 of the file
+    contentHash: v.string(),
+    tags: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
+    const duplicate = await findDuplicate(ctx, args.userId, args.contentHash);
+    if (duplicate) {
+      await ctx.storage.delete(args.fileId);
+      return { documentId: duplicate._id, duplicate: true, version: duplicate.version ?? 1 };
+    }
+
+    // A different file with the same name in the same collection is a new version
+    const versions = await getVersions(ctx, args.collectionId, args.originalName);
+    const previous = versions[versions.length - 1];
+    const version = previous ? (previous.version ?? 1) + 1 : 1;
+
     // Create document record
+    const uploadedAt = Date.now();
     const documentId = await ctx.db.insert("documents", {
       filename: args.filename,
       originalName: args.originalName,
       fileId: args.fileId,
       userId: args.userId,
       collectionId: args.collectionId,
-      uploadedAt: Date.now(),
+      uploadedAt,
       processingStatus: "uploaded",
+      processingHistory: [{ status: "uploaded", at: uploadedAt }],
+      contentHash: args.contentHash,
+      tags: args.tags,
+      ...(previous && { version, previousVersionId: previous._id }),
       metadata: {
         fileSize: args.fileSize,
         mimeType: args.mimeType,
       },
     });
 
+    // Extraction and indexing run in the background
+    await ctx.scheduler.runAfter(0, internal.ingestion.processDocument, { documentId });
+
     // Update collection document count if document is in a collection
     if (args.collectionId) {
       const collection = await ctx.db.get(args.collectionId);
@@ -38,7 +150,72 @@ export const uploadDocument = mutation({
       }
     }
 
-    return documentId;
+    return { documentId, duplicate: false, version };
+  },
+});
+
+// Import a document whose text was already extracted, e.g. from browser
+// storage. Like an upload, a duplicate returns the existing document.
+export const importDocument = mutation({
+  args: {
+    filename: v.string(),
+    originalName: v.string(),
+    fileId: v.id("_storage"),
+    userId: v.string(),
+    uploadedAt: v.number(),
+    fileSize: v.number(),
+    mimeType: v.string(),
+    title: v.optional(v.string()),
+    author: v.optional(v.string()),
+    pages: v.optional(v.array(extractedPage)),
+    extractedContent: v.optional(extractedContent),
+    // Hex SHA-256 of the file
+    contentHash: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const duplicate = await findDuplicate(ctx, args.userId, args.contentHash);
+    if (duplicate) {
+      await ctx.storage.delete(args.fileId);
+      return { documentId: duplicate._id, duplicate: true };
+    }
+
+    const pages = args.pages || [];
+    // Without extracted text there is nothing left to process, otherwise only indexing
+    const status = pages.length > 0 ? "indexing" : "failed";
+
+    const documentId = await ctx.db.insert("documents", {
+      filename: args.filename,
+      originalName: args.originalName,
+      fileId: args.fileId,
+      userId: args.userId,
+      uploadedAt: args.uploadedAt,
+      contentHash: args.contentHash,
+      processingStatus: status,
+      processingHistory: [
+        { status: "uploaded", at: args.uploadedAt },
+        { status, at: Date.now(), message: "Imported from browser storage" },
+      ],
+      metadata: {
+        fileSize: args.fileSize,
+        mimeType: args.mimeType,
+        title: args.title,
+        author: args.author,
+        ...(pages.length > 0 && {
+          pageCount: pages.length,
+          extractedAt: Date.now(),
+        }),
+      },
+      extractedContent: args.extractedContent,
+    });
+
+    for (const page of pages) {
+      await ctx.db.insert("pages", { documentId, ...page });
+    }
+    if (pages.length > 0) {
+      await ctx.scheduler.runAfter(0, internal.ingestion.indexImportedDocument, { documentId });
+    }
+
+    return { documentId, duplicate: false };
   },
 });
 
@@ -91,24 +268,54 @@ export const getDocument = query({
   },
 });
 
-// Update document processing status
-export const updateDocumentStatus = mutation({
+// Some pages of a document, each with its offset into the document text; null once the document is deleted
+export const getDocumentPages = query({
   args: {
     documentId: v.id("documents"),
-    status: v.union(
-      v.literal("uploaded"),
-      v.literal("extracting"),
-      v.literal("analyzing"),
-      v.literal("indexing"),
-      v.literal("completed"),
-      v.literal("failed")
-    ),
+    pageNumbers: v.array(v.number()),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) return null;
+
+    const wanted = new Set(args.pageNumbers);
+    const pages = [];
+    let offset = 0;
+    for (const page of await loadPageTexts(ctx, args.documentId)) {
+      if (wanted.has(page.pageNumber)) pages.push({ page, offset });
+      offset += page.fullText.length + PAGE_SEPARATOR.length;
+    }
+    return pages;
+  },
+});
+
+// All versions of a document, oldest first; just the document itself when it has none
+export const getDocumentVersions = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) return [];
+
+    const versions = await getVersions(ctx, document.collectionId, document.originalName);
+    return versions.length > 0 ? versions : [document];
+  },
+});
+
+// Update document processing status, from the ingestion actions
+export const updateDocumentStatus = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    status: processingStatus,
     metadata: v.optional(v.object({
       pageCount: v.optional(v.number()),
       language: v.optional(v.string()),
+      title: v.optional(v.string()),
+      author: v.optional(v.string()),
       extractedAt: v.optional(v.number()),
       processingTimeMs: v.optional(v.number()),
     })),
+    extractedContent: v.optional(extractedContent),
+    processingError: v.optional(processingError),
   },
   handler: async (ctx, args) => {
     const document = await ctx.db.get(args.documentId);
@@ -116,13 +323,41 @@ export const updateDocumentStatus = mutation({
 
     await ctx.db.patch(args.documentId, {
       processingStatus: args.status,
+      // A completed document no longer carries the reason of an earlier failed attempt
+      processingError: args.status === "completed" ? undefined : args.processingError ?? document.processingError,
+      processingHistory: withEvent(document, { status: args.status, message: args.processingError?.message }),
       ...(args.metadata && {
         metadata: {
           ...document.metadata,
           ...args.metadata,
         },
       }),
+      ...(args.extractedContent && {
+        extractedContent: args.extractedContent,
+      }),
     });
+
+    if (args.status === "completed") {
+      await supersedeOutdatedVersions(ctx, document);
+    }
+  },
+});
+
+// Run the ingestion pipeline again, e.g. after the PDF processor was down
+export const reprocessDocument = mutation({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+    if (document.processingStatus !== "failed") {
+      throw new Error("Only failed documents can be reprocessed");
+    }
+
+    await ctx.db.patch(args.documentId, {
+      processingStatus: "uploaded",
+      processingHistory: withEvent(document, { status: "uploaded", message: "Reprocessing requested" }),
+    });
+    await ctx.scheduler.runAfter(0, internal.ingestion.processDocument, { documentId: args.documentId });
   },
 });
 
@@ -136,6 +371,10 @@ export const deleteDocument = mutation({
     // Delete the file from storage
     await ctx.storage.delete(document.fileId);
 
+    // The document's pages, retrieval chunks and tables are removed in the background
+    await ctx.scheduler.runAfter(0, internal.documents.deleteDocumentData, { documentId: args.documentId });
+    await unlinkVersion(ctx, document);
+
     // Update collection document count
     if (document.collectionId) {
       const collection = await ctx.db.get(document.collectionId);
@@ -151,6 +390,25 @@ export const deleteDocument = mutation({
   },
 });
 
+/**
+ * Deletes a batch of what a deleted document leaves behind: its chunks,
+ * tables, word positions and pages, in that order. Schedules itself again
+ * until nothing remains, so large documents stay under the write limits.
+ */
+export const deleteDocumentData = internalMutation({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    const remaining =
+      (await deleteChunks(ctx, args.documentId)) ||
+      (await deleteTables(ctx, args.documentId)) ||
+      (await deletePageWords(ctx, args.documentId)) ||
+      (await deletePages(ctx, args.documentId));
+    if (remaining) {
+      await ctx.scheduler.runAfter(0, internal.documents.deleteDocumentData, args);
+    }
+  },
+});
+
 // Generate upload URL for file
 export const generateUploadUrl = mutation({
   args: {},
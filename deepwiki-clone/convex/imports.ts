@@ -0,0 +1,147 @@
+import { mutation, query } from "./_generated/server";
+import { Doc } from "./_generated/dataModel";
+import { v } from "convex/values";
+
+// Files that need no further upload when an import is resumed
+function isDone(file: Doc<"importFiles">): boolean {
+  return file.status === "completed" || file.status === "duplicate";
+}
+
+// Start an import, or resume the open one from the same source
+export const startImport = mutation({
+  args: {
+    userId: v.string(),
+    source: v.string(),
+    sourceKey: v.string(),
+    paths: v.array(v.string()),
+    // Top-level folders, created as collections when the user has none by that name
+    collections: v.array(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("imports")
+      .withIndex("by_source", (q) => q.eq("userId", args.userId).eq("sourceKey", args.sourceKey))
+      .filter((q) => q.eq(q.field("completedAt"), undefined))
+      .first();
+
+    const importId = existing?._id ?? await ctx.db.insert("imports", {
+      userId: args.userId,
+      source: args.source,
+      sourceKey: args.sourceKey,
+      startedAt: Date.now(),
+    });
+
+    // Files added to the source since the last attempt join the import
+    const files = await ctx.db
+      .query("importFiles")
+      .withIndex("by_import", (q) => q.eq("importId", importId))
+      .collect();
+    const known = new Set(files.map((file) => file.path));
+    for (const path of args.paths) {
+      if (known.has(path)) continue;
+      await ctx.db.insert("importFiles", { importId, path, status: "pending", attempts: 0 });
+    }
+
+    const userCollections = await ctx.db
+      .query("collections")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .collect();
+    const collections = [];
+    for (const name of new Set(args.collections)) {
+      const collectionId = userCollections.find((collection) => collection.name === name)?._id
+        ?? await ctx.db.insert("collections", {
+          name,
+          description: `Imported from ${args.source}`,
+          userId: args.userId,
+          createdAt: Date.now(),
+          documentCount: 0,
+          isPublic: false,
+          tags: [],
+        });
+      collections.push({ name, collectionId });
+    }
+
+    return {
+      importId,
+      resumed: existing !== null,
+      completedPaths: files.filter(isDone).map((file) => file.path),
+      collections,
+    };
+  },
+});
+
+// Record the outcome of one file after its last attempt
+export const recordImportFile = mutation({
+  args: {
+    importId: v.id("imports"),
+    path: v.string(),
+    status: v.union(v.literal("completed"), v.literal("duplicate"), v.literal("failed")),
+    attempts: v.number(),
+    documentId: v.optional(v.id("documents")),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const file = await ctx.db
+      .query("importFiles")
+      .withIndex("by_import", (q) => q.eq("importId", args.importId).eq("path", args.path))
+      .first();
+    if (!file) throw new Error("Import file not found");
+
+    await ctx.db.patch(file._id, {
+      status: args.status,
+      attempts: file.attempts + args.attempts,
+      documentId: args.documentId,
+      error: args.error,
+    });
+  },
+});
+
+// Close the import once every file is uploaded; with failures it stays open to be resumed
+export const finishImport = mutation({
+  args: { importId: v.id("imports") },
+  handler: async (ctx, args) => {
+    const files = await ctx.db
+      .query("importFiles")
+      .withIndex("by_import", (q) => q.eq("importId", args.importId))
+      .collect();
+
+    if (files.every(isDone)) {
+      await ctx.db.patch(args.importId, { completedAt: Date.now() });
+    }
+  },
+});
+
+// Imports with files left to upload, with their progress
+export const getUnfinishedImports = query({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    const imports = await ctx.db
+      .query("imports")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .filter((q) => q.eq(q.field("completedAt"), undefined))
+      .collect();
+
+    return await Promise.all(
+      imports.map(async (entry) => {
+        const files = await ctx.db
+          .query("importFiles")
+          .withIndex("by_import", (q) => q.eq("importId", entry._id))
+          .collect();
+        return {
+          ...entry,
+          fileCount: files.length,
+          doneCount: files.filter(isDone).length,
+          failedCount: files.filter((file) => file.status === "failed").length,
+        };
+      })
+    );
+  },
+});
+
+// Stop offering to resume an import
+export const dismissImport = mutation({
+  args: { importId: v.id("imports") },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.importId, { completedAt: Date.now() });
+  },
+});
@@ -0,0 +1,329 @@
+import { internalAction, ActionCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { api, internal } from "./_generated/api";
+import { v } from "convex/values";
+import {
+  toExtractedContent,
+  ProcessorSection,
+  ProcessorOutlineEntry,
+  ProcessorTable,
+  ProcessorOcrResult,
+} from "./lib/extraction";
+import { PDF_MIME_TYPE } from "./lib/formats";
+import { alignWords } from "./lib/wordBoxes";
+import { PageText, chunkPages, toPageText } from "./lib/chunking";
+import { OutlineEntry, outlinePath, SECTION_PATH_SEPARATOR } from "./lib/outline";
+import { PageTable, tableDrafts } from "./lib/tables";
+import { tableKey } from "./tables";
+
+const MAX_ATTEMPTS = 3;
+// Wait before the second and third attempt
+const RETRY_DELAYS_MS = [10_000, 60_000];
+// Pages of word positions per mutation, to stay under the argument size limit
+const PAGE_WORDS_BATCH = 20;
+// Extracted pages per mutation, for the same reason
+const PAGES_BATCH = 50;
+// Chunks per mutation, to stay under the write limits
+const CHUNKS_BATCH = 200;
+// Pages with less text than this have no usable text layer, e.g. scans with a page number
+const MIN_TEXT_LAYER_CHARS = 20;
+
+type Stage = "extracting" | "analyzing" | "indexing";
+
+interface ProcessorResult {
+  page_count: number;
+  metadata?: {
+    title?: string;
+    author?: string;
+    // ISO 639-1 code of the text layer, empty when it could not be detected
+    language?: string;
+  };
+  sections: ProcessorSection[];
+  // Older processors do not send the outline or tables
+  outline?: ProcessorOutlineEntry[];
+  tables?: ProcessorTable[];
+}
+
+// Set with `npx convex env set PDF_PROCESSOR_URL ...` when the processor is not on this machine
+function getProcessorUrl(): string {
+  return process.env.PDF_PROCESSOR_URL || "http://localhost:8001";
+}
+
+async function extractText(file: Blob, filename: string, documentId: string, mimeType: string): Promise<ProcessorResult> {
+  const formData = new FormData();
+  formData.append("file", file, filename);
+  formData.append("document_id", documentId);
+  // Picks the processor's format adapter
+  formData.append("mime_type", mimeType);
+
+  const response = await fetch(`${getProcessorUrl()}/extract-text`, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Unknown error" }));
+    throw new Error(errorData.detail || `PDF processor returned HTTP ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+async function ocrPages(file: Blob, filename: string, pageNumbers: number[]): Promise<ProcessorOcrResult> {
+  const formData = new FormData();
+  formData.append("file", file, filename);
+  formData.append("pages", pageNumbers.join(","));
+
+  const response = await fetch(`${getProcessorUrl()}/ocr-pages`, {
+    method: "POST",
+    body: formData,
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Unknown error" }));
+    throw new Error(errorData.detail || `PDF processor OCR returned HTTP ${response.status}`);
+  }
+
+  return await response.json();
+}
+
+function hasTextLayer(section: ProcessorSection): boolean {
+  return !section.error && section.content.replace(/\s/g, "").length >= MIN_TEXT_LAYER_CHARS;
+}
+
+/**
+ * Sends pages without a text layer to the OCR endpoint and puts the
+ * recognized text in their place.
+ */
+async function withOcrPages(
+  extraction: ProcessorResult,
+  file: Blob,
+  filename: string
+): Promise<{ extraction: ProcessorResult; language?: string }> {
+  const textLanguage = extraction.metadata?.language || undefined;
+  const scanned = extraction.sections.filter((section) => !hasTextLayer(section)).map((section) => section.page_number);
+  if (scanned.length === 0) return { extraction, language: textLanguage };
+
+  const ocr = await ocrPages(file, filename, scanned);
+  const ocrByPage = new Map(ocr.pages.map((page) => [page.page_number, page]));
+  const sections = extraction.sections.map((section): ProcessorSection => {
+    const page = ocrByPage.get(section.page_number);
+    if (!page) return section;
+    return {
+      page_number: section.page_number,
+      content: page.content,
+      blocks: page.blocks,
+      ocr_confidence: page.confidence,
+      words: page.words,
+      page_width: page.page_width,
+      page_height: page.page_height,
+    };
+  });
+
+  return {
+    extraction: { ...extraction, sections },
+    // The text layer, where there is one, is more reliable than OCR output
+    language: textLanguage || ocr.language || undefined,
+  };
+}
+
+/**
+ * Rebuilds the chunks and tables of a document from its pages. Both are
+ * deleted in batches and the chunks written in batches, a mutation each, so
+ * large documents stay under the per-mutation write limits.
+ */
+async function rebuildChunks(
+  ctx: ActionCtx,
+  documentId: Id<"documents">,
+  pages: Array<PageText & { tables?: PageTable[] }>,
+  outline: OutlineEntry[]
+) {
+  while (await ctx.runMutation(internal.chunks.deleteChunkBatch, { documentId })) {
+    // Deletes until no chunks remain
+  }
+  while (await ctx.runMutation(internal.tables.deleteTableBatch, { documentId })) {
+    // Deletes until no tables remain
+  }
+
+  const chunks = chunkPages(pages);
+  const tables = await ctx.runMutation(internal.tables.insertTables, {
+    documentId,
+    tables: tableDrafts(pages, chunks),
+  });
+  const tablesByKey = new Map(tables.map(({ key, tableId, number }) => [key, { tableId, number }]));
+
+  const rows = chunks.map((chunk) => {
+    const sectionPath = outlinePath(outline, chunk.pageNumber, chunk.paragraphIndex);
+    const table = tablesByKey.get(tableKey(chunk.pageNumber, chunk.paragraphIndex));
+    return {
+      ...chunk,
+      ...(sectionPath.length > 0 && {
+        sectionPath,
+        sectionContext: sectionPath.join(SECTION_PATH_SEPARATOR),
+      }),
+      ...(table && { table }),
+    };
+  });
+  for (let i = 0; i < rows.length; i += CHUNKS_BATCH) {
+    await ctx.runMutation(internal.chunks.insertChunks, {
+      documentId,
+      chunks: rows.slice(i, i + CHUNKS_BATCH),
+    });
+  }
+}
+
+// Moves a document from uploaded through extracting, analyzing and indexing to completed
+export const processDocument = internalAction({
+  args: {
+    documentId: v.id("documents"),
+    attempt: v.optional(v.number()),
+  },
+  handler: async (ctx, args): Promise<void> => {
+    const attempt = args.attempt ?? 1;
+    const document = await ctx.runQuery(api.documents.getDocument, { documentId: args.documentId });
+    // Deleted before processing started
+    if (!document) return;
+
+    const startedAt = Date.now();
+    let stage: Stage = "extracting";
+
+    try {
+      await ctx.runMutation(internal.documents.updateDocumentStatus, {
+        documentId: args.documentId,
+        status: "extracting",
+      });
+
+      const file = await ctx.storage.get(document.fileId);
+      if (!file) throw new Error("Stored file not found");
+      const extracted = await extractText(file, document.originalName, args.documentId, document.metadata.mimeType);
+      // Only PDF pages can lack a text layer
+      const { extraction, language } = document.metadata.mimeType === PDF_MIME_TYPE
+        ? await withOcrPages(extracted, file, document.originalName)
+        : { extraction: extracted, language: extracted.metadata?.language || undefined };
+      if (extraction.sections.every((section) => !section.content.trim())) {
+        throw new Error("No text found in the document, even with OCR");
+      }
+
+      stage = "analyzing";
+      await ctx.runMutation(internal.documents.updateDocumentStatus, {
+        documentId: args.documentId,
+        status: "analyzing",
+        metadata: { processingTimeMs: Date.now() - startedAt },
+      });
+      // Builds the page layout with its tables, the outline and the key concepts
+      const { pages, content } = toExtractedContent(extraction);
+      // A reprocessed document drops the pages of its earlier run first
+      while (await ctx.runMutation(internal.pages.deletePageBatch, { documentId: args.documentId })) {
+        // Deletes until no pages remain
+      }
+      for (let i = 0; i < pages.length; i += PAGES_BATCH) {
+        await ctx.runMutation(internal.pages.insertPages, {
+          documentId: args.documentId,
+          pages: pages.slice(i, i + PAGES_BATCH),
+        });
+      }
+
+      // Documents become searchable through their chunks while indexing
+      stage = "indexing";
+      await ctx.runMutation(internal.documents.updateDocumentStatus, {
+        documentId: args.documentId,
+        status: "indexing",
+        metadata: {
+          pageCount: extraction.page_count,
+          title: extraction.metadata?.title || undefined,
+          author: extraction.metadata?.author || undefined,
+          language,
+          extractedAt: Date.now(),
+          processingTimeMs: Date.now() - startedAt,
+        },
+        extractedContent: content,
+      });
+      const pageTexts = pages.map(toPageText);
+      await rebuildChunks(ctx, args.documentId, pageTexts, content.outline?.entries || []);
+
+      // Word positions of PDF pages, aligned with the stored page texts for citation highlights
+      const pageWords = extraction.sections.flatMap((section, i) =>
+        section.words && section.page_width && section.page_height
+          ? [{
+              pageNumber: section.page_number,
+              width: section.page_width,
+              height: section.page_height,
+              words: alignWords(pageTexts[i].fullText, section.words),
+            }]
+          : []
+      );
+      while (await ctx.runMutation(internal.pageWords.deletePageWordBatch, { documentId: args.documentId })) {
+        // Deletes the positions of an earlier run until none remain
+      }
+      for (let i = 0; i < pageWords.length; i += PAGE_WORDS_BATCH) {
+        await ctx.runMutation(internal.pageWords.insertPageWords, {
+          documentId: args.documentId,
+          pages: pageWords.slice(i, i + PAGE_WORDS_BATCH),
+        });
+      }
+
+      await ctx.runMutation(internal.documents.updateDocumentStatus, {
+        documentId: args.documentId,
+        status: "completed",
+        metadata: { processingTimeMs: Date.now() - startedAt },
+      });
+    } catch (error) {
+      const processingError = {
+        stage,
+        message: error instanceof Error ? error.message : String(error),
+        attempts: attempt,
+        failedAt: Date.now(),
+      };
+      console.error(`Processing ${args.documentId} failed while ${stage} (attempt ${attempt}):`, error);
+
+      if (attempt < MAX_ATTEMPTS) {
+        await ctx.runMutation(internal.documents.updateDocumentStatus, {
+          documentId: args.documentId,
+          status: "uploaded",
+          processingError,
+        });
+        await ctx.scheduler.runAfter(RETRY_DELAYS_MS[attempt - 1], internal.ingestion.processDocument, {
+          documentId: args.documentId,
+          attempt: attempt + 1,
+        });
+      } else {
+        await ctx.runMutation(internal.documents.updateDocumentStatus, {
+          documentId: args.documentId,
+          status: "failed",
+          metadata: { processingTimeMs: Date.now() - startedAt },
+          processingError,
+        });
+      }
+    }
+  },
+});
+
+// Indexes a document imported with its pages already extracted
+export const indexImportedDocument = internalAction({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args): Promise<void> => {
+    const document = await ctx.runQuery(api.documents.getDocument, { documentId: args.documentId });
+    if (!document) return;
+
+    try {
+      const pages = await ctx.runQuery(api.pages.getPages, { documentId: args.documentId });
+      await rebuildChunks(ctx, args.documentId, pages, document.extractedContent?.outline?.entries || []);
+      await ctx.runMutation(internal.documents.updateDocumentStatus, {
+        documentId: args.documentId,
+        status: "completed",
+      });
+    } catch (error) {
+      console.error(`Indexing imported document ${args.documentId} failed:`, error);
+      await ctx.runMutation(internal.documents.updateDocumentStatus, {
+        documentId: args.documentId,
+        status: "failed",
+        processingError: {
+          stage: "indexing",
+          message: error instanceof Error ? error.message : String(error),
+          attempts: 1,
+          failedAt: Date.now(),
+        },
+      });
+    }
+  },
+});
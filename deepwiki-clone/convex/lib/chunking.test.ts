@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { PAGE_SEPARATOR, PageText, chunkPages, documentBlocks, formatSectionLocation, toPageText } from './chunking'
+
+function documentText(pages: PageText[]): string {
+  return pages.map(page => page.fullText).join(PAGE_SEPARATOR)
+}
+
+const sentence = (n: number) => `Sentence ${n} of the agreement sets out one more obligation of the tenant. `
+
+describe('chunkPages', () => {
+  it('keeps chunk offsets on the text of structured pages', () => {
+    const pages = [
+      toPageText({ pageNumber: 1, headings: [{ text: '1. Rent', level: 1, paragraphIndex: 0 }], paragraphs: ['Rent is due monthly.', 'Late payment costs 5%.'] }),
+      toPageText({ pageNumber: 2, headings: [], paragraphs: ['The deposit is three months of rent.'] }),
+    ]
+    const text = documentText(pages)
+
+    const chunks = chunkPages(pages)
+    expect(chunks.map(chunk => chunk.text)).toEqual(['Rent is due monthly.', 'Late payment costs 5%.', 'The deposit is three months of rent.'])
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+    }
+  })
+
+  it('keeps chunk offsets on the text of pages without a layout', () => {
+    const pages: PageText[] = [
+      { pageNumber: 1, fullText: '  Notice must be given\nin writing.\n\n\nEither party may terminate.' },
+      { pageNumber: 2, fullText: 'Termination takes effect after three months.' },
+    ]
+    const text = documentText(pages)
+
+    const chunks = chunkPages(pages)
+    expect(chunks.map(chunk => [chunk.pageNumber, chunk.paragraphIndex])).toEqual([[1, 0], [1, 1], [2, 0]])
+    for (const chunk of chunks) {
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+    }
+  })
+
+  it('cuts a paragraph that runs over a page break at the break and keeps its section', () => {
+    const pages = [
+      toPageText({ pageNumber: 1, headings: [{ text: '4. Termination', level: 1, paragraphIndex: 0 }], paragraphs: ['Either party may terminate this agreement'] }),
+      toPageText({ pageNumber: 2, headings: [], paragraphs: ['with three months notice in writing.'] }),
+    ]
+
+    const chunks = chunkPages(pages)
+    expect(chunks.map(chunk => chunk.pageNumber)).toEqual([1, 2])
+    expect(chunks.map(chunk => chunk.section)).toEqual([
+      { heading: '4. Termination', level: 1, paragraphIndex: 0 },
+      { heading: '4. Termination', level: 1, paragraphIndex: 1 },
+    ])
+    expect(formatSectionLocation(chunks[1].section!)).toBe('Section 4, paragraph 2')
+  })
+
+  it('splits long paragraphs on sentences into adjacent chunks that do not overlap', () => {
+    const paragraph = Array.from({ length: 12 }, (_, i) => sentence(i + 1)).join('').trim()
+    const pages = [toPageText({ pageNumber: 1, headings: [], paragraphs: ['Preamble.', paragraph] })]
+    const text = documentText(pages)
+
+    const chunks = chunkPages(pages, 300).filter(chunk => chunk.paragraphIndex === 1)
+    expect(chunks.length).toBeGreaterThan(1)
+    chunks.forEach((chunk, i) => {
+      expect(chunk.text.length).toBeLessThanOrEqual(300)
+      expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+      expect(chunk.text).toMatch(/^Sentence \d+/)
+      if (i > 0) expect(chunk.startOffset).toBe(chunks[i - 1].endOffset)
+    })
+    expect(chunks[0].startOffset).toBe(text.indexOf('Sentence 1 '))
+    expect(chunks[chunks.length - 1].endOffset).toBe(text.length)
+  })
+
+  it('hard-cuts a sentence longer than the limit', () => {
+    const pages = [toPageText({ pageNumber: 1, headings: [], paragraphs: ['x'.repeat(250)] })]
+    expect(chunkPages(pages, 100).map(chunk => [chunk.startOffset, chunk.endOffset])).toEqual([[0, 100], [100, 200], [200, 250]])
+  })
+
+  it('splits tables between rows', () => {
+    const rows = Array.from({ length: 6 }, (_, i) => `Unit ${i + 1} | 1,200 EUR | due on the 1st`)
+    const pages = [{ ...toPageText({ pageNumber: 1, headings: [], paragraphs: [rows.join('\n')] }), tables: [{ paragraphIndex: 0 }] }]
+
+    const chunks = chunkPages(pages, 100)
+    expect(chunks.map(chunk => chunk.text.split('\n')[0])).toEqual([rows[0], rows[2], rows[4]])
+    for (const chunk of chunks) {
+      expect(pages[0].fullText.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text)
+    }
+  })
+})
+
+describe('documentBlocks', () => {
+  it('gives headings the index of the paragraph they introduce, as chunks count paragraphs', () => {
+    const pages = [
+      toPageText({ pageNumber: 1, headings: [{ text: 'Scope', level: 1, paragraphIndex: 1 }], paragraphs: ['Intro.', 'Scope text.'] }),
+      toPageText({ pageNumber: 2, headings: [], paragraphs: ['Next page.'] }),
+    ]
+    const text = documentText(pages)
+
+    const blocks = documentBlocks(pages)
+    expect(blocks.map(({ pageNumber, paragraphIndex, text, heading }) => ({ pageNumber, paragraphIndex, text, heading }))).toEqual([
+      { pageNumber: 1, paragraphIndex: 0, text: 'Intro.', heading: undefined },
+      { pageNumber: 1, paragraphIndex: 1, text: 'Scope', heading: true },
+      { pageNumber: 1, paragraphIndex: 1, text: 'Scope text.', heading: undefined },
+      { pageNumber: 2, paragraphIndex: 0, text: 'Next page.', heading: undefined },
+    ])
+    for (const block of blocks) {
+      expect(text.slice(block.offset, block.offset + block.text.length)).toBe(block.text)
+    }
+
+    const chunk = chunkPages(pages).find(chunk => chunk.text === 'Scope text.')
+    expect(chunk?.paragraphIndex).toBe(1)
+  })
+})
@@ -0,0 +1,239 @@
+/**
+ * Splits extracted page text into retrieval chunks.
+ * Shared by the Convex mutations and the client document views.
+ */
+
+import { PageTable } from "./tables";
+
+export interface PageHeading {
+  text: string;
+  // 1 for top-level headings
+  level: number;
+  // Index of the paragraph on the page that follows the heading
+  paragraphIndex: number;
+}
+
+export interface PageText {
+  pageNumber: number;
+  fullText: string;
+  // Reading-order layout, absent for pages stored before it was extracted
+  headings?: PageHeading[];
+  paragraphs?: string[];
+  // Paragraphs that hold a table
+  tables?: Array<Pick<PageTable, "paragraphIndex">>;
+}
+
+// Where a paragraph sits under the nearest heading, e.g. "Section 3.2, paragraph 4"
+export interface SectionLocation {
+  heading: string;
+  level: number;
+  paragraphIndex: number;
+}
+
+export interface ChunkDraft {
+  pageNumber: number;
+  paragraphIndex: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  section?: SectionLocation;
+}
+
+// Pages are joined with this separator when offsets are computed
+export const PAGE_SEPARATOR = "\n\n";
+
+// Most documents one chunk search can be limited to; each is searched separately
+export const MAX_SCOPED_DOCUMENTS = 25;
+
+const MAX_CHUNK_CHARS = 1200;
+
+// Headings are placed before the paragraph they introduce
+function readingOrder(headings: PageHeading[], paragraphs: string[]): Array<{ text: string; heading?: PageHeading }> {
+  const blocks: Array<{ text: string; heading?: PageHeading }> = [];
+  const pushHeadings = (matches: (heading: PageHeading) => boolean) =>
+    headings.filter(matches).forEach(heading => blocks.push({ text: heading.text, heading }));
+
+  paragraphs.forEach((paragraph, index) => {
+    pushHeadings(heading => heading.paragraphIndex === index);
+    blocks.push({ text: paragraph });
+  });
+  pushHeadings(heading => heading.paragraphIndex >= paragraphs.length);
+  return blocks;
+}
+
+// The fullText stored for a structured page
+export function buildPageText(headings: PageHeading[], paragraphs: string[]): string {
+  return readingOrder(headings, paragraphs).map(block => block.text).join(PAGE_SEPARATOR);
+}
+
+// A stored page with the fullText it no longer stores
+export function toPageText<T extends { headings: PageHeading[]; paragraphs: string[] }>(page: T): T & { fullText: string } {
+  return { ...page, fullText: buildPageText(page.headings, page.paragraphs) };
+}
+
+interface PageBlock {
+  text: string;
+  offset: number;
+  heading?: PageHeading;
+}
+
+// Blocks of a page with their offsets into fullText
+function pageBlocks(page: PageText): PageBlock[] {
+  const headings = page.headings || [];
+  const paragraphs = page.paragraphs || [];
+
+  // Structured pages were written by buildPageText, so offsets follow from the block lengths
+  if (paragraphs.length > 0 || headings.length > 0) {
+    let offset = 0;
+    return readingOrder(headings, paragraphs).map(block => {
+      const positioned = { ...block, offset };
+      offset += block.text.length + PAGE_SEPARATOR.length;
+      return positioned;
+    });
+  }
+
+  const paragraphPattern = /[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g;
+  return Array.from(page.fullText.matchAll(paragraphPattern))
+    .filter(match => match[0].trim())
+    .map(match => ({ text: match[0], offset: match.index ?? 0 }));
+}
+
+export function chunkPages(pages: PageText[], maxChars: number = MAX_CHUNK_CHARS): ChunkDraft[] {
+  const chunks: ChunkDraft[] = [];
+  let pageOffset = 0;
+  // Sections continue across page breaks until the next heading
+  let section: SectionLocation | undefined;
+
+  for (const page of pages) {
+    let paragraphIndex = 0;
+    const tableParagraphs = new Set((page.tables || []).map(table => table.paragraphIndex));
+
+    for (const block of pageBlocks(page)) {
+      if (block.heading) {
+        section = { heading: block.heading.text, level: block.heading.level, paragraphIndex: 0 };
+        continue;
+      }
+
+      // Long paragraphs are cut on sentence boundaries, tables between rows, but keep their index
+      const pieces = tableParagraphs.has(paragraphIndex)
+        ? splitTableText(block.text, maxChars)
+        : splitLongText(block.text, maxChars);
+      for (const piece of pieces) {
+        const start = pageOffset + block.offset + piece.offset;
+        chunks.push({
+          pageNumber: page.pageNumber,
+          paragraphIndex,
+          text: piece.text,
+          startOffset: start,
+          endOffset: start + piece.text.length,
+          ...(section && { section: { ...section } }),
+        });
+      }
+      paragraphIndex++;
+      if (section) section.paragraphIndex++;
+    }
+
+    pageOffset += page.fullText.length + PAGE_SEPARATOR.length;
+  }
+
+  return chunks;
+}
+
+// A heading or paragraph in reading order, with its offset into the document text
+export interface DocumentBlock {
+  pageNumber: number;
+  // Headings share the index of the paragraph they introduce
+  paragraphIndex: number;
+  text: string;
+  offset: number;
+  heading?: boolean;
+}
+
+// Unsplit blocks of all pages, e.g. to compare two documents paragraph by paragraph
+export function documentBlocks(pages: PageText[]): DocumentBlock[] {
+  const blocks: DocumentBlock[] = [];
+  let pageOffset = 0;
+
+  for (const page of pages) {
+    let paragraphIndex = 0;
+    for (const block of pageBlocks(page)) {
+      blocks.push({
+        pageNumber: page.pageNumber,
+        paragraphIndex,
+        text: block.text,
+        offset: pageOffset + block.offset,
+        ...(block.heading && { heading: true }),
+      });
+      if (!block.heading) paragraphIndex++;
+    }
+    pageOffset += page.fullText.length + PAGE_SEPARATOR.length;
+  }
+
+  return blocks;
+}
+
+/**
+ * Human-readable location of a paragraph. Numbered headings read as
+ * "Section 3.2, paragraph 4", others by their title.
+ */
+export function formatSectionLocation(section: SectionLocation): string {
+  const numbered = section.heading.match(/^(?:section\s+)?(\d+(?:\.\d+)*)\.?\s/i);
+  const label = numbered ? `Section ${numbered[1]}` : `"${section.heading}"`;
+  return `${label}, paragraph ${section.paragraphIndex + 1}`;
+}
+
+function splitTableText(text: string, maxChars: number): Array<{ text: string; offset: number }> {
+  const pieces: Array<{ text: string; offset: number }> = [];
+  let pieceStart = 0;
+  let lineStart = 0;
+
+  for (const line of text.split("\n")) {
+    const lineEnd = lineStart + line.length;
+    if (lineEnd - pieceStart > maxChars && lineStart > pieceStart) {
+      pieces.push({ text: text.slice(pieceStart, lineStart - 1), offset: pieceStart });
+      pieceStart = lineStart;
+    }
+    lineStart = lineEnd + 1;
+  }
+  pieces.push({ text: text.slice(pieceStart), offset: pieceStart });
+
+  // A single row longer than the limit is cut like prose
+  return pieces.flatMap(piece => splitLongText(piece.text, maxChars)
+    .map(part => ({ text: part.text, offset: piece.offset + part.offset })));
+}
+
+function splitLongText(text: string, maxChars: number): Array<{ text: string; offset: number }> {
+  if (text.length <= maxChars) {
+    return [{ text, offset: 0 }];
+  }
+
+  const pieces: Array<{ text: string; offset: number }> = [];
+  const sentencePattern = /[^.!?]+(?:[.!?]+|$)\s*/g;
+  let pieceStart = 0;
+  let pieceEnd = 0;
+  let match;
+
+  while ((match = sentencePattern.exec(text)) !== null) {
+    if (match[0].length === 0) {
+      sentencePattern.lastIndex++;
+      continue;
+    }
+    const sentenceEnd = match.index + match[0].length;
+    if (sentenceEnd - pieceStart > maxChars && pieceEnd > pieceStart) {
+      pieces.push({ text: text.slice(pieceStart, pieceEnd), offset: pieceStart });
+      pieceStart = pieceEnd;
+    }
+    // A single sentence longer than the limit is hard-cut
+    while (sentenceEnd - pieceStart > maxChars) {
+      pieces.push({ text: text.slice(pieceStart, pieceStart + maxChars), offset: pieceStart });
+      pieceStart += maxChars;
+    }
+    pieceEnd = sentenceEnd;
+  }
+
+  if (pieceEnd > pieceStart) {
+    pieces.push({ text: text.slice(pieceStart, pieceEnd), offset: pieceStart });
+  }
+
+  return pieces;
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest'
+import { KeyConcept, extractKeyConcepts } from './concepts'
+import { PageText } from './chunking'
+
+function page(pageNumber: number, ...paragraphs: string[]): PageText {
+  return { pageNumber, fullText: paragraphs.join('\n\n'), headings: [], paragraphs }
+}
+
+function concept(concepts: KeyConcept[], text: string): KeyConcept | undefined {
+  return concepts.find(candidate => candidate.text === text)
+}
+
+describe('extractKeyConcepts', () => {
+  it('expands acronyms from the words written before them', () => {
+    const concepts = extractKeyConcepts([
+      page(1, 'The project has a positive Net Present Value (NPV) over ten years.'),
+      page(2, 'A higher discount rate lowers the NPV.'),
+    ])
+
+    expect(concept(concepts, 'NPV')).toMatchObject({ type: 'acronym', expansion: 'Net Present Value', pages: [1, 2] })
+  })
+
+  it('counts the spelled-out form of an acronym as the acronym', () => {
+    const concepts = extractKeyConcepts([
+      page(1, 'Returns are measured by the Internal Rate of Return (IRR) of each fund.'),
+      page(3, 'Investors compare the Internal Rate of Return across funds.'),
+    ])
+
+    expect(concept(concepts, 'IRR')).toMatchObject({ expansion: 'Internal Rate of Return', frequency: 3, pages: [1, 3] })
+    expect(concept(concepts, 'Internal Rate of Return')).toBeUndefined()
+  })
+
+  it('keeps acronyms seen once only when they are expanded', () => {
+    const concepts = extractKeyConcepts([page(1, 'Send it to HR by Friday.')])
+    expect(concept(concepts, 'HR')).toBeUndefined()
+  })
+
+  it('ignores roman numerals', () => {
+    const concepts = extractKeyConcepts([page(1, 'See Schedule II and Schedule II again.')])
+    expect(concepts.some(candidate => candidate.type === 'acronym')).toBe(false)
+  })
+
+  it('finds terms defined with "means" and counts their later uses', () => {
+    const concepts = extractKeyConcepts([
+      page(1, '"Effective Date" means the date both parties sign.'),
+      page(2, 'Rent is due from the Effective Date.'),
+    ])
+
+    expect(concept(concepts, 'Effective Date')).toMatchObject({ type: 'defined_term', frequency: 2, pages: [1, 2] })
+    expect(concepts.filter(candidate => candidate.text === 'Effective Date')).toHaveLength(1)
+  })
+
+  it('finds terms defined in parentheses and with hereinafter', () => {
+    const concepts = extractKeyConcepts([
+      page(1, 'Acme Holdings Ltd (the "Landlord") and Jane Doe, hereinafter the "Tenant", agree as follows.'),
+    ])
+
+    expect(concept(concepts, 'Landlord')?.type).toBe('defined_term')
+    expect(concept(concepts, 'Tenant')?.type).toBe('defined_term')
+  })
+
+  it('merges the mentions of an entity across pages', () => {
+    const concepts = extractKeyConcepts([
+      page(1, 'The lease is signed with Acme Holdings today.'),
+      page(2, 'Nothing here names the landlord.'),
+      page(4, 'Payments go to Acme Holdings by transfer.', 'Notices are sent to Acme Holdings in writing.'),
+    ])
+
+    expect(concept(concepts, 'Acme Holdings')).toMatchObject({ type: 'entity', frequency: 3, pages: [1, 4] })
+  })
+
+  it('does not take a capitalized word at the start of a sentence for a name', () => {
+    const concepts = extractKeyConcepts([page(1, 'Payments are due monthly. Payments are late after five days.')])
+    expect(concept(concepts, 'Payments')).toBeUndefined()
+  })
+
+  it('keeps noun phrases that occur more than once', () => {
+    const concepts = extractKeyConcepts([
+      page(1, 'The security deposit is held in trust.'),
+      page(2, 'The security deposit is returned at the end.'),
+    ])
+
+    expect(concept(concepts, 'security deposit')).toMatchObject({ type: 'noun_phrase', frequency: 2, pages: [1, 2] })
+  })
+})
@@ -0,0 +1,333 @@
+/**
+ * Offline key concept extraction.
+ * Finds acronyms with their expansions, defined terms, named entities and
+ * noun phrases in the extracted pages without calling a model.
+ */
+
+import { PageText } from "./chunking";
+
+export type ConceptType = "acronym" | "defined_term" | "entity" | "noun_phrase";
+
+export interface KeyConcept {
+  text: string;
+  type: ConceptType;
+  frequency: number;
+  pages: number[];
+  // Long form of an acronym, e.g. "Net Present Value" for NPV
+  expansion?: string;
+}
+
+const MAX_CONCEPTS = 50;
+const MAX_PHRASE_WORDS = 3;
+
+// Function words and common verbs end a noun phrase
+const STOPWORDS = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "also", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by",
+  "can", "could", "did", "do", "does", "doing", "down", "during", "each", "either", "et", "etc",
+  "few", "for", "from", "further", "had", "has", "have", "having", "he", "her", "here", "his", "how", "however",
+  "i", "if", "in", "into", "is", "it", "its", "made", "make", "makes", "many", "may", "me", "might", "more", "most",
+  "much", "must", "my", "neither", "no", "nor", "not", "of", "off", "on", "once", "one", "only", "or", "other", "our",
+  "out", "over", "own", "per", "said", "same", "say", "says", "see", "shall", "she", "should", "show", "shows", "so",
+  "some", "such", "than", "that", "the", "their", "them", "then", "there", "therefore", "these", "they", "this",
+  "those", "through", "thus", "to", "too", "two", "under", "until", "up", "upon", "us", "use", "used", "uses",
+  "using", "very", "via", "was", "we", "well", "were", "what", "when", "where", "whether", "which", "while", "who",
+  "whom", "why", "will", "with", "within", "without", "would", "yet", "you", "your",
+]);
+
+// Lowercase words allowed inside a name, e.g. "Bank of England"
+const NAME_CONNECTORS = new Set(["of", "and", "for", "the", "de", "la", "du", "van", "von", "&"]);
+
+const ROMAN_NUMERAL = /^[IVXLCDM]+$/;
+
+const DEFINED_TERM_PATTERNS = [
+  // hereinafter the "Agreement", hereinafter referred to as 'the Seller'
+  /\b(?:hereinafter|hereafter)\s*,?\s*(?:referred\s+to\s+as\s+|called\s+)?(?:the\s+)?["“'‘]([^"”'’]{2,60})["”'’]/gi,
+  // (the "Company")
+  /\(\s*(?:the\s+|each\s+a\s+|an?\s+)?["“]([^"”]{2,60})["”]\s*\)/gi,
+  // "Effective Date" means
+  /["“]([^"”]{2,60})["”]\s+(?:means|shall\s+mean|refers\s+to|is\s+defined\s+as)\b/gi,
+];
+
+const ACRONYM_DEFINITION = /\(([A-Z][A-Za-z]*[A-Z][A-Za-z0-9&]*?)s?\)/g;
+const ACRONYM = /\b[A-Z][A-Z0-9&]*[A-Z][A-Z0-9&]*(?=s?\b)/g;
+
+interface Candidate {
+  text: string;
+  type: ConceptType;
+  frequency: number;
+  pages: Set<number>;
+  expansion?: string;
+}
+
+// Body text of a page; headings are left out so title words do not count as entities
+function pageBody(page: PageText): string[] {
+  return page.paragraphs?.length ? page.paragraphs : [page.fullText];
+}
+
+class ConceptCollector {
+  private candidates = new Map<string, Candidate>();
+
+  add(type: ConceptType, text: string, pageNumber: number, key: string = text) {
+    const id = `${type}:${key}`;
+    const existing = this.candidates.get(id);
+    if (existing) {
+      existing.frequency++;
+      existing.pages.add(pageNumber);
+    } else {
+      this.candidates.set(id, { text, type, frequency: 1, pages: new Set([pageNumber]) });
+    }
+  }
+
+  get(type: ConceptType, key: string): Candidate | undefined {
+    return this.candidates.get(`${type}:${key}`);
+  }
+
+  remove(type: ConceptType, key: string) {
+    this.candidates.delete(`${type}:${key}`);
+  }
+
+  all(): Candidate[] {
+    return Array.from(this.candidates.values());
+  }
+}
+
+/**
+ * Finds the long form written before "(ACRONYM)": the shortest run of
+ * preceding words that starts with the first letter and contains the
+ * remaining letters in order (Schwartz and Hearst).
+ */
+function findExpansion(acronym: string, before: string): string | undefined {
+  const letters = acronym.toLowerCase().replace(/[^a-z0-9]/g, "");
+  const clause = before.split(/[.;:!?()\[\]]/).pop() || "";
+  const words = clause.trim().split(/\s+/).filter(Boolean)
+    .slice(-Math.min(letters.length + 5, letters.length * 2));
+
+  for (let start = words.length - 1; start >= 0; start--) {
+    const phrase = words.slice(start).join(" ").replace(/[,"“”']+$/, "");
+    const lower = phrase.toLowerCase();
+    if (lower[0] !== letters[0]) continue;
+
+    let position = 1;
+    const inOrder = Array.from(letters.slice(1)).every(letter => {
+      position = lower.indexOf(letter, position) + 1;
+      return position > 0;
+    });
+    if (inOrder) return phrase;
+  }
+  return undefined;
+}
+
+function collectDefinedTerms(pages: PageText[], collector: ConceptCollector) {
+  const terms = new Set<string>();
+  for (const page of pages) {
+    for (const text of pageBody(page)) {
+      for (const pattern of DEFINED_TERM_PATTERNS) {
+        for (const match of text.matchAll(pattern)) {
+          const term = match[1].trim();
+          if (term) terms.add(term);
+        }
+      }
+    }
+  }
+
+  // Every later use of a defined term counts, not just the definition
+  for (const term of terms) {
+    const usage = new RegExp(`\\b${term.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}\\b`, "g");
+    for (const page of pages) {
+      for (const text of pageBody(page)) {
+        for (const _ of text.matchAll(usage)) collector.add("defined_term", term, page.pageNumber);
+      }
+    }
+  }
+}
+
+function collectAcronyms(pages: PageText[], collector: ConceptCollector) {
+  const expansions = new Map<string, string>();
+  for (const page of pages) {
+    for (const text of pageBody(page)) {
+      for (const match of text.matchAll(ACRONYM_DEFINITION)) {
+        const acronym = match[1];
+        if (expansions.has(acronym)) continue;
+        const expansion = findExpansion(acronym, text.slice(0, match.index));
+        if (expansion) expansions.set(acronym, expansion);
+      }
+    }
+  }
+
+  for (const page of pages) {
+    for (const text of pageBody(page)) {
+      for (const match of text.matchAll(ACRONYM)) {
+        if (ROMAN_NUMERAL.test(match[0])) continue;
+        collector.add("acronym", match[0], page.pageNumber);
+      }
+    }
+  }
+
+  expansions.forEach((expansion, acronym) => {
+    const candidate = collector.get("acronym", acronym);
+    if (candidate) candidate.expansion = expansion;
+  });
+}
+
+interface Word {
+  text: string;
+  // First word of a sentence, where capitals say nothing about names
+  sentenceStart: boolean;
+  // Punctuation between this word and the next
+  breakAfter: boolean;
+}
+
+function splitWords(text: string): Word[] {
+  const words: Word[] = [];
+  const pattern = /([\p{L}][\p{L}\p{N}'’&-]*|\p{N}[\p{N}.,]*)|([.!?;:,()"“”\[\]]+)/gu;
+  let sentenceStart = true;
+
+  for (const match of text.matchAll(pattern)) {
+    if (match[2]) {
+      if (words.length > 0) words[words.length - 1].breakAfter = true;
+      if (/[.!?:]/.test(match[2])) sentenceStart = true;
+      continue;
+    }
+    words.push({ text: match[1].replace(/['’]s$/, ""), sentenceStart, breakAfter: false });
+    sentenceStart = false;
+  }
+  return words;
+}
+
+const isCapitalized = (word: string) => /^\p{Lu}/u.test(word) && !/^\p{Lu}[\p{Lu}\p{N}&]+$/u.test(word);
+
+function collectEntities(page: PageText, words: Word[], collector: ConceptCollector) {
+  let i = 0;
+  while (i < words.length) {
+    if (!isCapitalized(words[i].text)) {
+      i++;
+      continue;
+    }
+
+    // Extend over capitalized words and connectors followed by another capitalized word
+    let end = i + 1;
+    while (end < words.length && !words[end - 1].breakAfter) {
+      if (isCapitalized(words[end].text)) {
+        end++;
+      } else if (
+        NAME_CONNECTORS.has(words[end].text) &&
+        !words[end].breakAfter &&
+        end + 1 < words.length &&
+        isCapitalized(words[end + 1].text)
+      ) {
+        end += 2;
+      } else {
+        break;
+      }
+    }
+
+    let start = i;
+    // "The Company" at the start of a sentence is "Company"
+    while (start < end && STOPWORDS.has(words[start].text.toLowerCase())) start++;
+    const name = words.slice(start, end).map(word => word.text);
+
+    // A lone capitalized word at the start of a sentence is not evidence of a name
+    if (name.length > 1 || (name.length === 1 && !words[start].sentenceStart && name[0].length > 2)) {
+      collector.add("entity", name.join(" "), page.pageNumber);
+    }
+    i = end;
+  }
+}
+
+function collectNounPhrases(page: PageText, words: Word[], collector: ConceptCollector) {
+  let phrase: string[] = [];
+
+  const flush = () => {
+    if (phrase.length >= 2 && phrase.length <= MAX_PHRASE_WORDS) {
+      const text = phrase.join(" ");
+      collector.add("noun_phrase", text, page.pageNumber);
+    }
+    phrase = [];
+  };
+
+  for (const word of words) {
+    const lower = word.text.toLowerCase();
+    const isContentWord =
+      /^\p{Ll}[\p{Ll}-]{2,}$/u.test(word.text) &&
+      !STOPWORDS.has(lower) &&
+      !lower.endsWith("ly");
+
+    if (isContentWord) {
+      phrase.push(lower);
+    } else {
+      flush();
+    }
+    if (word.breakAfter) flush();
+  }
+  flush();
+}
+
+// Kept candidates need enough evidence for their type
+function isSignificant(candidate: Candidate): boolean {
+  switch (candidate.type) {
+    case "defined_term":
+      return true;
+    case "acronym":
+      return Boolean(candidate.expansion) || candidate.frequency >= 2;
+    case "entity":
+      return candidate.frequency >= 2 || candidate.text.includes(" ");
+    case "noun_phrase":
+      return candidate.frequency >= 2;
+  }
+}
+
+const TYPE_WEIGHT: Record<ConceptType, number> = {
+  defined_term: 3,
+  acronym: 2.5,
+  entity: 2,
+  noun_phrase: 1,
+};
+
+export function extractKeyConcepts(pages: PageText[], limit: number = MAX_CONCEPTS): KeyConcept[] {
+  const collector = new ConceptCollector();
+
+  collectDefinedTerms(pages, collector);
+  collectAcronyms(pages, collector);
+  for (const page of pages) {
+    for (const text of pageBody(page)) {
+      const words = splitWords(text);
+      collectEntities(page, words, collector);
+      collectNounPhrases(page, words, collector);
+    }
+  }
+
+  // An entity or phrase spelled out by an acronym or a defined term is the same concept
+  for (const candidate of collector.all()) {
+    if (candidate.type === "acronym" && candidate.expansion) {
+      const spellings: Array<[ConceptType, string]> = [
+        ["entity", candidate.expansion],
+        ["noun_phrase", candidate.expansion.toLowerCase()],
+      ];
+      for (const [type, key] of spellings) {
+        const spelledOut = collector.get(type, key);
+        if (!spelledOut) continue;
+        candidate.frequency += spelledOut.frequency;
+        spelledOut.pages.forEach(page => candidate.pages.add(page));
+        collector.remove(type, key);
+      }
+    }
+    if (candidate.type === "defined_term") {
+      collector.remove("entity", candidate.text);
+      collector.remove("noun_phrase", candidate.text.toLowerCase());
+    }
+  }
+
+  return collector.all()
+    .filter(isSignificant)
+    .map(candidate => ({ candidate, score: candidate.frequency * TYPE_WEIGHT[candidate.type] }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ candidate }) => ({
+      text: candidate.text,
+      type: candidate.type,
+      frequency: candidate.frequency,
+      pages: Array.from(candidate.pages).sort((a, b) => a - b),
+      ...(candidate.expansion && { expansion: candidate.expansion }),
+    }));
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import { DiffHunk, alignPages, diffDocuments, summarizeDiff } from './diff'
+import { PageText, chunkPages, toPageText } from './chunking'
+
+function page(pageNumber: number, paragraphs: string[]): PageText {
+  return { pageNumber, fullText: paragraphs.join('\n\n') }
+}
+
+function describeHunks(hunks: DiffHunk[]): string[] {
+  return hunks.map(hunk => `${hunk.type} ${(hunk.after ?? hunk.before)!.text}`)
+}
+
+// Length of the longest common subsequence, from the full table
+function lcsLength(a: string[], b: string[]): number {
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+    }
+  }
+  return lengths[0][0]
+}
+
+describe('diffDocuments', () => {
+  it('matches identical documents paragraph by paragraph', () => {
+    const pages = [page(1, ['One', 'Two']), page(2, ['Three'])]
+    expect(summarizeDiff(diffDocuments(pages, pages))).toEqual({ inserted: 0, deleted: 0, moved: 0, unchanged: 3 })
+  })
+
+  it('ignores differences in whitespace', () => {
+    const hunks = diffDocuments([page(1, ['The  term\nis two years'])], [page(1, ['The term is two years'])])
+    expect(hunks.map(hunk => hunk.type)).toEqual(['equal'])
+  })
+
+  it('finds insertions and deletions between unchanged paragraphs', () => {
+    const hunks = diffDocuments(
+      [page(1, ['A', 'B', 'C', 'D'])],
+      [page(1, ['A', 'C', 'X', 'D'])]
+    )
+    expect(describeHunks(hunks)).toEqual(['equal A', 'delete B', 'equal C', 'insert X', 'equal D'])
+  })
+
+  it('puts deletions before the insertions that replace them', () => {
+    const hunks = diffDocuments(
+      [page(1, ['A', 'B1', 'B2', 'C'])],
+      [page(1, ['A', 'X1', 'X2', 'C'])]
+    )
+    expect(describeHunks(hunks)).toEqual(['equal A', 'delete B1', 'delete B2', 'insert X1', 'insert X2', 'equal C'])
+  })
+
+  it('reports a paragraph that reappears elsewhere as moved', () => {
+    const hunks = diffDocuments(
+      [page(1, ['Intro', 'Payment', 'Term', 'Notices'])],
+      [page(1, ['Intro', 'Term', 'Notices', 'Payment'])]
+    )
+    expect(summarizeDiff(hunks)).toEqual({ inserted: 0, deleted: 0, moved: 1, unchanged: 3 })
+    expect(hunks[hunks.length - 1]).toMatchObject({ type: 'move', before: { text: 'Payment' }, after: { text: 'Payment' } })
+  })
+
+  it('numbers paragraphs the way chunks do, skipping headings', () => {
+    const structured = toPageText({
+      pageNumber: 1,
+      headings: [{ text: '1. Scope', level: 1, paragraphIndex: 0 }, { text: '2. Term', level: 1, paragraphIndex: 2 }],
+      paragraphs: ['First', 'Second', 'Third'],
+    })
+    const hunks = diffDocuments([], [structured])
+    const paragraphs = hunks.filter(hunk => !hunk.after!.heading)
+
+    expect(paragraphs.map(hunk => [hunk.after!.paragraphIndex, hunk.after!.offset])).toEqual(
+      chunkPages([structured]).map(chunk => [chunk.paragraphIndex, chunk.startOffset])
+    )
+  })
+
+  it('handles documents without text', () => {
+    expect(diffDocuments([], [page(1, ['New'])]).map(hunk => hunk.type)).toEqual(['insert'])
+    expect(diffDocuments([page(1, ['Old'])], []).map(hunk => hunk.type)).toEqual(['delete'])
+    expect(diffDocuments([], [])).toEqual([])
+  })
+
+  it('keeps as many paragraphs unchanged as the longest common subsequence', () => {
+    // Deterministic pseudo-random documents over a small alphabet, so paragraphs repeat
+    let seed = 7
+    const random = () => (seed = (seed * 1103515245 + 12345) % 2147483648) / 2147483648
+    const paragraphs = (count: number) => Array.from({ length: count }, () => 'ABCDE'[Math.floor(random() * 5)])
+
+    for (let run = 0; run < 50; run++) {
+      const before = paragraphs(Math.floor(random() * 20))
+      const after = paragraphs(Math.floor(random() * 20))
+      const hunks = diffDocuments([page(1, before)], [page(1, after)])
+
+      const unchanged = hunks.filter(hunk => hunk.type === 'equal').length
+      const moved = hunks.filter(hunk => hunk.type === 'move').length
+      expect(unchanged).toBe(lcsLength(before, after))
+      // Every paragraph of both documents is accounted for once
+      expect(hunks.filter(hunk => hunk.before).length).toBe(before.length)
+      expect(hunks.filter(hunk => hunk.after).length).toBe(after.length)
+      expect(hunks.filter(hunk => hunk.type === 'delete').length + moved + unchanged).toBe(before.length)
+    }
+  })
+})
+
+describe('alignPages', () => {
+  it('lines each later page up with the earlier pages its text came from', () => {
+    const hunks = diffDocuments(
+      [page(1, ['A', 'B']), page(2, ['C'])],
+      [page(1, ['A']), page(2, ['B', 'C', 'D'])]
+    )
+    const pages = alignPages(hunks)
+    expect(pages.map(({ afterPage, beforePages }) => ({ afterPage, beforePages }))).toEqual([
+      { afterPage: 1, beforePages: [1] },
+      { afterPage: 2, beforePages: [1, 2] },
+    ])
+  })
+})
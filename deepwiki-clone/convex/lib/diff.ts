@@ -0,0 +1,230 @@
+/**
+ * Paragraph-level comparison of two documents, e.g. two versions of a contract.
+ * Paragraphs are matched on their text with whitespace collapsed. A deleted
+ * paragraph that reappears unchanged elsewhere counts as moved.
+ */
+
+import { DocumentBlock, PageText, documentBlocks } from "./chunking";
+
+export type ChangeType = "insert" | "delete" | "move";
+
+export const CHANGE_LABELS: Record<ChangeType, string> = {
+  insert: "Inserted",
+  delete: "Deleted",
+  move: "Moved",
+};
+
+export interface DiffHunk {
+  type: "equal" | ChangeType;
+  // The block in the earlier document, absent for insertions
+  before?: DocumentBlock;
+  // The block in the later document, absent for deletions
+  after?: DocumentBlock;
+}
+
+// A page of the later document next to the earlier pages its text lines up with
+export interface PageDiff {
+  // Absent for text deleted before the first page of the later document
+  afterPage?: number;
+  beforePages: number[];
+  hunks: DiffHunk[];
+}
+
+export interface DiffSummary {
+  inserted: number;
+  deleted: number;
+  moved: number;
+  unchanged: number;
+}
+
+function normalize(text: string): string {
+  return text.replace(/\s+/g, " ").trim();
+}
+
+// Hunks in the order of the later document, deletions where they were removed
+export function diffDocuments(before: PageText[], after: PageText[]): DiffHunk[] {
+  const a = documentBlocks(before);
+  const b = documentBlocks(after);
+  const keysA = a.map(block => normalize(block.text));
+  const keysB = b.map(block => normalize(block.text));
+
+  // Unchanged text at either end is matched without the quadratic search
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && keysA[prefix] === keysB[prefix]) prefix++;
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    keysA[a.length - 1 - suffix] === keysB[b.length - 1 - suffix]
+  ) suffix++;
+
+  const hunks: DiffHunk[] = [];
+  for (let i = 0; i < prefix; i++) {
+    hunks.push({ type: "equal", before: a[i], after: b[i] });
+  }
+  const ids = new Map<string, number>();
+  const toId = (key: string) => {
+    if (!ids.has(key)) ids.set(key, ids.size);
+    return ids.get(key)!;
+  };
+  const diff = { a, b, idsA: keysA.map(toId), idsB: keysB.map(toId) };
+  hunks.push(...deletionsFirst(commonSubsequence(diff, prefix, a.length - suffix, prefix, b.length - suffix)));
+  for (let i = suffix; i > 0; i--) {
+    hunks.push({ type: "equal", before: a[a.length - i], after: b[b.length - i] });
+  }
+
+  return detectMoves(hunks);
+}
+
+interface DiffInput {
+  a: DocumentBlock[];
+  b: DocumentBlock[];
+  // Block texts numbered so equal texts have equal ids
+  idsA: number[];
+  idsB: number[];
+}
+
+/**
+ * Hirschberg's divide and conquer over a[aStart..aEnd) and b[bStart..bEnd):
+ * the longest common subsequence in quadratic time but linear memory, so
+ * long documents do not need a table of every pair of blocks.
+ */
+function commonSubsequence(diff: DiffInput, aStart: number, aEnd: number, bStart: number, bEnd: number): DiffHunk[] {
+  const { a, b, idsA, idsB } = diff;
+  const hunks: DiffHunk[] = [];
+
+  if (aEnd - aStart <= 1) {
+    const match = aStart < aEnd ? idsB.indexOf(idsA[aStart], bStart) : -1;
+    const matched = match !== -1 && match < bEnd;
+    if (aStart < aEnd && !matched) hunks.push({ type: "delete", before: a[aStart] });
+    for (let j = bStart; j < bEnd; j++) {
+      hunks.push(matched && j === match ? { type: "equal", before: a[aStart], after: b[j] } : { type: "insert", after: b[j] });
+    }
+    return hunks;
+  }
+  if (bStart === bEnd) {
+    for (let i = aStart; i < aEnd; i++) hunks.push({ type: "delete", before: a[i] });
+    return hunks;
+  }
+
+  // Split b where the halves of a share the most with its two sides
+  const middle = Math.floor((aStart + aEnd) / 2);
+  const forward = prefixLengths(idsA, aStart, middle, idsB, bStart, bEnd, false);
+  const backward = prefixLengths(idsA, middle, aEnd, idsB, bStart, bEnd, true);
+  const width = bEnd - bStart;
+  let split = 0;
+  for (let k = 1; k <= width; k++) {
+    if (forward[k] + backward[width - k] > forward[split] + backward[width - split]) split = k;
+  }
+
+  return [
+    ...commonSubsequence(diff, aStart, middle, bStart, bStart + split),
+    ...commonSubsequence(diff, middle, aEnd, bStart + split, bEnd),
+  ];
+}
+
+/**
+ * lengths[k] is the length of the common subsequence of idsA[aStart..aEnd)
+ * and the first k ids of idsB[bStart..bEnd), or the last k when reversed.
+ * Only two rows are kept.
+ */
+function prefixLengths(
+  idsA: number[],
+  aStart: number,
+  aEnd: number,
+  idsB: number[],
+  bStart: number,
+  bEnd: number,
+  reversed: boolean
+): Uint32Array {
+  const width = bEnd - bStart;
+  let previous = new Uint32Array(width + 1);
+  let current = new Uint32Array(width + 1);
+
+  for (let step = 0; step < aEnd - aStart; step++) {
+    const id = idsA[reversed ? aEnd - 1 - step : aStart + step];
+    for (let k = 1; k <= width; k++) {
+      current[k] = id === idsB[reversed ? bEnd - k : bStart + k - 1]
+        ? previous[k - 1] + 1
+        : Math.max(previous[k], current[k - 1]);
+    }
+    [previous, current] = [current, previous];
+  }
+  return previous;
+}
+
+// Within a replaced run, deletions come before the insertions replacing them
+function deletionsFirst(hunks: DiffHunk[]): DiffHunk[] {
+  const ordered: DiffHunk[] = [];
+  let run: DiffHunk[] = [];
+  const flush = () => {
+    ordered.push(...run.filter(hunk => hunk.type === "delete"), ...run.filter(hunk => hunk.type === "insert"));
+    run = [];
+  };
+
+  for (const hunk of hunks) {
+    if (hunk.type === "equal") {
+      flush();
+      ordered.push(hunk);
+    } else {
+      run.push(hunk);
+    }
+  }
+  flush();
+  return ordered;
+}
+
+// Pairs deletions with insertions of the same text; the move stays where the text was inserted
+function detectMoves(hunks: DiffHunk[]): DiffHunk[] {
+  const insertions = new Map<string, number[]>();
+  hunks.forEach((hunk, index) => {
+    if (hunk.type !== "insert") return;
+    const key = normalize(hunk.after!.text);
+    insertions.set(key, [...(insertions.get(key) || []), index]);
+  });
+
+  const moved = new Set<number>();
+  const result = hunks.map(hunk => ({ ...hunk }));
+  hunks.forEach((hunk, index) => {
+    if (hunk.type !== "delete") return;
+    const target = insertions.get(normalize(hunk.before!.text))?.shift();
+    if (target === undefined) return;
+    result[target] = { type: "move", before: hunk.before, after: hunks[target].after };
+    moved.add(index);
+  });
+
+  return result.filter((_, index) => !moved.has(index));
+}
+
+// Groups hunks by page of the later document for a side-by-side view
+export function alignPages(hunks: DiffHunk[]): PageDiff[] {
+  const pages: PageDiff[] = [];
+  let current: PageDiff | undefined;
+
+  for (const hunk of hunks) {
+    const afterPage = hunk.after?.pageNumber ?? current?.afterPage;
+    if (!current || current.afterPage !== afterPage) {
+      current = { afterPage, beforePages: [], hunks: [] };
+      pages.push(current);
+    }
+    current.hunks.push(hunk);
+
+    // Moved text came from elsewhere, so it does not line the pages up
+    const beforePage = hunk.type === "move" ? undefined : hunk.before?.pageNumber;
+    if (beforePage !== undefined && !current.beforePages.includes(beforePage)) {
+      current.beforePages.push(beforePage);
+    }
+  }
+
+  return pages;
+}
+
+export function summarizeDiff(hunks: DiffHunk[]): DiffSummary {
+  const count = (type: DiffHunk["type"]) => hunks.filter(hunk => hunk.type === type).length;
+  return {
+    inserted: count("insert"),
+    deleted: count("delete"),
+    moved: count("move"),
+    unchanged: count("equal"),
+  };
+}
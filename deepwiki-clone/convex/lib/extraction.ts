@@ -0,0 +1,191 @@
+import { Infer } from "convex/values";
+import { extractedContent, extractedPage } from "../schema";
+import { PAGE_SEPARATOR, PageHeading, toPageText } from "./chunking";
+import { extractKeyConcepts } from "./concepts";
+import { buildOutline } from "./outline";
+import { PageTable, TableBoundingBox, tableText } from "./tables";
+
+// A heading, paragraph or table detected by the PDF processor
+export interface LayoutBlock {
+  type: "heading" | "paragraph" | "table";
+  text: string;
+  // Heading depth, 1 for top-level headings
+  level?: number;
+  // Position of a table in the processor's tables list
+  table_index?: number;
+}
+
+// A table as returned by the PDF processor, see PDFTable in lib/pdf-service.ts
+export interface ProcessorTable {
+  page_number: number;
+  header: string[];
+  rows: string[][];
+  // Only PDF tables have a position
+  bbox?: {
+    x0: number;
+    top: number;
+    x1: number;
+    bottom: number;
+    page_width: number;
+    page_height: number;
+  };
+}
+
+// A word on a PDF page, in points from the top-left corner
+export interface ProcessorWord {
+  text: string;
+  x0: number;
+  top: number;
+  x1: number;
+  bottom: number;
+}
+
+// A page as returned by the PDF processor, see PDFExtractedContent in lib/pdf-service.ts.
+// Formats without pages are split into logical pages.
+export interface ProcessorSection {
+  page_number: number;
+  content: string;
+  // Reading order; processors without layout detection only send content
+  blocks?: LayoutBlock[];
+  // Set when the page could not be read
+  error?: string;
+  // Set by the ingestion action for pages read by the processor's OCR endpoint
+  ocr_confidence?: number;
+  // Only PDF pages have word positions
+  words?: ProcessorWord[];
+  page_width?: number;
+  page_height?: number;
+}
+
+function toBoundingBox(bbox: NonNullable<ProcessorTable["bbox"]>): TableBoundingBox {
+  return {
+    x0: bbox.x0,
+    top: bbox.top,
+    x1: bbox.x1,
+    bottom: bbox.bottom,
+    pageWidth: bbox.page_width,
+    pageHeight: bbox.page_height,
+  };
+}
+
+function toPageLayout(
+  section: ProcessorSection,
+  processorTables: ProcessorTable[]
+): { headings: PageHeading[]; paragraphs: string[]; tables: PageTable[] } {
+  const headings: PageHeading[] = [];
+  const paragraphs: string[] = [];
+  const tables: PageTable[] = [];
+  const blocks = section.blocks ?? section.content
+    .split(/\n\s*\n/)
+    .map((text): LayoutBlock => ({ type: "paragraph", text }));
+
+  for (const block of blocks) {
+    const table = block.type === "table" && block.table_index !== undefined
+      ? processorTables[block.table_index]
+      : undefined;
+    if (table) {
+      const text = tableText(table.header, table.rows);
+      if (!text.trim()) continue;
+      tables.push({
+        paragraphIndex: paragraphs.length,
+        header: table.header,
+        rows: table.rows,
+        ...(table.bbox && { bbox: toBoundingBox(table.bbox) }),
+      });
+      paragraphs.push(text);
+      continue;
+    }
+
+    // Blank lines separate blocks in fullText, so they cannot appear inside one
+    const text = block.text.replace(/\n\s*\n/g, "\n").trim();
+    if (!text) continue;
+
+    if (block.type === "heading") {
+      headings.push({ text, level: block.level ?? 1, paragraphIndex: paragraphs.length });
+    } else {
+      paragraphs.push(text);
+    }
+  }
+
+  return { headings, paragraphs, tables };
+}
+
+// Pages read by the processor's OCR endpoint, see OCRResult in lib/pdf-service.ts
+export interface ProcessorOcrResult {
+  pages: Array<{
+    page_number: number;
+    content: string;
+    blocks: LayoutBlock[];
+    // Mean word confidence from 0 to 100
+    confidence: number;
+    words: ProcessorWord[];
+    page_width: number;
+    page_height: number;
+  }>;
+  // ISO 639-1 code, empty when it could not be detected
+  language: string;
+}
+
+// A bookmark from the PDF's embedded outline
+export interface ProcessorOutlineEntry {
+  title: string;
+  level: number;
+  page_number: number;
+}
+
+export type ExtractedPage = Infer<typeof extractedPage>;
+
+// The rows of the pages table and the summary kept on the document
+export interface ExtractedDocument {
+  pages: ExtractedPage[];
+  content: Infer<typeof extractedContent>;
+}
+
+// Word, sentence and paragraph counts of the joined page texts
+export function documentStats(pageTexts: string[]): Infer<typeof extractedContent>["stats"] {
+  const text = pageTexts.join(PAGE_SEPARATOR);
+  return {
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    sentenceCount: (text.match(/[.!?]+(\s|$)/g) || []).length,
+    paragraphCount: text.split(/\n\s*\n/).filter(paragraph => paragraph.trim()).length,
+  };
+}
+
+// Stores the PDF processor output in the shape of the pages and documents tables
+export function toExtractedContent(content: {
+  sections: ProcessorSection[];
+  outline?: ProcessorOutlineEntry[];
+  tables?: ProcessorTable[];
+}): ExtractedDocument {
+  const pages = content.sections.map((section): ExtractedPage => {
+    const { headings, paragraphs, tables } = toPageLayout(section, content.tables || []);
+    return {
+      pageNumber: section.page_number,
+      headings,
+      paragraphs,
+      ...(section.ocr_confidence !== undefined && { ocrConfidence: section.ocr_confidence }),
+      ...(tables.length > 0 && { tables }),
+    };
+  });
+  const pageTexts = pages.map(toPageText);
+
+  const bookmarks = content.outline?.map(entry => ({
+    title: entry.title.trim(),
+    level: entry.level,
+    pageNumber: entry.page_number,
+  }));
+  const outline = buildOutline(bookmarks, pageTexts);
+  const ocrPages = pages.flatMap(page =>
+    page.ocrConfidence !== undefined ? [{ pageNumber: page.pageNumber, confidence: page.ocrConfidence }] : []
+  );
+
+  return {
+    pages,
+    content: {
+      keyConcepts: extractKeyConcepts(pageTexts),
+      ...(outline && { outline }),
+      stats: documentStats(pageTexts.map(page => page.fullText)),
+      ...(ocrPages.length > 0 && { ocrPages }),
+    },
+  };
+}
@@ -0,0 +1,46 @@
+/**
+ * Document formats the processor has an adapter for.
+ * metadata.mimeType picks the adapter during ingestion and the icon in the document list.
+ */
+
+export interface DocumentFormat {
+  mimeType: string;
+  label: string;
+  icon: string;
+  extensions: string[];
+}
+
+export const PDF_MIME_TYPE = "application/pdf";
+
+export const DOCUMENT_FORMATS: DocumentFormat[] = [
+  { mimeType: PDF_MIME_TYPE, label: "PDF", icon: "📄", extensions: [".pdf"] },
+  {
+    mimeType: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+    label: "Word",
+    icon: "📘",
+    extensions: [".docx"],
+  },
+  { mimeType: "application/epub+zip", label: "EPUB", icon: "📚", extensions: [".epub"] },
+  { mimeType: "text/html", label: "HTML", icon: "🌐", extensions: [".html", ".htm"] },
+  { mimeType: "text/markdown", label: "Markdown", icon: "📝", extensions: [".md", ".markdown"] },
+  { mimeType: "text/plain", label: "Text", icon: "📃", extensions: [".txt"] },
+];
+
+// For the accept attribute of file inputs
+export const ACCEPTED_FILE_TYPES = DOCUMENT_FORMATS
+  .flatMap(format => [format.mimeType, ...format.extensions])
+  .join(",");
+
+export function getDocumentFormat(mimeType: string): DocumentFormat | undefined {
+  return DOCUMENT_FORMATS.find(format => format.mimeType === mimeType);
+}
+
+/**
+ * The supported MIME type of a file. Browsers report no type, or a generic
+ * one, for formats like Markdown, so the extension is checked as well.
+ */
+export function resolveMimeType(filename: string, mimeType: string): string | undefined {
+  if (getDocumentFormat(mimeType)) return mimeType;
+  const extension = filename.slice(filename.lastIndexOf(".")).toLowerCase();
+  return DOCUMENT_FORMATS.find(format => format.extensions.includes(extension))?.mimeType;
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import { OutlineEntry, buildOutline, inferOutline, outlinePath } from './outline'
+import { PageHeading, PageText, buildPageText } from './chunking'
+
+function page(pageNumber: number, headings: PageHeading[], paragraphs: string[]): PageText {
+  return { pageNumber, fullText: buildPageText(headings, paragraphs), headings, paragraphs }
+}
+
+const heading = (text: string, level: number, paragraphIndex: number): PageHeading => ({ text, level, paragraphIndex })
+
+describe('inferOutline', () => {
+  it('moves headings up when a level is skipped', () => {
+    const entries = inferOutline([
+      page(1, [heading('1 Scope', 1, 0), heading('1.1.1 Detail', 3, 1)], ['a', 'b']),
+      page(2, [heading('1.1.2 More detail', 3, 0), heading('1.2 Terms', 2, 1)], ['c', 'd']),
+    ])
+    expect(entries.map(entry => [entry.title, entry.level])).toEqual([
+      ['1 Scope', 1],
+      ['1.1.1 Detail', 2],
+      ['1.1.2 More detail', 2],
+      ['1.2 Terms', 2],
+    ])
+  })
+
+  it('makes the first heading top-level whatever its level', () => {
+    const entries = inferOutline([page(1, [heading('Overview', 2, 0), heading('Background', 3, 1)], ['a', 'b'])])
+    expect(entries.map(entry => entry.level)).toEqual([1, 2])
+  })
+
+  it('collapses whitespace in titles', () => {
+    const [entry] = inferOutline([page(1, [heading('Terms  and\nConditions', 1, 0)], ['a'])])
+    expect(entry.title).toBe('Terms and Conditions')
+  })
+})
+
+describe('buildOutline', () => {
+  const pages = [page(1, [heading('Intro', 1, 0)], ['a']), page(2, [], ['b'])]
+
+  it('prefers bookmarks and drops the ones past the last page', () => {
+    const outline = buildOutline([
+      { title: 'Start', level: 1, pageNumber: 1 },
+      { title: 'Missing', level: 1, pageNumber: 9 },
+    ], pages)
+    expect(outline).toEqual({ source: 'bookmarks', entries: [{ title: 'Start', level: 1, pageNumber: 1 }] })
+  })
+
+  it('falls back to the headings, and to nothing without them', () => {
+    expect(buildOutline([], pages)?.source).toBe('headings')
+    expect(buildOutline(undefined, [page(1, [], ['a'])])).toBeUndefined()
+  })
+})
+
+describe('outlinePath', () => {
+  const entries: OutlineEntry[] = inferOutline([
+    page(1, [heading('1 Scope', 1, 1)], ['Cover text', 'Scope text']),
+    page(2, [heading('1.1.1 Detail', 3, 0), heading('2 Terms', 1, 2)], ['Detail text', 'More detail', 'Terms text']),
+  ])
+
+  it('is empty for text before the first heading', () => {
+    expect(outlinePath(entries, 1, 0)).toEqual([])
+  })
+
+  it('lists the enclosing entries outermost first', () => {
+    expect(outlinePath(entries, 1, 1)).toEqual(['1 Scope'])
+    expect(outlinePath(entries, 2, 1)).toEqual(['1 Scope', '1.1.1 Detail'])
+  })
+
+  it('leaves a section when a heading of its level or above starts', () => {
+    expect(outlinePath(entries, 2, 2)).toEqual(['2 Terms'])
+  })
+
+  it('places bookmarks without a paragraph at the top of their page', () => {
+    const bookmarks = [{ title: 'Appendix', level: 1, pageNumber: 2 }]
+    expect(outlinePath(bookmarks, 1, 5)).toEqual([])
+    expect(outlinePath(bookmarks, 2, 0)).toEqual(['Appendix'])
+  })
+})
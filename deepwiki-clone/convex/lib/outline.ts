@@ -0,0 +1,84 @@
+/**
+ * Document outlines for table-of-contents navigation.
+ * Uses the PDF's bookmarks when it has them and falls back to the detected headings.
+ */
+
+import { PageText } from "./chunking";
+
+export interface OutlineEntry {
+  title: string;
+  // 1 for top-level entries
+  level: number;
+  pageNumber: number;
+  // Paragraph the entry precedes; bookmarks only point at a page
+  paragraphIndex?: number;
+}
+
+export type OutlineSource = "bookmarks" | "headings";
+
+export interface DocumentOutline {
+  source: OutlineSource;
+  // In document order
+  entries: OutlineEntry[];
+}
+
+// Joins a section's title path for display and for the search index
+export const SECTION_PATH_SEPARATOR = " › ";
+
+// A table of contents built from the headings found on each page
+export function inferOutline(pages: PageText[]): OutlineEntry[] {
+  const entries: OutlineEntry[] = [];
+  for (const page of pages) {
+    for (const heading of page.headings || []) {
+      entries.push({
+        title: heading.text.replace(/\s+/g, " "),
+        level: heading.level,
+        pageNumber: page.pageNumber,
+        paragraphIndex: heading.paragraphIndex,
+      });
+    }
+  }
+  return normalizeLevels(entries);
+}
+
+/**
+ * Prefers the bookmarks embedded in the PDF. Bookmarks pointing past the
+ * last page are dropped. Returns undefined when neither source has entries.
+ */
+export function buildOutline(bookmarks: OutlineEntry[] | undefined, pages: PageText[]): DocumentOutline | undefined {
+  const lastPage = pages.reduce((last, page) => Math.max(last, page.pageNumber), 0);
+  const embedded = (bookmarks || []).filter(entry => entry.title.trim() && entry.pageNumber <= lastPage);
+  if (embedded.length > 0) {
+    return { source: "bookmarks", entries: normalizeLevels(embedded) };
+  }
+
+  const inferred = inferOutline(pages);
+  return inferred.length > 0 ? { source: "headings", entries: inferred } : undefined;
+}
+
+// Levels without a parent, e.g. a document whose first heading is level 2, move up
+function normalizeLevels(entries: OutlineEntry[]): OutlineEntry[] {
+  const stack: number[] = [];
+  return entries.map(entry => {
+    while (stack.length > 0 && stack[stack.length - 1] >= entry.level) stack.pop();
+    stack.push(entry.level);
+    return { ...entry, level: stack.length };
+  });
+}
+
+/**
+ * Titles of the outline entries enclosing a paragraph, outermost first,
+ * e.g. ["3 Installation", "3.2 Configuration"].
+ */
+export function outlinePath(entries: OutlineEntry[], pageNumber: number, paragraphIndex: number): string[] {
+  const path: OutlineEntry[] = [];
+  for (const entry of entries) {
+    const startsAfter = entry.pageNumber > pageNumber ||
+      (entry.pageNumber === pageNumber && (entry.paragraphIndex ?? 0) > paragraphIndex);
+    if (startsAfter) break;
+
+    while (path.length > 0 && path[path.length - 1].level >= entry.level) path.pop();
+    path.push(entry);
+  }
+  return path.map(entry => entry.title);
+}
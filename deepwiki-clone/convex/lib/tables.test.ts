@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest'
+import { PageTable, tableDrafts, tableRowRanges, tableText } from './tables'
+import { PAGE_SEPARATOR, chunkPages, toPageText } from './chunking'
+
+const header = ['Unit', 'Rent', 'Due']
+const rows = [
+  ['Flat 1', '1,200 EUR', '1st'],
+  ['Flat 2', '950 EUR', '15th'],
+]
+
+// A page holding an intro paragraph and then the table, with its chunks
+function tablePage(pageNumber: number, table: Omit<PageTable, 'paragraphIndex'>) {
+  return {
+    ...toPageText({ pageNumber, headings: [], paragraphs: ['Rents:', tableText(table.header, table.rows)] }),
+    tables: [{ ...table, paragraphIndex: 1 }],
+  }
+}
+
+describe('tableText', () => {
+  it('writes one line per row with the header first', () => {
+    expect(tableText(header, rows)).toBe('Unit | Rent | Due\nFlat 1 | 1,200 EUR | 1st\nFlat 2 | 950 EUR | 15th')
+  })
+
+  it('keeps cells on one line', () => {
+    expect(tableText([], [['Flat\n1', '  1,200   EUR ']])).toBe('Flat 1 | 1,200 EUR')
+  })
+})
+
+describe('tableRowRanges', () => {
+  it('locates each data row in the table text, skipping the header', () => {
+    const text = tableText(header, rows)
+    expect(tableRowRanges(header, rows).map(({ start, end }) => text.slice(start, end))).toEqual([
+      'Flat 1 | 1,200 EUR | 1st',
+      'Flat 2 | 950 EUR | 15th',
+    ])
+  })
+
+  it('starts at the first row when there is no header', () => {
+    expect(tableRowRanges([], rows)[0]).toEqual({ start: 0, end: 'Flat 1 | 1,200 EUR | 1st'.length })
+  })
+
+  it('has no ranges for a header-only table', () => {
+    expect(tableText(header, [])).toBe('Unit | Rent | Due')
+    expect(tableRowRanges(header, [])).toEqual([])
+  })
+})
+
+describe('tableDrafts', () => {
+  it('locates a table at the text of its paragraph', () => {
+    const pages = [tablePage(1, { header, rows })]
+    const [draft] = tableDrafts(pages, chunkPages(pages))
+
+    expect(draft).toMatchObject({ pageNumber: 1, paragraphIndex: 1, header, rows })
+    expect(pages[0].fullText.slice(draft.startOffset, draft.endOffset)).toBe(tableText(header, rows))
+  })
+
+  it('spans every chunk of a table split between rows', () => {
+    const longRows = Array.from({ length: 40 }, (_, i) => [`Flat ${i + 1}`, `${1000 + i} EUR`, '1st'])
+    const pages = [tablePage(1, { header, rows: longRows })]
+    const chunks = chunkPages(pages, 200)
+    const [draft] = tableDrafts(pages, chunks)
+
+    expect(chunks.filter(chunk => chunk.paragraphIndex === 1).length).toBeGreaterThan(1)
+    expect(pages[0].fullText.slice(draft.startOffset, draft.endOffset)).toBe(tableText(header, longRows))
+  })
+
+  it('keeps the parts of a table continued on the next page as tables of their pages', () => {
+    const pages = [tablePage(1, { header, rows: rows.slice(0, 1) }), tablePage(2, { header: [], rows: rows.slice(1) })]
+    const text = pages.map(page => page.fullText).join(PAGE_SEPARATOR)
+    const drafts = tableDrafts(pages, chunkPages(pages))
+
+    expect(drafts.map(draft => draft.pageNumber)).toEqual([1, 2])
+    expect(drafts.map(draft => text.slice(draft.startOffset, draft.endOffset))).toEqual([
+      'Unit | Rent | Due\nFlat 1 | 1,200 EUR | 1st',
+      'Flat 2 | 950 EUR | 15th',
+    ])
+  })
+
+  it('keeps header-only tables', () => {
+    const pages = [tablePage(1, { header, rows: [] })]
+    const [draft] = tableDrafts(pages, chunkPages(pages))
+    expect(pages[0].fullText.slice(draft.startOffset, draft.endOffset)).toBe('Unit | Rent | Due')
+  })
+
+  it('drops tables whose paragraph has no chunks', () => {
+    const pages = [{ pageNumber: 1, tables: [{ paragraphIndex: 3, header, rows }] }]
+    expect(tableDrafts(pages, [])).toEqual([])
+  })
+})
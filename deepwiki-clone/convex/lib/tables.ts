@@ -0,0 +1,83 @@
+/**
+ * Tables detected by the PDF processor.
+ * A table is stored as one paragraph of its page, one row per line with cells
+ * separated by " | ", so chunk offsets and citations work as for any text.
+ */
+
+// In PDF points with the origin at the top left of the page
+export interface TableBoundingBox {
+  x0: number;
+  top: number;
+  x1: number;
+  bottom: number;
+  pageWidth: number;
+  pageHeight: number;
+}
+
+export interface PageTable {
+  // Index of the paragraph on the page that holds the table text
+  paragraphIndex: number;
+  // Empty when the first row is data
+  header: string[];
+  rows: string[][];
+  bbox?: TableBoundingBox;
+}
+
+// Identifies a cited table; number counts the document's tables from 1
+export interface TableLocation {
+  tableId: string;
+  number: number;
+}
+
+export const CELL_SEPARATOR = " | ";
+
+// Cells cannot contain line breaks, those separate rows
+function rowText(cells: string[]): string {
+  return cells.map(cell => cell.replace(/\s+/g, " ").trim()).join(CELL_SEPARATOR);
+}
+
+// The paragraph text stored for a table
+export function tableText(header: string[], rows: string[][]): string {
+  return (header.length > 0 ? [header, ...rows] : rows).map(rowText).join("\n");
+}
+
+/**
+ * Character range of each data row within tableText, so a cited range can
+ * be mapped back to rows. The header is not included.
+ */
+export function tableRowRanges(header: string[], rows: string[][]): Array<{ start: number; end: number }> {
+  const ranges: Array<{ start: number; end: number }> = [];
+  let offset = header.length > 0 ? rowText(header).length + 1 : 0;
+  for (const row of rows) {
+    const length = rowText(row).length;
+    ranges.push({ start: offset, end: offset + length });
+    offset += length + 1;
+  }
+  return ranges;
+}
+
+// A table of a document ready to store, located by the chunks of its paragraph
+export interface TableDraft extends PageTable {
+  pageNumber: number;
+  startOffset: number;
+  endOffset: number;
+}
+
+// The tables of a document's pages with the offsets of their text
+export function tableDrafts(
+  pages: Array<{ pageNumber: number; tables?: PageTable[] }>,
+  chunks: Array<{ pageNumber: number; paragraphIndex: number; startOffset: number; endOffset: number }>
+): TableDraft[] {
+  return pages.flatMap(page => (page.tables || []).flatMap(table => {
+    const pieces = chunks.filter(
+      chunk => chunk.pageNumber === page.pageNumber && chunk.paragraphIndex === table.paragraphIndex
+    );
+    if (pieces.length === 0) return [];
+    return [{
+      ...table,
+      pageNumber: page.pageNumber,
+      startOffset: pieces[0].startOffset,
+      endOffset: pieces[pieces.length - 1].endOffset,
+    }];
+  }));
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import { analyze, bm25Scores, isStopword, normalizeTerm, stem, tokenize } from './textAnalysis'
+
+describe('stem', () => {
+  it.each([
+    ['caresses', 'caress'],
+    ['ponies', 'poni'],
+    ['caress', 'caress'],
+    ['cats', 'cat'],
+    ['feed', 'feed'],
+    ['agreed', 'agre'],
+    ['plastered', 'plaster'],
+    ['motoring', 'motor'],
+    ['sing', 'sing'],
+    ['conflated', 'conflat'],
+    ['hopping', 'hop'],
+    ['filing', 'file'],
+    ['happy', 'happi'],
+    ['relational', 'relat'],
+    ['conditional', 'condit'],
+    ['generalization', 'gener'],
+    ['hopeful', 'hope'],
+    ['goodness', 'good'],
+    ['adjustment', 'adjust'],
+    ['adoption', 'adopt'],
+    ['controlling', 'control'],
+    ['terminated', 'termin'],
+    ['termination', 'termin'],
+  ])('stems %s to %s', (word, expected) => {
+    expect(stem(word)).toBe(expected)
+  })
+
+  it('leaves short words and numbers alone', () => {
+    expect(stem('is')).toBe('is')
+    expect(stem('2024s')).toBe('2024s')
+  })
+
+  it('treats a leading y as a consonant', () => {
+    expect(stem('yields')).toBe('yield')
+  })
+})
+
+describe('tokenize', () => {
+  it('returns lowercase words with their offsets', () => {
+    expect(tokenize('Force Majeure, §12')).toEqual([
+      { term: 'force', start: 0, end: 5 },
+      { term: 'majeure', start: 6, end: 13 },
+      { term: '12', start: 16, end: 18 },
+    ])
+  })
+
+  it('drops possessive endings but keeps the offsets of the whole word', () => {
+    expect(tokenize("the tenant's deposit")[1]).toEqual({ term: 'tenant', start: 4, end: 12 })
+  })
+
+  it('keeps letters outside ASCII together', () => {
+    expect(tokenize('Kündigung naïve').map(token => token.term)).toEqual(['kündigung', 'naïve'])
+  })
+})
+
+describe('analyze', () => {
+  it('removes stopwords and stems the rest', () => {
+    expect(analyze('The terms of the agreements')).toEqual(['term', 'agreement'])
+  })
+
+  it('gives inflections of a word the same term', () => {
+    expect(analyze('terminated')).toEqual(analyze('termination'))
+  })
+
+  it('normalizes single words the same way', () => {
+    expect(normalizeTerm('Agreements')).toBe(analyze('agreements')[0])
+  })
+
+  it('recognises stopwords', () => {
+    expect(isStopword('the')).toBe(true)
+    expect(isStopword('contract')).toBe(false)
+  })
+})
+
+describe('bm25Scores', () => {
+  it('ranks texts with more occurrences of a term higher', () => {
+    const [once, twice] = bm25Scores([['rent', 'due'], ['rent', 'rent']], ['rent'])
+    expect(twice).toBeGreaterThan(once)
+  })
+
+  it('weighs rare terms above common ones', () => {
+    const texts = [['rent', 'deposit'], ['rent', 'pet'], ['rent', 'garden']]
+    const [deposit, pet] = bm25Scores(texts, ['rent', 'deposit'])
+    expect(deposit).toBeGreaterThan(pet)
+  })
+
+  it('favours shorter texts for the same count', () => {
+    const [short, long] = bm25Scores([['rent', 'due'], ['rent', 'due', 'month', 'bank', 'transfer', 'late']], ['rent'])
+    expect(short).toBeGreaterThan(long)
+  })
+
+  it('counts the words a prefix term starts', () => {
+    const [match, miss] = bm25Scores([['indemnif', 'parti'], ['rent']], ['indemn'], 'indemn')
+    expect(match).toBeGreaterThan(0)
+    expect(miss).toBe(0)
+  })
+})
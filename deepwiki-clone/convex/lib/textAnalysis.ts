@@ -0,0 +1,226 @@
+/**
+ * Text analysis and ranking for search
+ * Tokenizes, drops stopwords and stems words the same way for queries and
+ * the chunks they are matched against, and scores matches with BM25
+ */
+
+const STOPWORDS = new Set([
+  "a", "about", "above", "after", "again", "against", "all", "am", "an", "and", "any", "are", "as", "at",
+  "be", "because", "been", "before", "being", "below", "between", "both", "but", "by",
+  "can", "could", "did", "do", "does", "doing", "down", "during", "each", "few", "for", "from", "further",
+  "had", "has", "have", "having", "he", "her", "here", "hers", "herself", "him", "himself", "his", "how",
+  "i", "if", "in", "into", "is", "it", "its", "itself", "me", "more", "most", "my", "myself",
+  "no", "nor", "not", "of", "off", "on", "once", "only", "or", "other", "our", "ours", "ourselves", "out", "over", "own",
+  "same", "she", "should", "so", "some", "such", "than", "that", "the", "their", "theirs", "them", "themselves",
+  "then", "there", "these", "they", "this", "those", "through", "to", "too", "under", "until", "up",
+  "very", "was", "we", "were", "what", "when", "where", "which", "while", "who", "whom", "why", "will", "with",
+  "would", "you", "your", "yours", "yourself", "yourselves",
+]);
+
+// BM25 tuning constants
+const K1 = 1.2;
+const B = 0.75;
+
+export interface Token {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Splits text into lowercase words with their character offsets.
+ * Stopwords are kept here so positions stay aligned with the source text.
+ */
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  const wordPattern = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+  let match;
+
+  while ((match = wordPattern.exec(text)) !== null) {
+    tokens.push({
+      term: match[0].toLowerCase().replace(/['’]s$/, ""),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+export function isStopword(term: string): boolean {
+  return STOPWORDS.has(term);
+}
+
+// Normalizes a single word to the form analyze() produces
+export function normalizeTerm(term: string): string {
+  return stem(term.toLowerCase());
+}
+
+/**
+ * Returns the index terms for a piece of text, stopwords removed and stemmed
+ */
+export function analyze(text: string): string[] {
+  return tokenize(text)
+    .filter(token => !isStopword(token.term))
+    .map(token => stem(token.term));
+}
+
+/**
+ * BM25 scores of texts, given as their index terms, for the query terms.
+ * Document frequencies and the average length are taken over the texts
+ * passed in. A prefix term counts every term it starts, the way the
+ * search index matches the last word of a query.
+ */
+export function bm25Scores(texts: string[][], terms: string[], prefix?: string): number[] {
+  const counts = texts.map(text => termCounts(text, terms, prefix));
+  const averageLength = texts.reduce((sum, text) => sum + text.length, 0) / (texts.length || 1);
+  const idf = terms.map(term => {
+    const df = counts.filter(count => count.has(term)).length;
+    return Math.log(1 + (texts.length - df + 0.5) / (df + 0.5));
+  });
+
+  return texts.map((text, i) => terms.reduce((score, term, t) => {
+    const tf = counts[i].get(term) ?? 0;
+    if (tf === 0) return score;
+    return score + idf[t] * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * text.length / (averageLength || 1)));
+  }, 0));
+}
+
+function termCounts(text: string[], terms: string[], prefix?: string): Map<string, number> {
+  const wanted = new Set(terms);
+  const counts = new Map<string, number>();
+  for (const word of text) {
+    const term = wanted.has(word) ? word : prefix && word.startsWith(prefix) ? prefix : null;
+    if (term) counts.set(term, (counts.get(term) ?? 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Porter stemming algorithm (M.F. Porter, 1980)
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || /\d/.test(word)) return word;
+
+  let w = word;
+  if (w[0] === "y") w = "Y" + w.slice(1);
+
+  // Step 1a
+  if (w.endsWith("sses")) w = w.slice(0, -2);
+  else if (w.endsWith("ies")) w = w.slice(0, -2);
+  else if (w.endsWith("ss")) { /* unchanged */ }
+  else if (w.endsWith("s")) w = w.slice(0, -1);
+
+  // Step 1b
+  let step1bExtra = false;
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else if (w.endsWith("ed") && hasVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    step1bExtra = true;
+  } else if (w.endsWith("ing") && hasVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    step1bExtra = true;
+  }
+  if (step1bExtra) {
+    if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+      w += "e";
+    } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsCVC(w)) {
+      w += "e";
+    }
+  }
+
+  // Step 1c
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + "i";
+  }
+
+  // Step 2
+  w = replaceSuffix(w, [
+    ["ational", "ate"], ["tional", "tion"], ["enci", "ence"], ["anci", "ance"], ["izer", "ize"],
+    ["bli", "ble"], ["alli", "al"], ["entli", "ent"], ["eli", "e"], ["ousli", "ous"],
+    ["ization", "ize"], ["ation", "ate"], ["ator", "ate"], ["alism", "al"], ["iveness", "ive"],
+    ["fulness", "ful"], ["ousness", "ous"], ["aliti", "al"], ["iviti", "ive"], ["biliti", "ble"], ["logi", "log"],
+  ], 0);
+
+  // Step 3
+  w = replaceSuffix(w, [
+    ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"], ["ical", "ic"], ["ful", ""], ["ness", ""],
+  ], 0);
+
+  // Step 4
+  const step4 = ["al", "ance", "ence", "er", "ic", "able", "ible", "ant", "ement", "ment", "ent",
+    "ion", "ou", "ism", "ate", "iti", "ous", "ive", "ize"];
+  for (const suffix of step4.sort((a, b) => b.length - a.length)) {
+    if (!w.endsWith(suffix)) continue;
+    const base = w.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== "ion" || /[st]$/.test(base))) {
+      w = base;
+    }
+    break;
+  }
+
+  // Step 5
+  if (w.endsWith("e")) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsCVC(base))) w = base;
+  }
+  if (measure(w) > 1 && w.endsWith("ll")) {
+    w = w.slice(0, -1);
+  }
+
+  return w[0] === "Y" ? "y" + w.slice(1) : w;
+}
+
+function isConsonant(w: string, i: number): boolean {
+  const c = w[i];
+  if ("aeiou".includes(c)) return false;
+  if (c === "y") return i === 0 || !isConsonant(w, i - 1);
+  return true;
+}
+
+// Number of vowel-consonant sequences in the word
+function measure(w: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < w.length && isConsonant(w, i)) i++;
+  while (i < w.length) {
+    while (i < w.length && !isConsonant(w, i)) i++;
+    if (i >= w.length) break;
+    while (i < w.length && isConsonant(w, i)) i++;
+    m++;
+  }
+  return m;
+}
+
+function hasVowel(w: string): boolean {
+  for (let i = 0; i < w.length; i++) {
+    if (!isConsonant(w, i)) return true;
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(w: string): boolean {
+  const n = w.length;
+  return n >= 2 && w[n - 1] === w[n - 2] && isConsonant(w, n - 1);
+}
+
+function endsCVC(w: string): boolean {
+  const n = w.length;
+  return n >= 3 &&
+    isConsonant(w, n - 3) && !isConsonant(w, n - 2) && isConsonant(w, n - 1) &&
+    !/[wxY]/.test(w[n - 1]);
+}
+
+function replaceSuffix(w: string, rules: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      return measure(base) > minMeasure ? base + replacement : w;
+    }
+  }
+  return w;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { alignWords, highlightRects } from './wordBoxes'
+
+// Words of one line, 10 points per character with a 10 point space between words
+function line(text: string, top: number, left = 0) {
+  let x = left
+  return text.split(' ').map(word => {
+    const box = { text: word, x0: x, top, x1: x + word.length * 10, bottom: top + 12 }
+    x = box.x1 + 10
+    return box
+  })
+}
+
+describe('alignWords', () => {
+  it('maps words to their offsets in the page text', () => {
+    const text = 'Rent is due monthly.'
+    const boxes = alignWords(text, line(text, 100))
+    expect(boxes.map(([start, end]) => text.slice(start, end))).toEqual(['Rent', 'is', 'due', 'monthly.'])
+    expect(boxes[0]).toEqual([0, 4, 0, 100, 40, 112])
+  })
+
+  it('follows repeated words in reading order', () => {
+    const text = 'the rent and the deposit'
+    const boxes = alignWords(text, line(text, 100))
+    expect(boxes.map(([start]) => start)).toEqual([0, 4, 9, 13, 17])
+  })
+
+  it('aligns a word hyphenated across lines with the joined word in the text', () => {
+    const text = 'Either party may terminate the lease.'
+    const words = [...line('Either party may termi-', 100), ...line('nate the lease.', 120)]
+    const boxes = alignWords(text, words)
+    expect(boxes.map(([start, end]) => text.slice(start, end))).toEqual(['Either', 'party', 'may', 'termi', 'nate', 'the', 'lease.'])
+  })
+
+  it('skips words the text splits differently without shifting the rest', () => {
+    const text = 'Rent: 1,200 EUR per month'
+    const words = [
+      { text: 'Rent:', x0: 0, top: 100, x1: 50, bottom: 112 },
+      { text: '1,200EUR', x0: 60, top: 100, x1: 140, bottom: 112 },
+      ...line('per month', 100, 150),
+    ]
+    const boxes = alignWords(text, words)
+    expect(boxes.map(([start, end]) => text.slice(start, end))).toEqual(['Rent:', 'per', 'month'])
+  })
+
+  it('skips a stray word that only appears far ahead', () => {
+    const text = 'Page one text. ' + 'x'.repeat(300) + ' Confidential'
+    const boxes = alignWords(text, [{ text: 'Confidential', x0: 0, top: 10, x1: 120, bottom: 22 }, ...line('Page one text.', 100)])
+    expect(boxes.map(([start, end]) => text.slice(start, end))).toEqual(['Page', 'one', 'text.'])
+  })
+})
+
+describe('highlightRects', () => {
+  const text = 'Either party may terminate the lease.'
+  const boxes = alignWords(text, [...line('Either party may termi-', 100), ...line('nate the lease.', 120)])
+
+  it('draws one rectangle per line of a span', () => {
+    const start = text.indexOf('may')
+    const rects = highlightRects(boxes, start, start + 'may terminate'.length)
+    expect(rects).toEqual([
+      { x0: 130, top: 100, x1: 230, bottom: 112 },
+      { x0: 0, top: 120, x1: 40, bottom: 132 },
+    ])
+  })
+
+  it('trims words cut by the range', () => {
+    const rects = highlightRects(boxes, 2, 4)
+    expect(rects).toEqual([{ x0: 20, top: 100, x1: 40, bottom: 112 }])
+  })
+
+  it('is empty outside the aligned words', () => {
+    expect(highlightRects(boxes, text.length, text.length + 5)).toEqual([])
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Word positions on PDF pages, used to draw highlights over a cited span.
+ * The processor's words are aligned with the page's fullText so a character
+ * range of the text maps to rectangles on the rendered page.
+ */
+
+import { ProcessorWord } from "./extraction";
+
+// [charStart, charEnd, x0, top, x1, bottom]: offsets into the page's fullText,
+// coordinates in PDF points from the top-left corner
+export type WordBox = number[];
+
+export interface HighlightRect {
+  x0: number;
+  top: number;
+  x1: number;
+  bottom: number;
+}
+
+// Convex arrays hold at most 8192 values
+export const MAX_PAGE_WORDS = 8192;
+// A word further ahead than this is not in the text, e.g. a running header the layout dropped
+const MAX_ALIGNMENT_GAP = 200;
+
+/**
+ * Finds each word in the page text in reading order. Words that are not
+ * found close to the previous one are left out, so one stray word cannot
+ * shift the rest of the page.
+ */
+export function alignWords(fullText: string, words: ProcessorWord[]): WordBox[] {
+  const boxes: WordBox[] = [];
+  let cursor = 0;
+
+  for (const word of words) {
+    if (boxes.length >= MAX_PAGE_WORDS) break;
+    let text = word.text.trim();
+    if (!text) continue;
+
+    let start = fullText.indexOf(text, cursor);
+    // A word hyphenated at a line break may be joined up in the text
+    if (start === -1 && text.length > 1 && text.endsWith("-")) {
+      text = text.slice(0, -1);
+      start = fullText.indexOf(text, cursor);
+    }
+    if (start === -1 || start - cursor > MAX_ALIGNMENT_GAP) continue;
+
+    boxes.push([start, start + text.length, word.x0, word.top, word.x1, word.bottom]);
+    cursor = start + text.length;
+  }
+
+  return boxes;
+}
+
+// Words on the same line overlap vertically by at least half their height
+function sameLine(rect: HighlightRect, top: number, bottom: number): boolean {
+  const overlap = Math.min(rect.bottom, bottom) - Math.max(rect.top, top);
+  return overlap >= Math.min(rect.bottom - rect.top, bottom - top) / 2;
+}
+
+/**
+ * Rectangles covering the characters from start to end of the page text,
+ * one per line. Words cut by the range are trimmed in proportion to the
+ * characters left out.
+ */
+export function highlightRects(boxes: WordBox[], start: number, end: number): HighlightRect[] {
+  const rects: HighlightRect[] = [];
+
+  for (const [wordStart, wordEnd, x0, top, x1, bottom] of boxes) {
+    if (wordEnd <= start || wordStart >= end) continue;
+
+    const charWidth = (x1 - x0) / (wordEnd - wordStart);
+    const left = x0 + Math.max(0, start - wordStart) * charWidth;
+    const right = x1 - Math.max(0, wordEnd - end) * charWidth;
+
+    const last = rects[rects.length - 1];
+    if (last && sameLine(last, top, bottom) && left >= last.x0) {
+      last.x1 = Math.max(last.x1, right);
+      last.top = Math.min(last.top, top);
+      last.bottom = Math.max(last.bottom, bottom);
+    } else {
+      rects.push({ x0: left, top, x1: right, bottom });
+    }
+  }
+
+  return rects;
+}
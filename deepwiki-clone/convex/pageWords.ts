@@ -0,0 +1,91 @@
+import { internalMutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { PAGE_SEPARATOR } from "./lib/chunking";
+import { highlightRects } from "./lib/wordBoxes";
+import { loadPageTexts } from "./pages";
+
+// Pages of word positions deleted per mutation; each holds every word of its page
+const DELETE_BATCH = 20;
+
+/**
+ * Stores the word positions of a batch of a document's PDF pages. The
+ * ingestion action deletes what an earlier run of processing stored before
+ * the first batch.
+ */
+export const insertPageWords = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    pages: v.array(
+      v.object({
+        pageNumber: v.number(),
+        width: v.number(),
+        height: v.number(),
+        words: v.array(v.array(v.number())),
+      })
+    ),
+  },
+  handler: async (ctx, args) => {
+    for (const page of args.pages) {
+      await ctx.db.insert("pageWords", { documentId: args.documentId, ...page });
+    }
+  },
+});
+
+// Deletes a batch of a document's word positions and returns whether any remain
+export async function deletePageWords(ctx: MutationCtx, documentId: Id<"documents">): Promise<boolean> {
+  const pages = await ctx.db
+    .query("pageWords")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .take(DELETE_BATCH);
+
+  for (const page of pages) {
+    await ctx.db.delete(page._id);
+  }
+  return pages.length === DELETE_BATCH;
+}
+
+// Called by the ingestion action until no word positions remain
+export const deletePageWordBatch = internalMutation({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => await deletePageWords(ctx, args.documentId),
+});
+
+/**
+ * Where a cited span sits on its PDF page. charStart and charEnd are offsets
+ * into the document text, as in chat references. Without stored word
+ * positions, e.g. for documents processed before they were recorded, the
+ * page size is missing and there are no rectangles.
+ */
+export const getCitationHighlight = query({
+  args: {
+    documentId: v.id("documents"),
+    pageNumber: v.number(),
+    charStart: v.number(),
+    charEnd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) return null;
+
+    const fileUrl = await ctx.storage.getUrl(document.fileId);
+    const page = await ctx.db
+      .query("pageWords")
+      .withIndex("by_document", (q) => q.eq("documentId", args.documentId).eq("pageNumber", args.pageNumber))
+      .first();
+    if (!page) return { fileUrl, rects: [] };
+
+    let pageStart = 0;
+    for (const extracted of await loadPageTexts(ctx, args.documentId)) {
+      if (extracted.pageNumber === args.pageNumber) break;
+      pageStart += extracted.fullText.length + PAGE_SEPARATOR.length;
+    }
+
+    return {
+      fileUrl,
+      width: page.width,
+      height: page.height,
+      rects: highlightRects(page.words, args.charStart - pageStart, args.charEnd - pageStart),
+    };
+  },
+});
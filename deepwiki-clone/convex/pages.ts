@@ -0,0 +1,76 @@
+import { internalMutation, query, MutationCtx, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { extractedPage } from "./schema";
+import { toPageText } from "./lib/chunking";
+
+// Documents whose pages one getPagesOfDocuments call returns
+const MAX_DOCUMENTS = 10;
+// Pages deleted per mutation, to stay under the read and write limits
+const DELETE_BATCH = 200;
+
+/**
+ * Stores a batch of the extracted pages of a document. The ingestion action
+ * deletes what an earlier run of processing stored before the first batch.
+ */
+export const insertPages = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    pages: v.array(extractedPage),
+  },
+  handler: async (ctx, args) => {
+    for (const page of args.pages) {
+      await ctx.db.insert("pages", { documentId: args.documentId, ...page });
+    }
+  },
+});
+
+// Deletes a batch of a document's pages and returns whether pages remain
+export async function deletePages(ctx: MutationCtx, documentId: Id<"documents">): Promise<boolean> {
+  const pages = await ctx.db
+    .query("pages")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .take(DELETE_BATCH);
+
+  for (const page of pages) {
+    await ctx.db.delete(page._id);
+  }
+  return pages.length === DELETE_BATCH;
+}
+
+// Called by the ingestion action until no pages remain
+export const deletePageBatch = internalMutation({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => await deletePages(ctx, args.documentId),
+});
+
+// A document's pages in order, with their fullText
+export async function loadPageTexts(ctx: QueryCtx, documentId: Id<"documents">) {
+  const pages = await ctx.db
+    .query("pages")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .collect();
+  return pages.map(toPageText);
+}
+
+// All pages of a document, e.g. to read or compare it
+export const getPages = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    return await loadPageTexts(ctx, args.documentId);
+  },
+});
+
+// Pages of a few documents, e.g. the ones a chat answer cites
+export const getPagesOfDocuments = query({
+  args: { documentIds: v.array(v.id("documents")) },
+  handler: async (ctx, args) => {
+    const documentIds = Array.from(new Set(args.documentIds)).slice(0, MAX_DOCUMENTS);
+    return await Promise.all(
+      documentIds.map(async (documentId) => ({
+        documentId,
+        pages: await loadPageTexts(ctx, documentId),
+      }))
+    );
+  },
+});
@@ -1,6 +1,160 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
 
+// Where a paragraph sits under the nearest heading, mirrors SectionLocation in convex/lib/chunking.ts
+export const sectionLocation = v.object({
+  heading: v.string(),
+  level: v.number(),
+  paragraphIndex: v.number(),
+});
+
+// In PDF points from the top left of the page, mirrors TableBoundingBox in convex/lib/tables.ts
+export const tableBoundingBox = v.object({
+  x0: v.number(),
+  top: v.number(),
+  x1: v.number(),
+  bottom: v.number(),
+  pageWidth: v.number(),
+  pageHeight: v.number(),
+});
+
+// A cited table, mirrors TableLocation in convex/lib/tables.ts
+export const tableLocation = v.object({
+  tableId: v.id("tables"),
+  number: v.number(),
+});
+
+// A page of extracted text, stored in the pages table. Its fullText is not
+// stored but rebuilt from the headings and paragraphs, see toPageText in convex/lib/chunking.ts
+export const extractedPage = v.object({
+  pageNumber: v.number(),
+  // Each heading precedes the paragraph at paragraphIndex
+  headings: v.array(v.object({
+    text: v.string(),
+    level: v.number(),
+    paragraphIndex: v.number(),
+  })),
+  // In reading order
+  paragraphs: v.array(v.string()),
+  // Mean word confidence from 0 to 100, set when the page had no text layer and was OCR'd
+  ocrConfidence: v.optional(v.number()),
+  // Each table's text is the paragraph at paragraphIndex
+  tables: v.optional(v.array(v.object({
+    paragraphIndex: v.number(),
+    header: v.array(v.string()),
+    rows: v.array(v.array(v.string())),
+    bbox: v.optional(tableBoundingBox),
+  }))),
+});
+
+// What extraction found across a document's pages, kept on the document row
+export const extractedContent = v.object({
+  // Found by extractKeyConcepts in convex/lib/concepts.ts
+  keyConcepts: v.array(v.object({
+    text: v.string(),
+    type: v.union(
+      v.literal("acronym"),
+      v.literal("defined_term"),
+      v.literal("entity"),
+      v.literal("noun_phrase")
+    ),
+    frequency: v.number(),
+    pages: v.array(v.number()),
+    expansion: v.optional(v.string()),
+  })),
+  // Built by buildOutline in convex/lib/outline.ts, absent for documents processed before it
+  outline: v.optional(v.object({
+    source: v.union(v.literal("bookmarks"), v.literal("headings")),
+    entries: v.array(v.object({
+      title: v.string(),
+      level: v.number(),
+      pageNumber: v.number(),
+      paragraphIndex: v.optional(v.number()),
+    })),
+  })),
+  // Counted over the page texts, see documentStats in convex/lib/extraction.ts
+  stats: v.object({
+    wordCount: v.number(),
+    sentenceCount: v.number(),
+    paragraphCount: v.number(),
+  }),
+  // Pages read with OCR, so lists can flag them without loading the pages
+  ocrPages: v.optional(v.array(v.object({
+    pageNumber: v.number(),
+    confidence: v.number(),
+  }))),
+});
+
+export const processingStatus = v.union(
+  v.literal("uploaded"),
+  v.literal("extracting"),
+  v.literal("analyzing"),
+  v.literal("indexing"),
+  v.literal("completed"),
+  v.literal("failed")
+);
+
+// A status change of a document; message says why an attempt failed or processing restarted
+export const processingEvent = v.object({
+  status: processingStatus,
+  at: v.number(),
+  message: v.optional(v.string()),
+});
+
+// Why the last ingestion attempt failed, kept until the document completes
+export const processingError = v.object({
+  stage: v.string(),
+  message: v.string(),
+  attempts: v.number(),
+  failedAt: v.number(),
+});
+
+// A cited passage, mirrors DocumentReference in lib/ai-chat-service.ts
+export const documentReference = v.object({
+  documentId: v.id("documents"),
+  documentName: v.string(),
+  pageNumber: v.number(),
+  paragraphIndex: v.number(),
+  charStart: v.number(),
+  charEnd: v.number(),
+  excerpt: v.string(),
+  relevantText: v.string(),
+  confidence: v.number(),
+  section: v.optional(sectionLocation),
+  table: v.optional(tableLocation),
+  // Set when the passage is a change between two document versions
+  change: v.optional(v.union(v.literal("insert"), v.literal("delete"), v.literal("move"))),
+});
+
+// The answer to a search, built by lib/search-runner.ts
+export const searchResults = v.object({
+  content: v.string(),
+  documentRefs: v.array(v.object({
+    documentName: v.string(),
+    documentId: v.id("documents"),
+    page: v.number(),
+    section: v.optional(v.string()),
+    paragraph: v.optional(v.number()),
+    // Cited range within the document text, absent for searches saved before it was recorded
+    charStart: v.optional(v.number()),
+    charEnd: v.optional(v.number()),
+  })),
+  documentSnippets: v.array(v.object({
+    documentId: v.id("documents"),
+    documentName: v.string(),
+    relevantPages: v.array(v.number()),
+    excerpts: v.array(v.string()),
+  })),
+  // From 0 to 100
+  confidence: v.number(),
+});
+
+// A step of a deep search, shown while it runs
+export const searchStep = v.object({
+  message: v.string(),
+  at: v.number(),
+});
+
 export default defineSchema({
   users: defineTable({
     clerkId: v.optional(v.string()),
@@ -26,70 +180,179 @@ export default defineSchema({
     userId: v.string(),
     collectionId: v.optional(v.id("collections")),
     uploadedAt: v.number(),
-    processingStatus: v.union(
-      v.literal("uploaded"),
-      v.literal("extracting"),
-      v.literal("analyzing"),
-      v.literal("indexing"),
-      v.literal("completed"),
-      v.literal("failed")
-    ),
+    processingStatus,
     metadata: v.object({
       fileSize: v.number(),
       mimeType: v.string(),
       pageCount: v.optional(v.number()),
       language: v.optional(v.string()),
+      title: v.optional(v.string()),
+      author: v.optional(v.string()),
       extractedAt: v.optional(v.number()),
       processingTimeMs: v.optional(v.number()),
     }),
-    extractedContent: v.optional(v.object({
-      pages: v.array(v.object({
-        pageNumber: v.number(),
-        headings: v.array(v.string()),
-        paragraphs: v.array(v.string()),
-        fullText: v.string(),
-      })),
-      keyConcepts: v.array(v.object({
-        text: v.string(),
-        type: v.string(),
-        frequency: v.number(),
-        pages: v.array(v.number()),
-      })),
-    })),
+    extractedContent: v.optional(extractedContent),
+    processingError: v.optional(processingError),
+    // Oldest first, absent for documents uploaded before it was recorded
+    processingHistory: v.optional(v.array(processingEvent)),
+    // SHA-256 of the uploaded file, hex encoded
+    contentHash: v.optional(v.string()),
+    // Uploading a changed file under the same name into a collection adds a version.
+    // Absent version means 1; supersededBy is set once a newer version completes.
+    version: v.optional(v.number()),
+    previousVersionId: v.optional(v.id("documents")),
+    supersededBy: v.optional(v.id("documents")),
+    // Subfolders the document was imported from, below its collection's folder
+    tags: v.optional(v.array(v.string())),
   }).index("by_user", ["userId"])
     .index("by_collection", ["collectionId"])
-    .index("by_status", ["processingStatus"]),
+    .index("by_status", ["processingStatus"])
+    .index("by_hash", ["userId", "contentHash"])
+    .index("by_collection_name", ["collectionId", "originalName"]),
+
+  // Extracted pages, stored apart from the document to keep it under the document size limit
+  pages: defineTable({
+    documentId: v.id("documents"),
+    ...extractedPage.fields,
+  }).index("by_document", ["documentId", "pageNumber"]),
+
+  // Retrieval units derived from the pages once a document completes.
+  // Offsets point into the page texts joined with blank lines.
+  chunks: defineTable({
+    documentId: v.id("documents"),
+    userId: v.string(),
+    collectionId: v.optional(v.id("collections")),
+    pageNumber: v.number(),
+    paragraphIndex: v.number(),
+    text: v.string(),
+    // The text's index terms, stemmed and without stopwords, so a search for
+    // "terminated" finds "termination". Missing on chunks built before
+    // stemming until their document is reprocessed.
+    stemmedText: v.optional(v.string()),
+    startOffset: v.number(),
+    endOffset: v.number(),
+    section: v.optional(sectionLocation),
+    // Titles of the outline entries the chunk sits under, outermost first
+    sectionPath: v.optional(v.array(v.string())),
+    // sectionPath joined, so section titles can rank chunks too
+    sectionContext: v.optional(v.string()),
+    // Set when the chunk is (part of) a table
+    table: v.optional(tableLocation),
+    // Set when the chunk's document has a newer version; search skips these by default
+    superseded: v.optional(v.boolean()),
+  }).index("by_document", ["documentId", "pageNumber"])
+    .index("by_collection", ["collectionId"])
+    .index("by_user", ["userId"])
+    .searchIndex("search_text", {
+      searchField: "text",
+      filterFields: ["userId", "collectionId", "documentId", "superseded"],
+    })
+    .searchIndex("search_stemmed", {
+      searchField: "stemmedText",
+      filterFields: ["userId", "collectionId", "documentId", "superseded"],
+    })
+    .searchIndex("search_section", {
+      searchField: "sectionContext",
+      filterFields: ["userId", "collectionId", "documentId", "superseded"],
+    }),
+
+  // Tables found in a document's pages, rebuilt with the chunks.
+  // Offsets point at the table's text in the page texts joined with blank lines.
+  tables: defineTable({
+    documentId: v.id("documents"),
+    userId: v.string(),
+    collectionId: v.optional(v.id("collections")),
+    pageNumber: v.number(),
+    // Counts the document's tables from 1, as in "Table 3"
+    number: v.number(),
+    paragraphIndex: v.number(),
+    startOffset: v.number(),
+    endOffset: v.number(),
+    header: v.array(v.string()),
+    rows: v.array(v.array(v.string())),
+    bbox: v.optional(tableBoundingBox),
+  }).index("by_document", ["documentId", "number"]),
+
+  // Word positions on a PDF page, see WordBox in lib/wordBoxes.ts.
+  // Stored apart from the document to keep it under the document size limit.
+  pageWords: defineTable({
+    documentId: v.id("documents"),
+    pageNumber: v.number(),
+    // Page size in PDF points
+    width: v.number(),
+    height: v.number(),
+    words: v.array(v.array(v.number())),
+  }).index("by_document", ["documentId", "pageNumber"]),
+
+  // Chat conversations, resumable from the chat sidebar
+  threads: defineTable({
+    userId: v.string(),
+    title: v.string(),
+    // Scope the thread's answers are drawn from; documentIds wins over collectionId
+    collectionId: v.optional(v.id("collections")),
+    documentIds: v.optional(v.array(v.id("documents"))),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    messageCount: v.number(),
+  }).index("by_user", ["userId", "updatedAt"]),
+
+  messages: defineTable({
+    threadId: v.id("threads"),
+    role: v.union(v.literal("user"), v.literal("assistant")),
+    content: v.string(),
+    createdAt: v.number(),
+    references: v.optional(v.array(documentReference)),
+    stopped: v.optional(v.boolean()),
+  }).index("by_thread", ["threadId", "createdAt"]),
 
   searches: defineTable({
     query: v.string(),
     userId: v.string(),
     collectionId: v.optional(v.id("collections")),
+    documentIds: v.optional(v.array(v.id("documents"))),
     searchType: v.union(v.literal("fast"), v.literal("deep")),
+    // A search still processing after its timeout without a new step is
+    // interrupted, e.g. because the tab running it was closed
     status: v.union(
       v.literal("processing"),
       v.literal("completed"),
-      v.literal("failed")
+      v.literal("failed"),
+      v.literal("interrupted")
     ),
     createdAt: v.number(),
     completedAt: v.optional(v.number()),
-    results: v.optional(v.object({
-      content: v.string(),
-      documentRefs: v.array(v.object({
-        documentName: v.string(),
-        documentId: v.id("documents"),
-        page: v.number(),
-        section: v.optional(v.string()),
-        paragraph: v.optional(v.number()),
-      })),
-      documentSnippets: v.array(v.object({
-        documentId: v.id("documents"),
-        documentName: v.string(),
-        relevantPages: v.array(v.number()),
-        excerpts: v.array(v.string()),
-      })),
-      confidence: v.number(),
-    })),
+    results: v.optional(searchResults),
+    // Progress of a deep search, oldest first
+    steps: v.optional(v.array(searchStep)),
     error: v.optional(v.string()),
   }).index("by_user", ["userId"])
     .index("by_collection", ["collectionId"]),
+
+  // Bulk imports from a ZIP archive or a folder. An import stays open until
+  // every file is uploaded, so selecting the same source again resumes it.
+  imports: defineTable({
+    userId: v.string(),
+    // Archive or folder name shown to the user
+    source: v.string(),
+    // Identifies the same source across attempts
+    sourceKey: v.string(),
+    startedAt: v.number(),
+    completedAt: v.optional(v.number()),
+  }).index("by_source", ["userId", "sourceKey"])
+    .index("by_user", ["userId"]),
+
+  importFiles: defineTable({
+    importId: v.id("imports"),
+    // Path within the archive or folder
+    path: v.string(),
+    status: v.union(
+      v.literal("pending"),
+      v.literal("completed"),
+      v.literal("duplicate"),
+      v.literal("failed")
+    ),
+    attempts: v.number(),
+    documentId: v.optional(v.id("documents")),
+    error: v.optional(v.string()),
+  }).index("by_import", ["importId", "path"]),
 });
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { internalMutation, mutation, query, MutationCtx } from "./_generated/server";
+import { internal } from "./_generated/api";
+import { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { searchResults } from "./schema";
+
+const searchScope = {
+  query: v.string(),
+  userId: v.string(),
+  searchType: v.union(v.literal("fast"), v.literal("deep")),
+  collectionId: v.optional(v.id("collections")),
+  documentIds: v.optional(v.array(v.id("documents"))),
+};
+
+// A run lives in the tab that started it, so a search that has made no
+// progress for this long is marked interrupted
+const SEARCH_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Record a search before it runs, so its page can show progress
+export const startSearch = mutation({
+  args: searchScope,
+  handler: async (ctx, args) => {
+    const searchId = await ctx.db.insert("searches", {
+      ...args,
+      status: "processing",
+      createdAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(SEARCH_TIMEOUT_MS, internal.searches.interruptSearch, { searchId });
+    return searchId;
+  },
+});
+
+// Each step pushes the deadline back, so a slow deep search that still
+// reports progress is checked again later instead of being interrupted
+export const interruptSearch = internalMutation({
+  args: { searchId: v.id("searches") },
+  handler: async (ctx, args) => {
+    const search = await ctx.db.get(args.searchId);
+    if (!search || search.status !== "processing") return;
+
+    const lastActivity = search.steps?.[search.steps.length - 1]?.at ?? search.createdAt;
+    const deadline = lastActivity + SEARCH_TIMEOUT_MS;
+    if (deadline > Date.now()) {
+      await ctx.scheduler.runAt(deadline, internal.searches.interruptSearch, args);
+      return;
+    }
+
+    await ctx.db.patch(args.searchId, {
+      status: "interrupted",
+      completedAt: Date.now(),
+    });
+  },
+});
+
+const MAX_SEARCH_STEPS = 50;
+
+// The user's search while it still runs; null once it finished, failed or was interrupted
+async function runningSearch(ctx: MutationCtx, searchId: Id<"searches">, userId: string) {
+  const search = await ctx.db.get(searchId);
+  if (!search || search.userId !== userId) throw new Error("Search not found");
+  return search.status === "processing" ? search : null;
+}
+
+export const addSearchStep = mutation({
+  args: {
+    searchId: v.id("searches"),
+    userId: v.string(),
+    message: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const search = await runningSearch(ctx, args.searchId, args.userId);
+    if (!search) return;
+
+    const steps = [...(search.steps || []), { message: args.message, at: Date.now() }];
+    await ctx.db.patch(args.searchId, { steps: steps.slice(-MAX_SEARCH_STEPS) });
+  },
+});
+
+// A late answer does not overwrite a search that already failed or was interrupted
+export const completeSearch = mutation({
+  args: {
+    searchId: v.id("searches"),
+    userId: v.string(),
+    results: searchResults,
+  },
+  handler: async (ctx, args) => {
+    if (!(await runningSearch(ctx, args.searchId, args.userId))) return;
+
+    await ctx.db.patch(args.searchId, {
+      status: "completed",
+      completedAt: Date.now(),
+      results: args.results,
+      error: undefined,
+    });
+  },
+});
+
+export const failSearch = mutation({
+  args: {
+    searchId: v.id("searches"),
+    userId: v.string(),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    if (!(await runningSearch(ctx, args.searchId, args.userId))) return;
+
+    await ctx.db.patch(args.searchId, {
+      status: "failed",
+      completedAt: Date.now(),
+      error: args.error,
+    });
+  },
+});
+
+// Get a search by the id in its URL; null when the id is not one of the user's searches
+export const getSearch = query({
+  args: { searchId: v.string(), userId: v.string() },
+  handler: async (ctx, args) => {
+    const searchId = ctx.db.normalizeId("searches", args.searchId);
+    if (!searchId) return null;
+
+    const search = await ctx.db.get(searchId);
+    if (!search || search.userId !== args.userId) return null;
+
+    const collection = search.collectionId ? await ctx.db.get(search.collectionId) : null;
+    return {
+      ...search,
+      collectionName: collection?.name,
+    };
+  },
+});
@@ -0,0 +1,88 @@
+import { internalMutation, query, MutationCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { tableBoundingBox } from "./schema";
+
+// Identifies a table by its page and the paragraph holding its text
+export function tableKey(pageNumber: number, paragraphIndex: number): string {
+  return `${pageNumber}:${paragraphIndex}`;
+}
+
+// Tables deleted per mutation, to stay under the read and write limits
+const DELETE_BATCH = 200;
+
+/**
+ * Stores the tables of a document, numbered in the order given, once the
+ * ingestion action has deleted the earlier ones. Returns the new ids so the
+ * chunks can be linked to their tables.
+ */
+export const insertTables = internalMutation({
+  args: {
+    documentId: v.id("documents"),
+    tables: v.array(v.object({
+      pageNumber: v.number(),
+      paragraphIndex: v.number(),
+      startOffset: v.number(),
+      endOffset: v.number(),
+      header: v.array(v.string()),
+      rows: v.array(v.array(v.string())),
+      bbox: v.optional(tableBoundingBox),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const document = await ctx.db.get(args.documentId);
+    if (!document) throw new Error("Document not found");
+
+    const inserted = [];
+    for (const [index, table] of args.tables.entries()) {
+      const number = index + 1;
+      const tableId = await ctx.db.insert("tables", {
+        documentId: document._id,
+        userId: document.userId,
+        collectionId: document.collectionId,
+        number,
+        ...table,
+      });
+      inserted.push({ key: tableKey(table.pageNumber, table.paragraphIndex), tableId, number });
+    }
+    return inserted;
+  },
+});
+
+// Deletes a batch of a document's tables and returns whether tables remain
+export async function deleteTables(ctx: MutationCtx, documentId: Id<"documents">): Promise<boolean> {
+  const tables = await ctx.db
+    .query("tables")
+    .withIndex("by_document", (q) => q.eq("documentId", documentId))
+    .take(DELETE_BATCH);
+
+  for (const table of tables) {
+    await ctx.db.delete(table._id);
+  }
+  return tables.length === DELETE_BATCH;
+}
+
+// Called by the ingestion action until no tables remain
+export const deleteTableBatch = internalMutation({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => await deleteTables(ctx, args.documentId),
+});
+
+// A single table, e.g. to render a cited one
+export const getTable = query({
+  args: { tableId: v.id("tables") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.tableId);
+  },
+});
+
+// All tables of a document in order
+export const getDocumentTables = query({
+  args: { documentId: v.id("documents") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("tables")
+      .withIndex("by_document", (q) => q.eq("documentId", args.documentId))
+      .collect();
+  },
+});
@@ -0,0 +1,158 @@
+import { mutation, query, QueryCtx } from "./_generated/server";
+import { Id } from "./_generated/dataModel";
+import { v } from "convex/values";
+import { documentReference } from "./schema";
+
+const DEFAULT_TITLE = "New chat";
+
+// A thread of the given user; other users' threads read as missing
+async function ownThread(ctx: QueryCtx, threadId: Id<"threads">, userId: string) {
+  const thread = await ctx.db.get(threadId);
+  return thread && thread.userId === userId ? thread : null;
+}
+
+// Start a new chat thread
+export const createThread = mutation({
+  args: {
+    userId: v.string(),
+    title: v.optional(v.string()),
+    collectionId: v.optional(v.id("collections")),
+    documentIds: v.optional(v.array(v.id("documents"))),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    return await ctx.db.insert("threads", {
+      userId: args.userId,
+      title: args.title?.trim() || DEFAULT_TITLE,
+      collectionId: args.collectionId,
+      documentIds: args.documentIds,
+      createdAt: now,
+      updatedAt: now,
+      messageCount: 0,
+    });
+  },
+});
+
+// Get user's threads, most recently active first
+export const getUserThreads = query({
+  args: { userId: v.string() },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("threads")
+      .withIndex("by_user", (q) => q.eq("userId", args.userId))
+      .order("desc")
+      .collect();
+  },
+});
+
+// Get a specific thread
+export const getThread = query({
+  args: { threadId: v.id("threads"), userId: v.string() },
+  handler: async (ctx, args) => {
+    return await ownThread(ctx, args.threadId, args.userId);
+  },
+});
+
+// Messages of a thread in conversation order
+export const getThreadMessages = query({
+  args: { threadId: v.id("threads"), userId: v.string() },
+  handler: async (ctx, args) => {
+    if (!await ownThread(ctx, args.threadId, args.userId)) return [];
+
+    return await ctx.db
+      .query("messages")
+      .withIndex("by_thread", (q) => q.eq("threadId", args.threadId))
+      .collect();
+  },
+});
+
+// Rename a thread
+export const renameThread = mutation({
+  args: {
+    threadId: v.id("threads"),
+    userId: v.string(),
+    title: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const thread = await ownThread(ctx, args.threadId, args.userId);
+    if (!thread) throw new Error("Thread not found");
+
+    const title = args.title.trim();
+    if (!title) throw new Error("Thread title cannot be empty");
+
+    await ctx.db.patch(args.threadId, { title });
+  },
+});
+
+// Change which collection or documents a thread answers from
+export const updateThreadScope = mutation({
+  args: {
+    threadId: v.id("threads"),
+    userId: v.string(),
+    collectionId: v.optional(v.id("collections")),
+    documentIds: v.optional(v.array(v.id("documents"))),
+  },
+  handler: async (ctx, args) => {
+    const thread = await ownThread(ctx, args.threadId, args.userId);
+    if (!thread) throw new Error("Thread not found");
+
+    // Unset fields clear the previous scope
+    await ctx.db.patch(args.threadId, {
+      collectionId: args.collectionId,
+      documentIds: args.documentIds,
+    });
+  },
+});
+
+// Append a chat turn to a thread
+export const addMessage = mutation({
+  args: {
+    threadId: v.id("threads"),
+    userId: v.string(),
+    role: v.union(v.literal("user"), v.literal("assistant")),
+    content: v.string(),
+    references: v.optional(v.array(documentReference)),
+    stopped: v.optional(v.boolean()),
+  },
+  handler: async (ctx, { userId, ...message }) => {
+    const thread = await ownThread(ctx, message.threadId, userId);
+    if (!thread) throw new Error("Thread not found");
+
+    const now = Date.now();
+    const messageId = await ctx.db.insert("messages", {
+      ...message,
+      createdAt: now,
+    });
+
+    // Untitled threads are named after their first question
+    await ctx.db.patch(message.threadId, {
+      updatedAt: now,
+      messageCount: thread.messageCount + 1,
+      ...(thread.title === DEFAULT_TITLE && message.role === "user" && {
+        title: message.content.slice(0, 80),
+      }),
+    });
+
+    return messageId;
+  },
+});
+
+// Delete a thread and its messages
+export const deleteThread = mutation({
+  args: { threadId: v.id("threads"), userId: v.string() },
+  handler: async (ctx, args) => {
+    const thread = await ownThread(ctx, args.threadId, args.userId);
+    if (!thread) throw new Error("Thread not found");
+
+    const messages = await ctx.db
+      .query("messages")
+      .withIndex("by_thread", (q) => q.eq("threadId", args.threadId))
+      .collect();
+
+    for (const message of messages) {
+      await ctx.db.delete(message._id);
+    }
+
+    await ctx.db.delete(args.threadId);
+  },
+});
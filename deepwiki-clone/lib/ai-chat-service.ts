@@ -3,50 +3,151 @@
  * Provides DeepWiki-style chat interface for querying documents
  */
 
+import { ChunkRetriever, RetrievedChunk } from './search-service';
+import { LLMProvider, GenerationRequest, ExtractiveProvider, createProvider, getLLMConfig, linkCitations } from './llm-provider';
+import { StandaloneQuery, rewriteQuery, fitToTokenBudget } from './conversation-context';
+import { DocumentScope, ALL_DOCUMENTS, isInScope, toScopeFields } from './document-scope';
+import { SectionLocation } from '@/convex/lib/chunking';
+import { analyze } from '@/convex/lib/textAnalysis';
+import { TableLocation } from '@/convex/lib/tables';
+import { ChangeType } from '@/convex/lib/diff';
+import { KeyConcept, relatedConcepts } from './key-concepts';
+import { VersionComparison, PageLoader, resolveComparison, compareVersions } from './version-changes';
+
 export interface ChatMessage {
   id: string;
   type: 'user' | 'assistant';
   content: string;
   timestamp: number;
   references?: DocumentReference[];
+  // Set when the user cancelled generation before the answer finished
+  stopped?: boolean;
 }
 
 export interface DocumentReference {
   documentId: string;
   documentName: string;
   pageNumber: number;
+  paragraphIndex: number;
+  section?: SectionLocation;
+  // Set when the cited passage is (part of) a table
+  table?: TableLocation;
+  // Set when the passage is a change between two document versions
+  change?: ChangeType;
+  // Character range of the excerpt within the document text
+  charStart: number;
+  charEnd: number;
   excerpt: string;
   relevantText: string;
   confidence: number;
 }
 
+// Identifies a reference across the chat links and the reference panel
+export function getReferenceKey(ref: Pick<DocumentReference, 'documentId' | 'pageNumber' | 'charStart'>): string {
+  return `${ref.documentId}:${ref.pageNumber}:${ref.charStart}`;
+}
+
+// Cites the sentence of a chunk that mentions the most query terms
+export function toReference(chunk: RetrievedChunk, query: string, confidence: number): DocumentReference {
+  // Every term but stopwords counts, so short ones like "AI" or "EU" too
+  const queryTerms = Array.from(new Set(analyze(query)));
+
+  // Extract relevant excerpt (sentence containing the most terms)
+  const sentencePattern = /[^.!?]+/g;
+  let best = { text: '', start: 0 };
+  let bestScore = -1;
+  let match;
+
+  while ((match = sentencePattern.exec(chunk.text)) !== null) {
+    const sentenceTerms = new Set(analyze(match[0]));
+    const sentenceScore = queryTerms.filter(term => sentenceTerms.has(term)).length;
+    if (sentenceScore > bestScore && match[0].trim()) {
+      bestScore = sentenceScore;
+      // Keep the offset of the trimmed sentence
+      const leading = match[0].length - match[0].trimStart().length;
+      best = { text: match[0].trim(), start: match.index + leading };
+    }
+  }
+
+  const excerpt = best.text.substring(0, 200);
+  return {
+    documentId: chunk.documentId,
+    documentName: chunk.documentName,
+    pageNumber: chunk.pageNumber,
+    paragraphIndex: chunk.paragraphIndex,
+    section: chunk.section,
+    table: chunk.table,
+    charStart: chunk.startOffset + best.start,
+    charEnd: chunk.startOffset + best.start + excerpt.length,
+    excerpt: excerpt + (best.text.length > 200 ? '...' : ''),
+    relevantText: chunk.text.substring(0, 500) + (chunk.text.length > 500 ? '...' : ''),
+    confidence
+  };
+}
+
 export interface ChatResponse {
   message: ChatMessage;
   references: DocumentReference[];
   relatedQuestions?: string[];
 }
 
-interface Document {
+export type ChatStreamEvent =
+  | { type: 'references'; references: DocumentReference[] }
+  | { type: 'token'; text: string }
+  // A reference link in the answer has been fully received
+  | { type: 'citation'; reference: DocumentReference }
+  | { type: 'done'; response: ChatResponse };
+
+// What the service needs to know about the user's documents
+export interface ChatDocument {
   id: string;
   originalName: string;
-  textContent?: string;
-  analysis?: {
-    text_content: string;
-    sections: Array<{
-      page_number: number;
-      content: string;
-    }>;
-  };
+  // Processing status; only completed documents have text to answer from
+  status?: string;
+  keyConcepts?: KeyConcept[];
+  collectionId?: string;
+  version?: number;
+  previousVersionId?: string;
 }
 
-class AIChatService {
-  private documents: Document[] = [];
-  private chatHistory: ChatMessage[] = [];
+const MAX_REFERENCES = 5;
+const RELATED_QUESTIONS = 3;
+const CANDIDATE_CHUNKS = 10;
+// Score multipliers for documents the conversation has already cited
+const CITED_DOCUMENT_BOOST = 1.5;
+const FOCUS_DOCUMENT_BOOST = 10;
 
-  setDocuments(docs: Document[]) {
+export class AIChatService {
+  private documents: ChatDocument[] = [];
+  private chatHistory: ChatMessage[] = [];
+  private retriever: ChunkRetriever | null = null;
+  private loadPages: PageLoader | null = null;
+  private scope: DocumentScope = ALL_DOCUMENTS;
+  private config = getLLMConfig();
+  private provider: LLMProvider = createProvider(this.config);
+  private fallbackProvider = new ExtractiveProvider();
+
+  setDocuments(docs: ChatDocument[]) {
     this.documents = docs;
   }
 
+  setRetriever(retriever: ChunkRetriever) {
+    this.retriever = retriever;
+  }
+
+  setPageLoader(loader: PageLoader) {
+    this.loadPages = loader;
+  }
+
+  // Only chunks from these documents are retrieved for answers
+  setScope(scope: DocumentScope) {
+    this.scope = scope;
+  }
+
+  setProvider(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
   getChatHistory(): ChatMessage[] {
     return this.chatHistory;
   }
@@ -55,201 +156,273 @@ class AIChatService {
     this.chatHistory = [];
   }
 
+  // Resume a saved conversation
+  loadHistory(messages: ChatMessage[]) {
+    this.chatHistory = [...messages];
+  }
+
   async askQuestion(question: string): Promise<ChatResponse> {
-    // Add user message to history
-    const userMessage: ChatMessage = {
+    // Follow-ups are resolved against the turns before this question
+    const history = [...this.chatHistory];
+    const standalone = rewriteQuery(question, history);
+    this.addUserMessage(question);
+
+    // Find relevant document passages, or the changes a question about versions asks for
+    const comparison = await this.findComparison(question);
+    const references = comparison ? comparison.references : await this.findRelevantContent(standalone);
+    
+    // Generate the answer with the configured LLM provider
+    const aiResponse = await this.generateResponse(
+      this.buildRequest(question, references, history),
+      comparison && this.getNoChangesMessage(comparison)
+    );
+    
+    return this.addAssistantMessage(question, aiResponse, references);
+  }
+
+  /**
+   * Streams the answer as it is generated. Stops early when the signal is
+   * aborted and keeps the partial answer in the history.
+   */
+  async *streamQuestion(question: string, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+    const history = [...this.chatHistory];
+    const standalone = rewriteQuery(question, history);
+    this.addUserMessage(question);
+
+    const comparison = await this.findComparison(question);
+    const references = comparison ? comparison.references : await this.findRelevantContent(standalone);
+    yield { type: 'references', references };
+
+    let content = '';
+    const cited = new Set<string>();
+    const request = this.buildRequest(question, references, history, signal);
+
+    for await (const text of this.streamResponse(request, comparison && this.getNoChangesMessage(comparison))) {
+      content += text;
+      yield { type: 'token', text };
+
+      for (const reference of findCitations(content, references)) {
+        const key = getReferenceKey(reference);
+        if (!cited.has(key)) {
+          cited.add(key);
+          yield { type: 'citation', reference };
+        }
+      }
+    }
+
+    yield {
+      type: 'done',
+      response: this.addAssistantMessage(question, content, references, signal?.aborted)
+    };
+  }
+
+  // Answers from passages found elsewhere, e.g. by deep search, outside the conversation
+  async answerFromReferences(question: string, references: DocumentReference[]): Promise<string> {
+    return this.generateResponse(this.buildRequest(question, references, []));
+  }
+
+  private addUserMessage(question: string) {
+    this.chatHistory.push({
       id: `user_${Date.now()}`,
       type: 'user',
       content: question,
       timestamp: Date.now()
-    };
-    this.chatHistory.push(userMessage);
+    });
+  }
 
-    // Find relevant document passages
-    const references = this.findRelevantContent(question);
-    
-    // Generate AI response (simulated for now)
-    const aiResponse = await this.generateResponse(question, references);
-    
-    // Add AI message to history
+  private addAssistantMessage(
+    question: string,
+    content: string,
+    references: DocumentReference[],
+    stopped?: boolean
+  ): ChatResponse {
     const assistantMessage: ChatMessage = {
       id: `assistant_${Date.now()}`,
       type: 'assistant',
-      content: aiResponse,
+      content,
       timestamp: Date.now(),
-      references
+      references,
+      ...(stopped && { stopped })
     };
     this.chatHistory.push(assistantMessage);
 
     return {
       message: assistantMessage,
       references,
-      relatedQuestions: this.generateRelatedQuestions(question, references)
+      relatedQuestions: stopped ? [] : this.generateRelatedQuestions(question, references)
     };
   }
 
-  private findRelevantContent(question: string): DocumentReference[] {
-    const references: DocumentReference[] = [];
-    const queryTerms = question.toLowerCase().split(' ').filter(term => term.length > 2);
-
-    this.documents.forEach(doc => {
-      const content = doc.textContent || doc.analysis?.text_content || '';
-      const sections = doc.analysis?.sections || [];
-
-      // Score each section based on relevance
-      sections.forEach(section => {
-        let relevanceScore = 0;
-        const sectionLower = section.content.toLowerCase();
-        
-        queryTerms.forEach(term => {
-          const matches = (sectionLower.match(new RegExp(term, 'g')) || []).length;
-          relevanceScore += matches;
-        });
-
-        if (relevanceScore > 0) {
-          // Extract relevant excerpt (sentence containing the terms)
-          const sentences = section.content.split(/[.!?]+/);
-          let bestSentence = '';
-          let bestScore = 0;
-
-          sentences.forEach(sentence => {
-            const sentenceLower = sentence.toLowerCase();
-            let sentenceScore = 0;
-            queryTerms.forEach(term => {
-              if (sentenceLower.includes(term)) sentenceScore++;
-            });
-            if (sentenceScore > bestScore) {
-              bestScore = sentenceScore;
-              bestSentence = sentence.trim();
-            }
-          });
-
-          if (bestSentence) {
-            references.push({
-              documentId: doc.id,
-              documentName: doc.originalName,
-              pageNumber: section.page_number,
-              excerpt: bestSentence.substring(0, 200) + (bestSentence.length > 200 ? '...' : ''),
-              relevantText: section.content.substring(0, 500) + (section.content.length > 500 ? '...' : ''),
-              confidence: (relevanceScore / queryTerms.length) * 100
-            });
-          }
-        }
-      });
-    });
+  // Questions like "what changed between v2 and v3?" are answered from the diff of the two versions
+  private async findComparison(question: string): Promise<VersionComparison | undefined> {
+    const versions = resolveComparison(question, this.documents, this.scope.documentIds);
+    if (!versions || !this.loadPages) return undefined;
 
-    // Sort by confidence and return top 5
-    return references
-      .sort((a, b) => b.confidence - a.confidence)
-      .slice(0, 5);
+    const [before, after] = await Promise.all([
+      this.loadPages(versions.before.id),
+      this.loadPages(versions.after.id),
+    ]);
+    return compareVersions(versions.before, versions.after, { before, after });
   }
 
-  private async generateResponse(question: string, references: DocumentReference[]): Promise<string> {
-    // Simulated AI response generation with clickable references
-    // In production, this would call OpenAI/Anthropic API
-    
-    if (references.length === 0) {
-      return `I couldn't find specific information about "${question}" in your uploaded documents. Try asking about topics that are covered in your PDFs, or upload documents that contain relevant information.`;
+  private async findRelevantContent(standalone: StandaloneQuery): Promise<DocumentReference[]> {
+    if (!this.retriever) return [];
+
+    const { query, preferredDocumentIds } = standalone;
+    // The earlier answer may have cited a document the current scope leaves out
+    const focusDocument = this.documents.find(doc => doc.id === standalone.focusReference?.documentId);
+    const focusReference = focusDocument && isInScope(focusDocument, this.scope) ? standalone.focusReference : undefined;
+
+    // Over-fetch so chunks from already cited documents can move up
+    const scope = toScopeFields(this.scope);
+    const candidates = await this.retriever(query, { ...scope, limit: CANDIDATE_CHUNKS });
+    if (focusReference) {
+      const focused = await this.retriever(query, {
+        ...scope,
+        documentId: focusReference.documentId,
+        limit: MAX_REFERENCES
+      });
+      candidates.push(...focused.filter(chunk => !candidates.some(c => c._id === chunk._id)));
     }
 
-    // Generate a contextual response with embedded clickable references
-    let response = `Based on your documents, here's what I found about "${question}":
+    const preferred = new Set(preferredDocumentIds);
+    const chunks = candidates
+      .map(chunk => {
+        let score = 1 / (chunk.rank + 1);
+        if (chunk.documentId === focusReference?.documentId) score *= FOCUS_DOCUMENT_BOOST;
+        else if (preferred.has(chunk.documentId)) score *= CITED_DOCUMENT_BOOST;
+        return { chunk, score };
+      })
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_REFERENCES)
+      .map(({ chunk }, rank) => ({ ...chunk, rank }));
+
+    // Chunks arrive ranked by the search index
+    return chunks.map(chunk => toReference(chunk, query, 100 / (chunk.rank + 1)));
+  }
 
-${this.summarizeContentWithReferences(references)}
+  // Trims excerpts and earlier turns to the configured context budget
+  private buildRequest(
+    question: string,
+    references: DocumentReference[],
+    history: ChatMessage[],
+    signal?: AbortSignal
+  ): GenerationRequest {
+    const context = fitToTokenBudget(references, history, this.config.contextTokens);
+    return { question, references: context.references, history: context.history, signal };
+  }
 
-This information is sourced from ${references.length} relevant section${references.length > 1 ? 's' : ''} across your documents.`;
+  private async generateResponse(
+    request: GenerationRequest,
+    emptyMessage = this.getNoResultsMessage(request.question)
+  ): Promise<string> {
+    if (request.references.length === 0) {
+      return emptyMessage;
+    }
 
-    return response;
+    try {
+      return await this.provider.generate(request);
+    } catch (error) {
+      // Keep answering from the excerpts when the model server is unreachable
+      console.error(`LLM provider "${this.provider.name}" failed, using extractive answer:`, error);
+      return this.fallbackProvider.generate(request);
+    }
   }
 
-  private summarizeContentWithReferences(references: DocumentReference[]): string {
-    if (references.length === 0) return "No relevant content found.";
-    
-    // Group references by document
-    const byDocument = new Map<string, DocumentReference[]>();
-    references.forEach(ref => {
-      const existing = byDocument.get(ref.documentName) || [];
-      existing.push(ref);
-      byDocument.set(ref.documentName, existing);
-    });
+  private async *streamResponse(
+    request: GenerationRequest,
+    emptyMessage = this.getNoResultsMessage(request.question)
+  ): AsyncGenerator<string> {
+    const { references, signal } = request;
+    if (references.length === 0) {
+      yield emptyMessage;
+      return;
+    }
 
-    let summary = '';
-    byDocument.forEach((refs, docName) => {
-      summary += `**From ${docName}:**\n`;
-      refs.forEach(ref => {
-        // Create clickable reference link like DeepWiki
-        const refLink = `[${docName}:page${ref.pageNumber}](ref:${ref.documentId}:${ref.pageNumber})`;
-        summary += `- ${ref.excerpt} ${refLink}\n`;
-      });
-      summary += '\n';
-    });
+    let emitted = false;
+    let pending = '';
 
-    return summary.trim();
-  }
+    try {
+      for await (const token of this.provider.stream(request)) {
+        if (signal?.aborted) return;
 
-  private summarizeContent(references: DocumentReference[]): string {
-    if (references.length === 0) return "No relevant content found.";
-    
-    // Group references by document
-    const byDocument = new Map<string, DocumentReference[]>();
-    references.forEach(ref => {
-      const existing = byDocument.get(ref.documentName) || [];
-      existing.push(ref);
-      byDocument.set(ref.documentName, existing);
-    });
+        // Hold back a partial source marker like "[1" until it can be linked
+        pending += token;
+        const held = pending.match(/\[\d*$/)?.[0] ?? '';
+        const ready = pending.slice(0, pending.length - held.length);
+        pending = held;
 
-    let summary = '';
-    byDocument.forEach((refs, docName) => {
-      summary += `**From ${docName}:**\n`;
-      refs.forEach(ref => {
-        summary += `- ${ref.excerpt}\n`;
-      });
-      summary += '\n';
-    });
+        if (ready) {
+          emitted = true;
+          yield linkCitations(ready, references);
+        }
+      }
+      if (pending) yield linkCitations(pending, references);
+    } catch (error) {
+      if (signal?.aborted) return;
+      // Only fall back when nothing has been shown yet, otherwise the answer would restart
+      if (emitted) throw error;
+      console.error(`LLM provider "${this.provider.name}" failed, using extractive answer:`, error);
+      yield* this.fallbackProvider.stream(request);
+    }
+  }
+
+  private getNoResultsMessage(question: string): string {
+    return `I couldn't find specific information about "${question}" in your uploaded documents. Try asking about topics that are covered in your PDFs, or upload documents that contain relevant information.`;
+  }
 
-    return summary.trim();
+  private getNoChangesMessage({ before, after }: VersionComparison): string {
+    return `The text of ${after.originalName} did not change between version ${before.version ?? 1} and version ${after.version ?? 1}.`;
   }
 
+  // Follow-up questions about the key concepts on the cited pages
   private generateRelatedQuestions(question: string, references: DocumentReference[]): string[] {
     if (references.length === 0) return [];
 
-    // Extract key terms from references to suggest related questions
-    const content = references.map(r => r.relevantText).join(' ');
-    const words = content.toLowerCase()
-      .replace(/[^\w\s]/g, '')
-      .split(' ')
-      .filter(word => word.length > 4);
-    
-    const wordFreq = new Map<string, number>();
-    words.forEach(word => {
-      wordFreq.set(word, (wordFreq.get(word) || 0) + 1);
-    });
-
-    const topWords = Array.from(wordFreq.entries())
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 3)
-      .map(([word]) => word);
+    const concepts = relatedConcepts(
+      references,
+      documentId => this.documents.find(doc => doc.id === documentId)?.keyConcepts,
+      question,
+      RELATED_QUESTIONS
+    );
 
     const suggestions = [
-      `What else does the document say about ${topWords[0]}?`,
-      `Can you explain more about ${topWords[1]}?`,
-      `How does ${topWords[0]} relate to ${topWords[1]}?`,
-      `What are the key points about ${references[0]?.documentName.replace('.pdf', '')}?`,
+      ...concepts.map(questionAbout),
+      `What are the key points about ${references[0].documentName.replace(/\.pdf$/i, '')}?`,
       `Can you summarize the main concepts?`
     ];
 
-    return suggestions.slice(0, 3);
+    return suggestions.slice(0, RELATED_QUESTIONS);
   }
 
   getDocumentStatistics() {
     return {
       totalDocuments: this.documents.length,
       totalChatMessages: this.chatHistory.length,
-      availableForChat: this.documents.filter(doc => 
-        doc.textContent || doc.analysis?.text_content
-      ).length
+      availableForChat: this.documents.filter(doc => doc.status === 'completed').length
     };
   }
 }
 
+function questionAbout(concept: KeyConcept): string {
+  switch (concept.type) {
+    case 'acronym':
+      return concept.expansion
+        ? `What role does ${concept.expansion} (${concept.text}) play?`
+        : `What does ${concept.text} stand for?`;
+    case 'defined_term':
+      return `How is "${concept.text}" defined?`;
+    case 'entity':
+      return `What does the document say about ${concept.text}?`;
+    case 'noun_phrase':
+      return `Can you explain ${concept.text}?`;
+  }
+}
+
+// References whose links are complete in the (possibly partial) answer text
+function findCitations(content: string, references: DocumentReference[]): DocumentReference[] {
+  const keys = new Set(Array.from(content.matchAll(/\]\(ref:([^)\s]+)\)/g), match => match[1]));
+  return references.filter(ref => keys.has(getReferenceKey(ref)));
+}
+
 export const aiChatService = new AIChatService();
\ No newline at end of file
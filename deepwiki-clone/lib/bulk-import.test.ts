@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { ImportFile, folderPlacement, runImportQueue } from './bulk-import'
+
+function importFile(path: string): ImportFile {
+  return { path, size: 1, mimeType: 'text/plain', getFile: async () => new File(['x'], path) }
+}
+
+describe('folderPlacement', () => {
+  it('maps the top folder to a collection and the folders below it to tags', () => {
+    expect(folderPlacement('Leases/2024/Berlin/lease.pdf')).toEqual({
+      collection: 'Leases',
+      tags: ['2024', 'Berlin'],
+      name: '2024/Berlin/lease.pdf',
+    })
+  })
+
+  it('names files in different subfolders apart', () => {
+    expect(folderPlacement('Reports/a/report.pdf').name).not.toBe(folderPlacement('Reports/b/report.pdf').name)
+  })
+
+  it('leaves loose files without a collection', () => {
+    expect(folderPlacement('report.pdf')).toEqual({ collection: undefined, tags: [], name: 'report.pdf' })
+  })
+})
+
+describe('runImportQueue', () => {
+  it('retries only the step that failed', async () => {
+    let stores = 0
+    let records = 0
+    const [result] = await runImportQueue(
+      [importFile('a.txt')],
+      {
+        store: async () => `storage-${++stores}`,
+        record: async (_, stored) => {
+          if (++records < 3) throw new Error('Network error')
+          return { status: 'completed', documentId: stored }
+        },
+      },
+      { maxAttempts: 3, retryDelayMs: 0 }
+    )
+
+    expect(result).toEqual({ path: 'a.txt', status: 'completed', attempts: 3, documentId: 'storage-1' })
+    expect(stores).toBe(1)
+  })
+
+  it('reports a file as failed after its last attempt', async () => {
+    const statuses: string[] = []
+    const [result] = await runImportQueue(
+      [importFile('a.txt')],
+      {
+        store: async () => { throw new Error('Upload failed with HTTP 500') },
+        record: async () => ({ status: 'completed' }),
+      },
+      { maxAttempts: 2, retryDelayMs: 0, onStatus: (_, status) => statuses.push(status) }
+    )
+
+    expect(result).toEqual({ path: 'a.txt', status: 'failed', attempts: 2, error: 'Upload failed with HTTP 500' })
+    expect(statuses).toEqual(['queued', 'uploading', 'retrying', 'failed'])
+  })
+
+  it('keeps at most `concurrency` uploads in flight', async () => {
+    let inFlight = 0
+    let peak = 0
+    const results = await runImportQueue(
+      ['a', 'b', 'c', 'd', 'e'].map(importFile),
+      {
+        store: async file => {
+          peak = Math.max(peak, ++inFlight)
+          await new Promise(resolve => setTimeout(resolve, 5))
+          inFlight--
+          return file.path
+        },
+        record: async () => ({ status: 'completed' }),
+      },
+      { concurrency: 2 }
+    )
+
+    expect(results).toHaveLength(5)
+    expect(peak).toBe(2)
+  })
+})
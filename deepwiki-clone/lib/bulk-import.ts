@@ -0,0 +1,259 @@
+/**
+ * Bulk Import
+ * Collects the files of a ZIP archive or a dropped folder and uploads them on a
+ * queue with bounded concurrency and per-file retries. A file's top-level
+ * folder becomes its collection and the folders below that its tags and
+ * part of its name.
+ */
+
+import { resolveMimeType } from '@/convex/lib/formats';
+import { readZipEntries } from './zip-reader';
+
+export interface ImportFile {
+  // Path within the archive or folder, separated by "/"
+  path: string;
+  size: number;
+  mimeType: string;
+  getFile(): Promise<File>;
+}
+
+export interface ImportSource {
+  name: string;
+  // Identifies the same archive or folder when an import is resumed
+  key: string;
+  files: ImportFile[];
+  // Paths of files in a format without an adapter
+  skipped: string[];
+}
+
+export interface FolderPlacement {
+  collection?: string;
+  tags: string[];
+  // The path below the collection folder, so files with the same name in
+  // different subfolders are separate documents rather than versions
+  name: string;
+}
+
+export type ImportFileStatus = 'queued' | 'uploading' | 'retrying' | 'completed' | 'duplicate' | 'failed';
+
+export interface UploadOutcome {
+  status: 'completed' | 'duplicate';
+  documentId?: string;
+}
+
+/**
+ * Uploads a file in two steps: storing it, then creating its document. A
+ * retry repeats only the step that failed, so a stored file is not stored
+ * again when creating the document fails.
+ */
+export interface ImportUploader<Stored> {
+  store: (file: ImportFile) => Promise<Stored>;
+  record: (file: ImportFile, stored: Stored) => Promise<UploadOutcome>;
+}
+
+export interface ImportResult {
+  path: string;
+  status: 'completed' | 'duplicate' | 'failed';
+  attempts: number;
+  documentId?: string;
+  error?: string;
+}
+
+export interface ImportQueueOptions {
+  concurrency?: number;
+  maxAttempts?: number;
+  // Wait before the first retry; each later retry waits twice as long
+  retryDelayMs?: number;
+  onStatus?: (path: string, status: ImportFileStatus) => void;
+  // Awaited before the worker takes the next file, e.g. to persist progress
+  onResult?: (result: ImportResult) => Promise<void> | void;
+  // Stops taking new files; files already uploading finish
+  signal?: AbortSignal;
+}
+
+const DEFAULT_CONCURRENCY = 3;
+const DEFAULT_MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000;
+
+export function folderPlacement(path: string): FolderPlacement {
+  const segments = path.split('/');
+  const folders = segments.slice(0, -1);
+  return {
+    collection: folders[0],
+    tags: folders.slice(1),
+    name: segments.slice(folders.length > 0 ? 1 : 0).join('/'),
+  };
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+// Dot files and the resource forks macOS adds to archives
+function isHidden(path: string): boolean {
+  return path.split('/').some(segment => segment.startsWith('.') || segment === '__MACOSX');
+}
+
+function toSource(
+  name: string,
+  key: string,
+  entries: Array<{ path: string; size: number; type?: string; getBlob(): Promise<Blob> }>
+): ImportSource {
+  const files: ImportFile[] = [];
+  const skipped: string[] = [];
+
+  for (const entry of entries) {
+    if (isHidden(entry.path)) continue;
+    const mimeType = resolveMimeType(basename(entry.path), entry.type || '');
+    if (!mimeType) {
+      skipped.push(entry.path);
+      continue;
+    }
+    files.push({
+      path: entry.path,
+      size: entry.size,
+      mimeType,
+      getFile: async () => new File([await entry.getBlob()], basename(entry.path), { type: mimeType }),
+    });
+  }
+
+  return { name, key, files, skipped };
+}
+
+export async function sourceFromZip(archive: File): Promise<ImportSource> {
+  const entries = await readZipEntries(archive);
+  return toSource(
+    archive.name,
+    `zip:${archive.name}:${archive.size}:${archive.lastModified}`,
+    entries.map(entry => ({ path: entry.path, size: entry.size, getBlob: entry.read }))
+  );
+}
+
+/**
+ * Resume key of a folder: its name plus the number, total size and newest
+ * modification time of its files, so a folder whose files changed since an
+ * interrupted import is imported afresh instead of skipping paths.
+ */
+function folderKey(name: string, files: File[]): string {
+  const totalSize = files.reduce((sum, file) => sum + file.size, 0);
+  const lastModified = files.reduce((latest, file) => Math.max(latest, file.lastModified), 0);
+  return `folder:${name}:${files.length}:${totalSize}:${lastModified}`;
+}
+
+// Files from an <input webkitdirectory>, which keeps the folder in webkitRelativePath
+export function sourceFromFolderInput(files: FileList): ImportSource {
+  const list = Array.from(files);
+  const name = list[0]?.webkitRelativePath.split('/')[0] || 'Folder';
+  return toSource(
+    name,
+    folderKey(name, list),
+    list.map(file => ({
+      path: file.webkitRelativePath || file.name,
+      size: file.size,
+      type: file.type,
+      getBlob: async () => file,
+    }))
+  );
+}
+
+async function readDirectory(directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> {
+  const reader = directory.createReader();
+  const entries: FileSystemEntry[] = [];
+  // Entries arrive in batches until an empty one
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) return entries;
+    entries.push(...batch);
+  }
+}
+
+async function collectFiles(entry: FileSystemEntry): Promise<Array<{ path: string; file: File }>> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) => (entry as FileSystemFileEntry).file(resolve, reject));
+    return [{ path: entry.fullPath.replace(/^\//, ''), file }];
+  }
+
+  const children = await readDirectory(entry as FileSystemDirectoryEntry);
+  const nested = await Promise.all(children.map(collectFiles));
+  return nested.flat();
+}
+
+/**
+ * Files dropped on the page: a single ZIP archive is read as an archive,
+ * anything else as folders and loose files
+ */
+export async function sourceFromDrop(dataTransfer: DataTransfer): Promise<ImportSource> {
+  const entries = Array.from(dataTransfer.items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null);
+
+  const [first] = Array.from(dataTransfer.files);
+  if (entries.length === 1 && entries[0].isFile && first?.name.toLowerCase().endsWith('.zip')) {
+    return sourceFromZip(first);
+  }
+
+  const files = (await Promise.all(entries.map(collectFiles))).flat();
+  const names = entries.map(entry => entry.name).sort();
+  return toSource(
+    names.length === 1 ? names[0] : `${names.length} items`,
+    folderKey(names.join('|'), files.map(({ file }) => file)),
+    files.map(({ path, file }) => ({ path, size: file.size, type: file.type, getBlob: async () => file }))
+  );
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function uploadWithRetry<Stored>(
+  file: ImportFile,
+  uploader: ImportUploader<Stored>,
+  options: ImportQueueOptions
+): Promise<ImportResult> {
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+  let stored: Stored | undefined;
+  let error = '';
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    options.onStatus?.(file.path, attempt === 1 ? 'uploading' : 'retrying');
+    try {
+      if (stored === undefined) stored = await uploader.store(file);
+      const outcome = await uploader.record(file, stored);
+      options.onStatus?.(file.path, outcome.status);
+      return { path: file.path, attempts: attempt, ...outcome };
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err);
+      if (attempt < maxAttempts) await delay((options.retryDelayMs ?? RETRY_DELAY_MS) * 2 ** (attempt - 1));
+    }
+  }
+
+  options.onStatus?.(file.path, 'failed');
+  return { path: file.path, status: 'failed', attempts: maxAttempts, error };
+}
+
+/**
+ * Uploads the files with at most `concurrency` in flight, retrying each
+ * failed step with exponential backoff. Results are in completion order.
+ */
+export async function runImportQueue<Stored>(
+  files: ImportFile[],
+  uploader: ImportUploader<Stored>,
+  options: ImportQueueOptions = {}
+): Promise<ImportResult[]> {
+  const results: ImportResult[] = [];
+  let next = 0;
+
+  files.forEach(file => options.onStatus?.(file.path, 'queued'));
+
+  const worker = async () => {
+    while (next < files.length && !options.signal?.aborted) {
+      const result = await uploadWithRetry(files[next++], uploader, options);
+      results.push(result);
+      await options.onResult?.(result);
+    }
+  };
+
+  const concurrency = Math.min(options.concurrency ?? DEFAULT_CONCURRENCY, files.length);
+  await Promise.all(Array.from({ length: concurrency }, worker));
+  return results;
+}
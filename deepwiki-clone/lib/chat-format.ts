@@ -0,0 +1,60 @@
+/**
+ * Chat Answer Formatting
+ * Turns an answer's markdown-like text into HTML with clickable reference
+ * links, shared by the chat page and the document reader's chat box.
+ */
+
+import { DocumentReference } from './ai-chat-service';
+
+export function formatAnswerHtml(content: string, isStreaming = false): string {
+  let source = content;
+  if (isStreaming) {
+    // Hide a trailing reference link until its closing parenthesis arrives
+    source = source.replace(/\[[^\]\n]*(\]|\]\([^)\n]*)?$/, '');
+    // Close an unfinished bold run so it renders while streaming
+    if ((source.match(/\*\*/g) || []).length % 2 === 1) source += '**';
+  }
+
+  // Answers quote document text, so it is escaped before any markup is added
+  let formatted = escapeHtml(source)
+    .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*(.*?)\*/g, '<em>$1</em>')
+    .replace(/\n/g, '<br />');
+
+  // Handle DeepWiki-style reference links: [filename:pageX](ref:docId:pageNumber:charStart)
+  formatted = formatted.replace(
+    /\[([^\]]+)\]\(ref:([^:]+):(\d+)(?::(\d+))?\)/g,
+    '<button class="reference-link text-blue-600 dark:text-blue-400 hover:underline font-medium" data-doc-id="$2" data-page="$3" data-char-start="$4">$1</button>'
+  );
+
+  if (isStreaming) {
+    formatted += '<span class="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-gray-400 animate-pulse"></span>';
+  }
+
+  return formatted;
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// The reference behind a clicked link from formatAnswerHtml, null for other elements
+export function findClickedReference(target: HTMLElement, references: DocumentReference[]): DocumentReference | null {
+  if (!target.classList.contains('reference-link')) return null;
+
+  const docId = target.getAttribute('data-doc-id');
+  const page = target.getAttribute('data-page');
+  const charStart = target.getAttribute('data-char-start');
+  if (!docId || !page) return null;
+
+  // Older links without a character offset resolve to the first reference on the page
+  return references.find(
+    ref => ref.documentId === docId && ref.pageNumber === parseInt(page) &&
+      (!charStart || ref.charStart === parseInt(charStart))
+  ) ?? null;
+}
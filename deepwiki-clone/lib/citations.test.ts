@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest'
+import { DocumentCitation, pageExcerpt, splitCitations } from './citations'
+import { toPageText } from '@/convex/lib/chunking'
+
+const cite = (documentName: string, firstPage: number, lastPage: number, text: string): DocumentCitation =>
+  ({ documentName, firstPage, lastPage, text })
+
+describe('splitCitations', () => {
+  it('splits plain citations and page ranges out of the text', () => {
+    expect(splitCitations('Rent is due monthly (lease.pdf:p3) and late fees apply (lease.pdf:p4-6).')).toEqual([
+      'Rent is due monthly (',
+      cite('lease.pdf', 3, 3, 'lease.pdf:p3'),
+      ') and late fees apply (',
+      cite('lease.pdf', 4, 6, 'lease.pdf:p4-6'),
+      ').',
+    ])
+  })
+
+  it('reads ranges written with a second p and orders reversed ranges', () => {
+    const [first, , second] = splitCitations('lease.pdf:p4-p6 and lease.pdf:p9-7')
+    expect(first).toEqual(cite('lease.pdf', 4, 6, 'lease.pdf:p4-p6'))
+    expect(second).toEqual(cite('lease.pdf', 9, 9, 'lease.pdf:p9-7'))
+  })
+
+  it('separates adjacent citations', () => {
+    expect(splitCitations('[a.pdf:p1][b.pdf:p2]')).toEqual(['[', cite('a.pdf', 1, 1, 'a.pdf:p1'), '][', cite('b.pdf', 2, 2, 'b.pdf:p2'), ']'])
+    expect(splitCitations('a.pdf:p1,b.pdf:p2;a.pdf:p3')).toEqual([
+      cite('a.pdf', 1, 1, 'a.pdf:p1'),
+      ',',
+      cite('b.pdf', 2, 2, 'b.pdf:p2'),
+      ';',
+      cite('a.pdf', 3, 3, 'a.pdf:p3'),
+    ])
+  })
+
+  it('separates citations written without anything between them', () => {
+    expect(splitCitations('a.pdf:p1b.pdf:p2-3')).toEqual([cite('a.pdf', 1, 1, 'a.pdf:p1'), cite('b.pdf', 2, 3, 'b.pdf:p2-3')])
+    expect(splitCitations('a.pdf:p1Master Agreement.pdf:p2', ['Master Agreement.pdf'])).toEqual([
+      cite('a.pdf', 1, 1, 'a.pdf:p1'),
+      cite('Master Agreement.pdf', 2, 2, 'Master Agreement.pdf:p2'),
+    ])
+  })
+
+  it('matches known names with spaces whole', () => {
+    expect(splitCitations('See Master Agreement 2024.pdf:p2.', ['Master Agreement 2024.pdf'])).toEqual([
+      'See ',
+      cite('Master Agreement 2024.pdf', 2, 2, 'Master Agreement 2024.pdf:p2'),
+      '.',
+    ])
+  })
+
+  it.each([
+    'lease.pdf:p',
+    'lease.pdf:px',
+    'lease.pdf:p12x',
+    'lease.pdf p12',
+    'lease:p12',
+  ])('leaves the malformed marker "%s" as text', text => {
+    expect(splitCitations(text)).toEqual([text])
+  })
+
+  it('reads citations saved with their reference', () => {
+    expect(splitCitations('Notice is three months [lease.pdf:p12](ref:doc1:12:450).')).toEqual([
+      'Notice is three months ',
+      { ...cite('lease.pdf', 12, 12, 'lease.pdf:p12'), documentId: 'doc1', charStart: 450 },
+      '.',
+    ])
+    expect(splitCitations('[Master Agreement.pdf:p2](ref:doc2:2)')).toEqual([
+      { ...cite('Master Agreement.pdf', 2, 2, 'Master Agreement.pdf:p2'), documentId: 'doc2' },
+    ])
+  })
+
+  it('separates adjacent citations saved with their reference', () => {
+    const parts = splitCitations('[a.pdf:p1](ref:doc1:1:0)[a.pdf:p1](ref:doc2:1:80)')
+    expect(parts.map(part => typeof part === 'string' ? part : [part.documentId, part.charStart])).toEqual([['doc1', 0], ['doc2', 80]])
+  })
+
+  it('falls back to the plain citation when the reference is malformed', () => {
+    expect(splitCitations('[a.pdf:p2](ref:)')).toEqual(['[', cite('a.pdf', 2, 2, 'a.pdf:p2'), '](ref:)'])
+  })
+})
+
+describe('pageExcerpt', () => {
+  const paragraphs = ['First.', 'Second.', 'Third paragraph.', 'Fourth.', 'Fifth.', 'Sixth.']
+  const page = toPageText({ pageNumber: 2, headings: [], paragraphs })
+  // Where page 2 starts in the document text
+  const offset = 1000
+  const at = (paragraph: number) => offset + page.fullText.indexOf(paragraphs[paragraph])
+
+  it('shows a cited paragraph with one paragraph on either side', () => {
+    const excerpt = pageExcerpt(page, offset, [{ pageNumber: 2, paragraph: 2 }])
+    expect(excerpt.blocks.map(block => [block.text, block.highlights, block.gapBefore])).toEqual([
+      ['Second.', [], true],
+      ['Third paragraph.', [[0, 16]], false],
+      ['Fourth.', [], false],
+    ])
+    expect(excerpt.gapAfter).toBe(true)
+  })
+
+  it('highlights cited ranges within their paragraphs', () => {
+    const start = at(2) + 'Third '.length
+    const excerpt = pageExcerpt(page, offset, [{ pageNumber: 2, charStart: start, charEnd: at(3) + 'Fourth'.length }])
+    expect(excerpt.blocks.filter(block => block.highlights.length > 0).map(block => [block.text, block.highlights])).toEqual([
+      ['Third paragraph.', [[6, 16]]],
+      ['Fourth.', [[0, 6]]],
+    ])
+  })
+
+  it('merges overlapping highlights', () => {
+    const excerpt = pageExcerpt(page, offset, [
+      { pageNumber: 2, charStart: at(2), charEnd: at(2) + 5 },
+      { pageNumber: 2, charStart: at(2) + 3, charEnd: at(2) + 9 },
+    ])
+    expect(excerpt.blocks.find(block => block.text === 'Third paragraph.')?.highlights).toEqual([[0, 9]])
+  })
+
+  it('keeps the gap between cited paragraphs far apart', () => {
+    const excerpt = pageExcerpt(page, offset, [{ pageNumber: 2, paragraph: 0 }, { pageNumber: 2, paragraph: 5 }])
+    expect(excerpt.blocks.map(block => [block.text, block.gapBefore])).toEqual([
+      ['First.', false],
+      ['Second.', false],
+      ['Fifth.', true],
+      ['Sixth.', false],
+    ])
+    expect(excerpt.gapAfter).toBe(false)
+  })
+
+  it('shows the start of the page when nothing on it is cited', () => {
+    const excerpt = pageExcerpt(page, offset, [{ pageNumber: 3, paragraph: 0 }])
+    expect(excerpt.blocks.map(block => block.text)).toEqual(['First.', 'Second.', 'Third paragraph.'])
+    expect(excerpt.blocks.every(block => block.highlights.length === 0)).toBe(true)
+    expect(excerpt.gapAfter).toBe(true)
+  })
+
+  it('does not highlight the heading of a cited paragraph', () => {
+    const withHeading = toPageText({ pageNumber: 1, headings: [{ text: '4. Rent', level: 1, paragraphIndex: 0 }], paragraphs: ['Rent is due monthly.'] })
+    const excerpt = pageExcerpt(withHeading, 0, [{ pageNumber: 1, paragraph: 0 }])
+    expect(excerpt.blocks.map(block => [block.text, block.highlights])).toEqual([
+      ['4. Rent', []],
+      ['Rent is due monthly.', [[0, 20]]],
+    ])
+  })
+})
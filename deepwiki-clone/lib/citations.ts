@@ -0,0 +1,229 @@
+/**
+ * Document Citations
+ * Finds citations like report.pdf:p12 or report.pdf:p12-14 in search answers
+ * and picks the paragraphs of each cited page to show next to the answer.
+ */
+
+import { DocumentBlock, PageText, documentBlocks } from '@/convex/lib/chunking';
+import { SearchResults } from './search-runner';
+
+export interface DocumentCitation {
+  documentName: string;
+  firstPage: number;
+  lastPage: number;
+  // As shown in the answer
+  text: string;
+  // Where the cited passage starts; known for citations saved with their reference
+  documentId?: string;
+  charStart?: number;
+}
+
+// The page both panels of a search page show as selected
+export interface ActiveCitation {
+  documentId: string;
+  pageNumber: number;
+}
+
+// A cited passage; saved searches without offsets only know the paragraph
+export interface CitedSpan {
+  pageNumber: number;
+  paragraph?: number;
+  charStart?: number;
+  charEnd?: number;
+}
+
+export interface CitedDocument {
+  documentId: string;
+  documentName: string;
+  // Versions of a document share its name
+  version?: number;
+  pageNumbers: number[];
+  spans: CitedSpan[];
+  // Shown when the document's pages can no longer be loaded
+  excerpts: string[];
+}
+
+export interface ExcerptBlock extends DocumentBlock {
+  // Cited ranges within the block text
+  highlights: Array<[number, number]>;
+  // Paragraphs were left out before this one
+  gapBefore: boolean;
+}
+
+export interface PageExcerpt {
+  blocks: ExcerptBlock[];
+  // Paragraphs were left out after the last block
+  gapAfter: boolean;
+}
+
+// A page range longer than this shows its first pages only
+const MAX_RANGE_PAGES = 10;
+// Paragraphs shown on either side of a cited one
+const EXCERPT_CONTEXT = 1;
+// Paragraphs shown from a page cited without a passage
+const UNCITED_BLOCKS = 3;
+
+// Other file names are recognised when they contain no spaces
+const BARE_FILE_NAME = '[\\p{L}\\p{N}_.-]+\\.[\\p{L}\\p{N}]{2,5}';
+// A citation saved with its reference: [report.pdf:p12](ref:documentId:12:charStart)
+const LINKED_CITATION = '\\[([^\\]]+?):p(\\d+)\\]\\(ref:([^:)\\s]+):\\d+(?::(\\d+))?\\)';
+
+/**
+ * Splits text into plain strings and citations. Citations saved with their
+ * reference carry the document id; plain ones like report.pdf:p12-14 only
+ * the name. Known document names are tried first, longest first, so names
+ * with spaces are matched whole.
+ */
+export function splitCitations(text: string, documentNames: string[] = []): Array<string | DocumentCitation> {
+  const names = Array.from(new Set(documentNames))
+    .sort((a, b) => b.length - a.length)
+    .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const fileName = [...names, BARE_FILE_NAME].join('|');
+  // A citation ends at a non-word character or where another one starts
+  const pattern = new RegExp(
+    `${LINKED_CITATION}|(${fileName}):p(\\d+)(?:-p?(\\d+))?(?=$|[^\\p{L}\\p{N}]|(?:${fileName}):p\\d)`,
+    'gu'
+  );
+
+  const parts: Array<string | DocumentCitation> = [];
+  let lastIndex = 0;
+  let match;
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index > lastIndex) parts.push(text.substring(lastIndex, match.index));
+
+    const [, linkedName, linkedPage, documentId, charStart, name, page, rangeEnd] = match;
+    if (documentId) {
+      const firstPage = parseInt(linkedPage, 10);
+      parts.push({
+        documentName: linkedName,
+        firstPage,
+        lastPage: firstPage,
+        text: `${linkedName}:p${linkedPage}`,
+        documentId,
+        ...(charStart !== undefined && { charStart: parseInt(charStart, 10) }),
+      });
+    } else {
+      const firstPage = parseInt(page, 10);
+      const lastPage = rangeEnd ? Math.max(firstPage, parseInt(rangeEnd, 10)) : firstPage;
+      parts.push({ documentName: name, firstPage, lastPage, text: match[0] });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+  if (lastIndex < text.length) parts.push(text.substring(lastIndex));
+  return parts;
+}
+
+/**
+ * The cited document a citation in the answer points at. Citations without a
+ * document id only name the document, so of versions sharing the name the
+ * one whose cited pages include the page is picked, then the latest.
+ */
+export function citedDocumentFor(citation: DocumentCitation, documents: CitedDocument[]): CitedDocument | undefined {
+  if (citation.documentId) return documents.find(document => document.documentId === citation.documentId);
+  const named = documents.filter(document => document.documentName === citation.documentName);
+  return named.find(document => document.pageNumbers.includes(citation.firstPage)) ??
+    named.reduce<CitedDocument | undefined>(
+      (latest, document) => !latest || (document.version ?? 1) > (latest.version ?? 1) ? document : latest,
+      undefined
+    );
+}
+
+export function citationCovers(citation: DocumentCitation, active: ActiveCitation, documents: CitedDocument[]): boolean {
+  return citedDocumentFor(citation, documents)?.documentId === active.documentId &&
+    active.pageNumber >= citation.firstPage &&
+    active.pageNumber <= citation.lastPage;
+}
+
+/**
+ * The cited documents of a search, with every page the answer or its
+ * references cite. `library` supplies the version of each document.
+ */
+export function citedDocuments(
+  results: SearchResults,
+  library: Array<{ id: string; version?: number }> = []
+): CitedDocument[] {
+  const documents = new Map<string, CitedDocument>();
+
+  for (const snippet of results.documentSnippets) {
+    documents.set(snippet.documentId, {
+      documentId: snippet.documentId,
+      documentName: snippet.documentName,
+      version: library.find(document => document.id === snippet.documentId)?.version,
+      pageNumbers: [...snippet.relevantPages],
+      spans: [],
+      excerpts: snippet.excerpts,
+    });
+  }
+
+  for (const ref of results.documentRefs) {
+    const document = documents.get(ref.documentId);
+    if (!document) continue;
+    document.spans.push({ pageNumber: ref.page, paragraph: ref.paragraph, charStart: ref.charStart, charEnd: ref.charEnd });
+    if (!document.pageNumbers.includes(ref.page)) document.pageNumbers.push(ref.page);
+  }
+
+  // Answers may cite page ranges around the referenced pages
+  const cited = Array.from(documents.values());
+  for (const part of splitCitations(results.content, cited.map(document => document.documentName))) {
+    if (typeof part === 'string') continue;
+    const document = citedDocumentFor(part, cited);
+    if (!document) continue;
+    const lastPage = Math.min(part.lastPage, part.firstPage + MAX_RANGE_PAGES - 1);
+    for (let page = part.firstPage; page <= lastPage; page++) {
+      if (!document.pageNumbers.includes(page)) document.pageNumbers.push(page);
+    }
+  }
+
+  cited.forEach(document => document.pageNumbers.sort((a, b) => a - b));
+  return cited;
+}
+
+/**
+ * The cited paragraphs of a page with the paragraphs around them, or the
+ * start of the page when no passage on it is cited. `offset` is where the
+ * page starts in the document text.
+ */
+export function pageExcerpt(page: PageText, offset: number, spans: CitedSpan[]): PageExcerpt {
+  const pageSpans = spans.filter(span => span.pageNumber === page.pageNumber);
+  const blocks = documentBlocks([page]).map(block => {
+    const start = offset + block.offset;
+    const end = start + block.text.length;
+    const highlights: Array<[number, number]> = [];
+
+    for (const span of pageSpans) {
+      if (span.charStart !== undefined && span.charEnd !== undefined) {
+        const from = Math.max(span.charStart, start);
+        const to = Math.min(span.charEnd, end);
+        if (to > from) highlights.push([from - start, to - start]);
+      } else if (!block.heading && span.paragraph === block.paragraphIndex) {
+        highlights.push([0, block.text.length]);
+      }
+    }
+
+    return { ...block, offset: start, highlights: mergeRanges(highlights), gapBefore: false };
+  });
+
+  const cited = blocks.flatMap((block, index) => block.highlights.length > 0 ? [index] : []);
+  const shown = cited.length > 0
+    ? blocks.filter((_, index) => cited.some(c => Math.abs(c - index) <= EXCERPT_CONTEXT))
+    : blocks.slice(0, UNCITED_BLOCKS);
+
+  let previous = -1;
+  for (const block of shown) {
+    const index = blocks.indexOf(block);
+    block.gapBefore = index > previous + 1;
+    previous = index;
+  }
+
+  return { blocks: shown, gapAfter: previous < blocks.length - 1 };
+}
+
+function mergeRanges(ranges: Array<[number, number]>): Array<[number, number]> {
+  const merged: Array<[number, number]> = [];
+  for (const [start, end] of [...ranges].sort((a, b) => a[0] - b[0])) {
+    const last = merged[merged.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else merged.push([start, end]);
+  }
+  return merged;
+}
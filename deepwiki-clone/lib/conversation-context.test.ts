@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { estimateTokens, fitToTokenBudget, isFollowUp, rewriteQuery } from './conversation-context'
+import type { ChatMessage, DocumentReference } from './ai-chat-service'
+
+function reference(documentId: string, excerpt: string, relevantText = excerpt): DocumentReference {
+  return {
+    documentId,
+    documentName: `${documentId}.pdf`,
+    pageNumber: 1,
+    paragraphIndex: 0,
+    charStart: 0,
+    charEnd: excerpt.length,
+    excerpt,
+    relevantText,
+    confidence: 80,
+  }
+}
+
+function message(type: ChatMessage['type'], content: string, references?: DocumentReference[]): ChatMessage {
+  return { id: content, type, content, timestamp: 0, references }
+}
+
+describe('isFollowUp', () => {
+  it.each([
+    'And the deposit?',
+    'What about the penalties?',
+    'What else does the lease require?',
+    'What does it say about termination?',
+    'Summarize it',
+    'Are they enforceable?',
+    'What are its payment terms?',
+    'Is this clause still valid?',
+    'Explain the second one',
+  ])('treats "%s" as a follow-up', question => {
+    expect(isFollowUp(question)).toBe(true)
+  })
+
+  it.each([
+    'What is the notice period in the lease?',
+    'How does the contract define termination and when does it apply?',
+    'List the payment terms and their deadlines',
+    'Does the agreement say that rent increases yearly?',
+    'Deposit',
+    'Termination clause',
+  ])('treats "%s" as standalone', question => {
+    expect(isFollowUp(question)).toBe(false)
+  })
+})
+
+describe('rewriteQuery', () => {
+  const history = [
+    message('user', 'What is the notice period for termination?'),
+    message('assistant', 'Three months.', [reference('lease', 'Notice must be given three months ahead'), reference('msa', 'Either party may terminate')]),
+  ]
+
+  it('leaves standalone questions unchanged', () => {
+    expect(rewriteQuery('How much is the deposit in the lease?', history)).toEqual({
+      query: 'How much is the deposit in the lease?',
+      preferredDocumentIds: ['lease', 'msa'],
+    })
+  })
+
+  it('carries the earlier subject into a follow-up', () => {
+    const { query } = rewriteQuery('Does it apply to the landlord?', history)
+    expect(query).toBe('Does it apply to the landlord? notice period termination')
+  })
+
+  it('focuses an ordinal follow-up on that reference of the previous answer', () => {
+    const rewritten = rewriteQuery('Explain the second one', history)
+    expect(rewritten.focusReference?.documentId).toBe('msa')
+    expect(rewritten.preferredDocumentIds).toEqual(['msa', 'lease'])
+    expect(rewritten.query).toContain('terminate')
+  })
+
+  it('needs an earlier question to rewrite against', () => {
+    expect(rewriteQuery('Does it apply?', []).query).toBe('Does it apply?')
+  })
+})
+
+describe('fitToTokenBudget', () => {
+  it('keeps references in order and truncates the one that crosses the budget', () => {
+    const references = [reference('a', 'x', 'a'.repeat(40)), reference('b', 'x', 'b'.repeat(40)), reference('c', 'x', 'c'.repeat(40))]
+    const fitted = fitToTokenBudget(references, [], 15)
+    expect(fitted.references.map(ref => ref.documentId)).toEqual(['a', 'b'])
+    expect(fitted.references[1].relevantText).toBe('b'.repeat(20) + '...')
+  })
+
+  it('fills the rest with the newest turns', () => {
+    const history = [message('user', 'o'.repeat(40)), message('assistant', 'n'.repeat(20))]
+    const fitted = fitToTokenBudget([reference('a', 'x', 'a'.repeat(8))], history, 10)
+    expect(fitted.history.map(turn => turn.content)).toEqual(['n'.repeat(20)])
+  })
+
+  it('estimates about four characters per token', () => {
+    expect(estimateTokens('abcdefgh')).toBe(2)
+    expect(estimateTokens('abcdefghi')).toBe(3)
+  })
+})
@@ -0,0 +1,149 @@
+/**
+ * Conversation Context
+ * Rewrites follow-up questions into standalone retrieval queries and fits
+ * the context sent to the LLM provider into a token budget
+ */
+
+import type { ChatMessage, DocumentReference } from './ai-chat-service';
+import { tokenize, isStopword } from '@/convex/lib/textAnalysis';
+
+export interface StandaloneQuery {
+  query: string;
+  // Documents cited earlier in the thread, most recent first
+  preferredDocumentIds: string[];
+  // Reference the question points back to, e.g. "the second one"
+  focusReference?: DocumentReference;
+}
+
+// Openings that continue the previous question
+const CONTINUATION_PATTERN = /^(and|but|also|so|then|what about|how about|what else)\b/i;
+// "the second one" points at a reference of the previous answer
+const ORDINAL_REFERENCE_PATTERN = /\bthe (first|second|third|fourth|fifth|last) (one|source|document|reference|result)s?\b/i;
+// Words that point at something named earlier
+const REFERRING_WORDS = new Set([
+  'it', 'its', 'they', 'them', 'their', 'this', 'that', 'these', 'those',
+  'he', 'him', 'his', 'she', 'her', 'former', 'latter', 'same', 'above',
+]);
+// A referring word after more content words than this usually points within
+// the question itself, as in "the contract and its annexes"
+const MAX_WORDS_BEFORE_REFERENCE = 1;
+
+const ORDINALS: Record<string, number> = {
+  first: 1,
+  second: 2,
+  third: 3,
+  fourth: 4,
+  fifth: 5,
+};
+
+// How many earlier assistant answers count towards the preferred documents
+const RECENT_ANSWERS = 3;
+// Rough characters-per-token ratio for English text
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Whether a question continues the previous one: it opens like a
+ * continuation, or refers to something before naming anything it could refer to
+ */
+export function isFollowUp(question: string): boolean {
+  const text = question.trim();
+  if (CONTINUATION_PATTERN.test(text) || ORDINAL_REFERENCE_PATTERN.test(text)) return true;
+
+  let wordsBefore = 0;
+  for (const { term } of tokenize(text)) {
+    if (REFERRING_WORDS.has(term)) return true;
+    if (isContentWord(term) && ++wordsBefore > MAX_WORDS_BEFORE_REFERENCE) return false;
+  }
+  return false;
+}
+
+/**
+ * Builds a standalone query from a question and the turns before it
+ */
+export function rewriteQuery(question: string, history: ChatMessage[]): StandaloneQuery {
+  const answers = history.filter(message => message.type === 'assistant').slice(-RECENT_ANSWERS).reverse();
+  const preferredDocumentIds = Array.from(new Set(
+    answers.flatMap(message => (message.references || []).map(ref => ref.documentId))
+  ));
+
+  const previousQuestion = [...history].reverse().find(message => message.type === 'user');
+  if (!previousQuestion || !isFollowUp(question)) {
+    return { query: question, preferredDocumentIds };
+  }
+
+  const focusReference = resolveOrdinal(question, answers[0]?.references || []);
+  const context = focusReference
+    ? `${previousQuestion.content} ${focusReference.excerpt}`
+    : previousQuestion.content;
+
+  // Carry over the earlier subject words the question does not repeat
+  const asked = new Set(contentWords(question));
+  const carried = Array.from(new Set(contentWords(context))).filter(word => !asked.has(word));
+
+  return {
+    query: [question, ...carried.slice(0, 8)].join(' '),
+    preferredDocumentIds: focusReference
+      ? [focusReference.documentId, ...preferredDocumentIds.filter(id => id !== focusReference.documentId)]
+      : preferredDocumentIds,
+    focusReference,
+  };
+}
+
+// "the second one" / "the last source" resolve against the previous answer's references
+function resolveOrdinal(question: string, references: DocumentReference[]): DocumentReference | undefined {
+  const match = question.toLowerCase().match(/\b(first|second|third|fourth|fifth|last)\b/);
+  if (!match || references.length === 0) return undefined;
+  if (match[1] === 'last') return references[references.length - 1];
+  return references[ORDINALS[match[1]] - 1];
+}
+
+function isContentWord(term: string): boolean {
+  return term.length > 2 && !isStopword(term);
+}
+
+function contentWords(text: string): string[] {
+  return tokenize(text)
+    .map(token => token.term)
+    .filter(isContentWord);
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * Keeps references in ranked order until the budget runs out, truncating the
+ * one that crosses it. Earlier turns fill what is left, newest first.
+ */
+export function fitToTokenBudget(
+  references: DocumentReference[],
+  history: ChatMessage[],
+  budget: number
+): { references: DocumentReference[]; history: ChatMessage[] } {
+  let remaining = budget;
+  const fitted: DocumentReference[] = [];
+
+  for (const ref of references) {
+    const cost = estimateTokens(ref.relevantText);
+    if (cost <= remaining) {
+      fitted.push(ref);
+      remaining -= cost;
+      continue;
+    }
+    if (remaining > 0) {
+      fitted.push({ ...ref, relevantText: ref.relevantText.slice(0, remaining * CHARS_PER_TOKEN) + '...' });
+      remaining = 0;
+    }
+    break;
+  }
+
+  const turns: ChatMessage[] = [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    if (cost > remaining) break;
+    turns.unshift(history[i]);
+    remaining -= cost;
+  }
+
+  return { references: fitted, history: turns };
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { decomposeQuestion, findMentionedDocuments } from './deep-search'
+
+describe('decomposeQuestion', () => {
+  it('keeps the whole question first', () => {
+    expect(decomposeQuestion('What is the notice period?')).toEqual(['What is the notice period?'])
+  })
+
+  it('splits coordinated clauses into sub-questions', () => {
+    expect(decomposeQuestion('What are the payment terms and the termination rights?')).toEqual([
+      'What are the payment terms and the termination rights?',
+      'What are the payment terms',
+      'the termination rights',
+    ])
+  })
+
+  it('keeps short pairs like "terms and conditions" together', () => {
+    expect(decomposeQuestion('Summarize the terms and conditions')).toEqual(['Summarize the terms and conditions'])
+  })
+
+  it('splits sentences and skips the ones without content words', () => {
+    expect(decomposeQuestion('Who is the landlord? And why?')).toEqual([
+      'Who is the landlord? And why?',
+      'Who is the landlord',
+    ])
+  })
+
+  it('drops repeated parts and caps the number of sub-questions', () => {
+    const question = 'rent increase; rent increase; deposit return; pet policy; parking spaces; garden upkeep'
+    const parts = decomposeQuestion(question)
+    expect(parts[0]).toBe(question)
+    expect(parts).toHaveLength(5)
+    expect(new Set(parts.map(part => part.toLowerCase())).size).toBe(parts.length)
+  })
+})
+
+describe('findMentionedDocuments', () => {
+  const documents = [
+    { id: 'msa1', originalName: 'Master_Agreement-2024.pdf' },
+    { id: 'msa2', originalName: 'Master_Agreement-2024.pdf', version: 2, previousVersionId: 'msa1' },
+    { id: 'sow', originalName: 'Statement of Work.docx' },
+    { id: 'tiny', originalName: 'a.pdf' },
+  ]
+
+  it('finds documents named with or without the extension and separators', () => {
+    const ids = (text: string) => findMentionedDocuments(text, documents).map(document => document.id)
+    expect(ids('as set out in the master agreement 2024')).toEqual(['msa2'])
+    expect(ids('See Statement of Work.docx, section 4')).toEqual(['sow'])
+    expect(ids('See Statement_of_Work for details')).toEqual(['sow'])
+  })
+
+  it('follows only the newest version of a name', () => {
+    expect(findMentionedDocuments('Master Agreement-2024.pdf', documents).map(document => document.id)).toEqual(['msa2'])
+  })
+
+  it('matches whole words only and ignores very short names', () => {
+    expect(findMentionedDocuments('the master agreements 2024 apply', documents)).toEqual([])
+    expect(findMentionedDocuments('see a.pdf', documents)).toEqual([])
+  })
+})
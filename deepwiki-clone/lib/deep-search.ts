@@ -0,0 +1,191 @@
+/**
+ * Deep Search
+ * Multi-step research for a question: splits it into sub-questions,
+ * retrieves passages for each, follows passages that mention other
+ * documents into those documents, then writes one answer from the
+ * passages that ranked best across all of them.
+ */
+
+import { AIChatService, ChatDocument, toReference } from './ai-chat-service';
+import { ChunkRetriever, RetrievedChunk } from './search-service';
+import { DocumentScope, toScopeFields } from './document-scope';
+import { tokenize, isStopword } from '@/convex/lib/textAnalysis';
+import { SearchResults, toSearchResults } from './search-runner';
+
+export interface DeepSearchOptions {
+  chatService: AIChatService;
+  retriever: ChunkRetriever;
+  // Documents whose names are recognised as cross-references
+  documents: ChatDocument[];
+  scope: DocumentScope;
+  // Called with a short description of each step as it starts
+  onStep: (message: string) => void;
+}
+
+const MAX_SUB_QUESTIONS = 5;
+// A clause needs this many content words to be asked on its own
+const MIN_CLAUSE_WORDS = 2;
+const SUB_QUESTION_CHUNKS = 6;
+const MAX_HOPS = 2;
+const MAX_FOLLOWED_DOCUMENTS = 3;
+const FOLLOWED_CHUNKS = 3;
+// Passages reached through a cross-reference count for less than direct matches
+const CROSS_REFERENCE_WEIGHT = 0.5;
+const MAX_REFERENCES = 8;
+// Shorter document names match too many ordinary words
+const MIN_NAME_LENGTH = 4;
+
+const SENTENCE_SEPARATOR = /[?;]+|\.\s+|\n+/;
+const CLAUSE_SEPARATOR = /\s*,?\s+\b(?:and|as well as|along with|versus|vs\.?|compared (?:to|with))\s+/i;
+
+interface Candidate {
+  chunk: RetrievedChunk;
+  score: number;
+  // The query that ranked the chunk best, used to pick its excerpt
+  query: string;
+  bestContribution: number;
+}
+
+export async function runDeepSearch(question: string, options: DeepSearchOptions): Promise<SearchResults> {
+  const { chatService, retriever, documents, scope, onStep } = options;
+  const scopeFields = toScopeFields(scope);
+  const candidates = new Map<string, Candidate>();
+
+  const addChunks = (chunks: RetrievedChunk[], query: string, weight: number) => {
+    chunks.forEach((chunk, rank) => {
+      const contribution = weight / (rank + 1);
+      const candidate = candidates.get(chunk._id) ?? { chunk, score: 0, query, bestContribution: 0 };
+      candidate.score += contribution;
+      if (contribution > candidate.bestContribution) {
+        candidate.bestContribution = contribution;
+        candidate.query = query;
+      }
+      candidates.set(chunk._id, candidate);
+    });
+  };
+
+  const subQuestions = decomposeQuestion(question);
+  onStep(subQuestions.length > 1
+    ? `Split the question into ${subQuestions.length} sub-questions`
+    : 'Searching for the question as a whole');
+
+  let answered = 0;
+  let latest: RetrievedChunk[] = [];
+  for (const subQuestion of subQuestions) {
+    onStep(`Searching for "${subQuestion}"`);
+    const chunks = await retriever(subQuestion, { ...scopeFields, limit: SUB_QUESTION_CHUNKS });
+    if (chunks.length > 0) answered++;
+    addChunks(chunks, subQuestion, 1);
+    latest.push(...chunks);
+  }
+
+  // Follow passages that name another document into that document
+  const followed = new Set<string>();
+  for (let hop = 0; hop < MAX_HOPS && followed.size < MAX_FOLLOWED_DOCUMENTS; hop++) {
+    const found: RetrievedChunk[] = [];
+    for (const chunk of latest) {
+      for (const target of findMentionedDocuments(chunk.text, documents)) {
+        if (target.id === chunk.documentId || followed.has(target.id)) continue;
+        if (followed.size >= MAX_FOLLOWED_DOCUMENTS) break;
+        // The chunks query only narrows to a document within a collection scope
+        if (scopeFields.documentIds && !scopeFields.documentIds.includes(target.id)) continue;
+
+        followed.add(target.id);
+        onStep(`Following a reference from ${chunk.documentName} (page ${chunk.pageNumber}) to ${target.originalName}`);
+        const chunks = await retriever(question, { ...scopeFields, documentId: target.id, limit: FOLLOWED_CHUNKS });
+        addChunks(chunks, question, CROSS_REFERENCE_WEIGHT);
+        found.push(...chunks);
+      }
+    }
+    if (found.length === 0) break;
+    latest = found;
+  }
+
+  const ranked = Array.from(candidates.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_REFERENCES);
+  // A passage ranked first for every sub-question is fully confident
+  const references = ranked.map(candidate => toReference(
+    candidate.chunk,
+    candidate.query,
+    Math.min(100, Math.round(100 * candidate.score / subQuestions.length))
+  ));
+
+  const documentCount = new Set(references.map(ref => ref.documentId)).size;
+  onStep(`Writing the answer from ${references.length} passages in ${documentCount} document${documentCount !== 1 ? 's' : ''}`);
+  const content = await chatService.answerFromReferences(question, references);
+
+  // Sub-questions without any passage lower the confidence in the whole answer
+  const results = toSearchResults(content, references);
+  results.confidence = Math.round(results.confidence * answered / subQuestions.length);
+  return results;
+}
+
+/**
+ * Splits a question into the question itself plus its separate sentences
+ * and coordinated clauses, e.g. "payment terms and termination rights".
+ */
+export function decomposeQuestion(question: string): string[] {
+  const parts: string[] = [];
+
+  for (const sentence of question.split(SENTENCE_SEPARATOR)) {
+    if (contentWordCount(sentence) === 0) continue;
+
+    const clauses = sentence.split(CLAUSE_SEPARATOR);
+    // "terms and conditions" is one thing, not two questions
+    if (clauses.length > 1 && clauses.every(clause => contentWordCount(clause) >= MIN_CLAUSE_WORDS)) {
+      parts.push(...clauses);
+    } else {
+      parts.push(sentence);
+    }
+  }
+
+  // Parts are compared by their words, so the question without its question mark is no new part
+  const subQuestions = [question.trim()];
+  const seen = new Set([wordKey(question)]);
+  for (const part of parts) {
+    const key = wordKey(part);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    subQuestions.push(part.trim());
+  }
+  return subQuestions.slice(0, MAX_SUB_QUESTIONS);
+}
+
+// Documents named in a passage, by file name with or without the extension
+export function findMentionedDocuments(text: string, documents: ChatDocument[]): ChatDocument[] {
+  // Only the newest version of each name is followed
+  const latest = new Map<string, ChatDocument>();
+  for (const document of documents) {
+    const name = documentNamePattern(document.originalName);
+    if (!name) continue;
+    const existing = latest.get(name);
+    if (!existing || (document.version ?? 1) > (existing.version ?? 1)) latest.set(name, document);
+  }
+
+  const mentioned: ChatDocument[] = [];
+  latest.forEach((document, name) => {
+    if (new RegExp(`(?:^|[^\\p{L}\\p{N}])${name}(?:$|[^\\p{L}\\p{N}])`, 'iu').test(text)) mentioned.push(document);
+  });
+  return mentioned;
+}
+
+// "Master_Agreement-2024.pdf" matches "master agreement 2024" and "Master Agreement-2024.pdf"
+function documentNamePattern(originalName: string): string | null {
+  const words = originalName
+    .replace(/\.[a-z0-9]+$/i, '')
+    .split(/[\s_-]+/)
+    .filter(Boolean);
+  if (words.join(' ').length < MIN_NAME_LENGTH) return null;
+
+  const escaped = words.map(word => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  return `${escaped.join('[\\s_-]+')}(?:\\.[a-z0-9]+)?`;
+}
+
+function wordKey(text: string): string {
+  return tokenize(text).map(token => token.term).join(' ');
+}
+
+function contentWordCount(text: string): number {
+  return tokenize(text).filter(token => token.term.length > 2 && !isStopword(token.term)).length;
+}
@@ -0,0 +1,54 @@
+/**
+ * Document Scope
+ * Limits search and chat to one collection or a hand-picked set of documents
+ */
+
+import { Id } from '@/convex/_generated/dataModel';
+
+export interface DocumentScope {
+  collectionId?: string;
+  documentIds?: string[];
+}
+
+export const ALL_DOCUMENTS: DocumentScope = {};
+
+export function isScoped(scope: DocumentScope): boolean {
+  return Boolean(scope.collectionId || scope.documentIds?.length);
+}
+
+export function isInScope(
+  doc: { id: string; collectionId?: string },
+  scope: DocumentScope
+): boolean {
+  if (scope.documentIds?.length) return scope.documentIds.includes(doc.id);
+  if (scope.collectionId) return doc.collectionId === scope.collectionId;
+  return true;
+}
+
+export function describeScope(
+  scope: DocumentScope,
+  collections: Array<{ _id: string; name: string }>
+): string {
+  if (scope.documentIds?.length) {
+    return `${scope.documentIds.length} selected document${scope.documentIds.length !== 1 ? 's' : ''}`;
+  }
+  if (scope.collectionId) {
+    return collections.find(c => c._id === scope.collectionId)?.name ?? 'Collection';
+  }
+  return 'All documents';
+}
+
+// Scope fields as stored on threads and searches, without empty values
+export function toScopeFields(scope: DocumentScope): DocumentScope {
+  if (scope.documentIds?.length) return { documentIds: scope.documentIds };
+  if (scope.collectionId) return { collectionId: scope.collectionId };
+  return {};
+}
+
+// Scope fields typed for the Convex threads, searches and chunks functions
+export function toScopeArgs(scope: DocumentScope): {
+  collectionId?: Id<'collections'>;
+  documentIds?: Id<'documents'>[];
+} {
+  return toScopeFields(scope) as { collectionId?: Id<'collections'>; documentIds?: Id<'documents'>[] };
+}
@@ -0,0 +1,199 @@
+/**
+ * Client-side document shape shared by the search, chat and reference views
+ */
+
+import { Doc, Id } from "@/convex/_generated/dataModel";
+import { PAGE_SEPARATOR, PageText, SectionLocation, formatSectionLocation } from "@/convex/lib/chunking";
+import { KeyConcept } from "@/convex/lib/concepts";
+import { DocumentOutline } from "@/convex/lib/outline";
+import { TableLocation } from "@/convex/lib/tables";
+import { SearchableDocument } from "@/lib/search-service";
+import { DocumentReference } from "@/lib/ai-chat-service";
+
+export interface ClientDocument {
+  id: string;
+  filename: string;
+  originalName: string;
+  fileSize: number;
+  // Picks the format adapter and the icon
+  mimeType: string;
+  uploadedAt: number;
+  status: string;
+  // Counts from 1 within a collection; set on later versions only
+  version?: number;
+  previousVersionId?: string;
+  // The newer version that replaced this one in search
+  supersededBy?: string;
+  // Subfolders a bulk import found the file in
+  tags?: string[];
+  processingTimeMs?: number;
+  processingError?: {
+    stage: string;
+    message: string;
+    attempts: number;
+  };
+  // Status changes, oldest first
+  processingHistory?: ProcessingEvent[];
+  textContent?: string;
+  keyConcepts?: KeyConcept[];
+  outline?: DocumentOutline;
+  // ISO 639-1 code detected during processing
+  language?: string;
+  // Pages without a text layer, read with OCR; their citations deserve a second look
+  ocrPages?: OcrPage[];
+  analysis?: {
+    // Set when the page texts were loaded
+    text_content?: string;
+    sections?: Array<{
+      page_number: number;
+      content: string;
+    }>;
+    basic_stats: BasicStats;
+    metadata: {
+      title?: string;
+      author?: string;
+    };
+  };
+}
+
+export interface ProcessingEvent {
+  status: string;
+  at: number;
+  // Why an attempt failed or processing restarted
+  message?: string;
+}
+
+export interface OcrPage {
+  pageNumber: number;
+  // Mean word confidence from 0 to 100
+  confidence: number;
+}
+
+export interface BasicStats {
+  page_count: number;
+  word_count: number;
+  sentence_count: number;
+  paragraph_count: number;
+  avg_words_per_page: number;
+}
+
+export function toClientDocument(doc: Doc<"documents">): ClientDocument {
+  const content = doc.extractedContent;
+  const pageCount = doc.metadata.pageCount ?? 0;
+
+  return {
+    id: doc._id,
+    filename: doc.filename,
+    originalName: doc.originalName,
+    fileSize: doc.metadata.fileSize,
+    mimeType: doc.metadata.mimeType,
+    uploadedAt: doc.uploadedAt,
+    status: doc.processingStatus,
+    version: doc.version,
+    previousVersionId: doc.previousVersionId,
+    supersededBy: doc.supersededBy,
+    tags: doc.tags,
+    processingTimeMs: doc.metadata.processingTimeMs,
+    processingError: doc.processingError,
+    processingHistory: doc.processingHistory,
+    keyConcepts: content?.keyConcepts,
+    outline: content?.outline,
+    language: doc.metadata.language,
+    ocrPages: content?.ocrPages,
+    analysis: content ? {
+      // Same counts the PDF service reports
+      basic_stats: {
+        page_count: pageCount,
+        word_count: content.stats.wordCount,
+        sentence_count: content.stats.sentenceCount,
+        paragraph_count: content.stats.paragraphCount,
+        avg_words_per_page: pageCount > 0 ? content.stats.wordCount / pageCount : 0,
+      },
+      metadata: {
+        title: doc.metadata.title,
+        author: doc.metadata.author,
+      },
+    } : undefined,
+  };
+}
+
+// Adds the page texts, loaded separately through pages.getPages where a document's text is shown
+export function withPageTexts(document: ClientDocument, pages: PageText[]): ClientDocument {
+  const textContent = pages.map(page => page.fullText).join(PAGE_SEPARATOR);
+  return {
+    ...document,
+    textContent,
+    analysis: document.analysis && {
+      ...document.analysis,
+      text_content: textContent,
+      sections: pages.map(page => ({
+        page_number: page.pageNumber,
+        content: page.fullText,
+      })),
+    },
+  };
+}
+
+// Document metadata the search service filters and labels results with
+export function toSearchableDocuments(
+  docs: Doc<"documents">[],
+  collections: Doc<"collections">[] = []
+): SearchableDocument[] {
+  return docs.map(doc => ({
+    id: doc._id,
+    originalName: doc.originalName,
+    pageCount: doc.metadata.pageCount ?? 0,
+    version: doc.version,
+    superseded: doc.supersededBy !== undefined,
+    collectionId: doc.collectionId,
+    collectionName: collections.find(c => c._id === doc.collectionId)?.name,
+    keyConcepts: doc.extractedContent?.keyConcepts,
+  }));
+}
+
+// Hex SHA-256 of a file, to recognise one that was already uploaded
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+// Posts a file to an upload URL from documents.generateUploadUrl
+export async function uploadToStorage(uploadUrl: string, file: Blob): Promise<Id<"_storage">> {
+  const response = await fetch(uploadUrl, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Upload failed with HTTP ${response.status}`);
+  }
+
+  const { storageId } = await response.json();
+  return storageId;
+}
+
+export function toReferenceArgs(reference: DocumentReference) {
+  return {
+    ...reference,
+    documentId: reference.documentId as Id<"documents">,
+    table: reference.table && { ...reference.table, tableId: reference.table.tableId as Id<"tables"> },
+  };
+}
+
+// "Page 12 · Section 3.2, paragraph 4", "Page 12 · Table 3", or the page paragraph when no heading precedes it
+export function formatLocation(location: {
+  pageNumber: number;
+  paragraphIndex: number;
+  section?: SectionLocation;
+  table?: TableLocation;
+}): string {
+  const detail = location.table
+    ? `Table ${location.table.number}`
+    : location.section
+      ? formatSectionLocation(location.section)
+      : `¶${location.paragraphIndex + 1}`;
+  return `Page ${location.pageNumber} · ${detail}`;
+}
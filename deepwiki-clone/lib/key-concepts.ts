@@ -0,0 +1,45 @@
+/**
+ * Key Concept Suggestions
+ * Picks the extracted concepts that matter most around a set of hits
+ */
+
+import { KeyConcept } from '@/convex/lib/concepts';
+
+export type { KeyConcept };
+
+export interface ConceptHit {
+  documentId: string;
+  pageNumber: number;
+}
+
+/**
+ * Concepts found on the pages of the hits, best-ranked hits first.
+ * Concepts already mentioned in the query are skipped.
+ */
+export function relatedConcepts(
+  hits: ConceptHit[],
+  getConcepts: (documentId: string) => KeyConcept[] | undefined,
+  query: string,
+  limit: number
+): KeyConcept[] {
+  const queryText = query.toLowerCase();
+  const scored = new Map<string, { concept: KeyConcept; score: number }>();
+
+  hits.forEach((hit, rank) => {
+    for (const concept of getConcepts(hit.documentId) || []) {
+      if (!concept.pages.includes(hit.pageNumber)) continue;
+      if (queryText.includes(concept.text.toLowerCase())) continue;
+      if (concept.expansion && queryText.includes(concept.expansion.toLowerCase())) continue;
+
+      const key = `${concept.type}:${concept.text}`;
+      const score = Math.log(1 + concept.frequency) / (rank + 1);
+      const existing = scored.get(key);
+      scored.set(key, { concept, score: (existing?.score ?? 0) + score });
+    }
+  });
+
+  return Array.from(scored.values())
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ concept }) => concept);
+}
@@ -0,0 +1,224 @@
+/**
+ * LLM Provider Layer
+ * Pluggable answer generation for the chat service. Ships with an
+ * OpenAI-compatible HTTP adapter and an offline extractive fallback.
+ *
+ * Selected per deployment with environment variables:
+ *   NEXT_PUBLIC_LLM_PROVIDER   "openai-compatible" | "extractive" (default)
+ *   NEXT_PUBLIC_LLM_CONTEXT_TOKENS  budget for excerpts and earlier turns
+ *
+ * Requests go through the /api/llm route, which holds the server URL,
+ * model and API key (see app/api/llm/route.ts).
+ */
+
+import type { ChatMessage, DocumentReference } from './ai-chat-service';
+import { formatSectionLocation } from '@/convex/lib/chunking';
+import { CHANGE_LABELS } from '@/convex/lib/diff';
+
+export interface GenerationRequest {
+  question: string;
+  references: DocumentReference[];
+  // Earlier turns of the conversation, oldest first
+  history?: ChatMessage[];
+  signal?: AbortSignal;
+}
+
+export interface LLMProvider {
+  readonly name: string;
+  generate(request: GenerationRequest): Promise<string>;
+  stream(request: GenerationRequest): AsyncIterable<string>;
+}
+
+export type LLMProviderType = 'openai-compatible' | 'extractive';
+
+export interface LLMConfig {
+  provider: LLMProviderType;
+  // Route that forwards requests to the model server
+  endpoint: string;
+  contextTokens: number;
+}
+
+export function getLLMConfig(): LLMConfig {
+  return {
+    provider: process.env.NEXT_PUBLIC_LLM_PROVIDER === 'openai-compatible' ? 'openai-compatible' : 'extractive',
+    endpoint: '/api/llm',
+    contextTokens: parseInt(process.env.NEXT_PUBLIC_LLM_CONTEXT_TOKENS || '', 10) || 3000,
+  };
+}
+
+export function createProvider(config: LLMConfig = getLLMConfig()): LLMProvider {
+  switch (config.provider) {
+    case 'openai-compatible':
+      return new OpenAICompatibleProvider(config);
+    case 'extractive':
+      return new ExtractiveProvider();
+  }
+}
+
+/**
+ * Replaces numbered source markers like [1] with clickable reference links
+ */
+export function linkCitations(text: string, references: DocumentReference[]): string {
+  return text.replace(/\[(\d+)\](?!\()/g, (marker, n) => {
+    const ref = references[parseInt(n, 10) - 1];
+    if (!ref) return marker;
+    return formatReferenceLink(ref);
+  });
+}
+
+export function formatReferenceLink(ref: DocumentReference): string {
+  // Brackets in a heading would end the link text early
+  const section = ref.section ? ` · ${formatSectionLocation(ref.section).replace(/[[\]]/g, '')}` : '';
+  const table = ref.table ? ` · Table ${ref.table.number}` : '';
+  return `[${ref.documentName}:page${ref.pageNumber}${section}${table}](ref:${ref.documentId}:${ref.pageNumber}:${ref.charStart})`;
+}
+
+function describeLocation(ref: DocumentReference): string {
+  let location = `${ref.documentName}, page ${ref.pageNumber}`;
+  if (ref.section) location += `, ${formatSectionLocation(ref.section)}`;
+  // Table excerpts are rows with cells separated by " | "
+  if (ref.table) location += `, table ${ref.table.number}`;
+  if (ref.change) location += ` (${CHANGE_LABELS[ref.change].toLowerCase()})`;
+  return location;
+}
+
+export const SYSTEM_PROMPT = `You answer questions using only the numbered document excerpts provided.
+Cite every claim with the excerpt number in square brackets, e.g. [1] or [2][3].
+If the excerpts do not contain the answer, say so plainly. Use short markdown paragraphs and bullet lists.`;
+
+function buildMessages(request: GenerationRequest) {
+  const context = request.references
+    .map((ref, index) => `[${index + 1}] ${describeLocation(ref)}:\n${ref.relevantText}`)
+    .join('\n\n');
+
+  const turns = (request.history || []).map(message => ({
+    role: message.type,
+    content: message.content,
+  }));
+
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    ...turns,
+    { role: 'user', content: `Excerpts:\n\n${context}\n\nQuestion: ${request.question}` },
+  ];
+}
+
+/**
+ * Talks to any server exposing the OpenAI chat completions API,
+ * such as a self-hosted model on localhost
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(private config: LLMConfig) {}
+
+  private async request(request: GenerationRequest, stream: boolean): Promise<Response> {
+    const response = await fetch(this.config.endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        messages: buildMessages(request),
+        stream,
+      }),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: { message: 'Unknown error' } }));
+      throw new Error(errorData.error?.message || `HTTP ${response.status}`);
+    }
+
+    return response;
+  }
+
+  async generate(request: GenerationRequest): Promise<string> {
+    const response = await this.request(request, false);
+    const data = await response.json();
+    return linkCitations(data.choices?.[0]?.message?.content || '', request.references);
+  }
+
+  async *stream(request: GenerationRequest): AsyncIterable<string> {
+    const response = await this.request(request, true);
+    if (!response.body) throw new Error('Streaming is not supported by this server');
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    // Server-sent events: one "data: {json}" line per delta
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!data || !line.startsWith('data:')) continue;
+        if (data === '[DONE]') return;
+
+        // Some servers send keep-alive or vendor lines that are not JSON
+        let event;
+        try {
+          event = JSON.parse(data);
+        } catch {
+          continue;
+        }
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) yield delta;
+      }
+    }
+  }
+}
+
+/**
+ * Deterministic answers assembled from the retrieved excerpts.
+ * Needs no model and keeps working offline.
+ */
+export class ExtractiveProvider implements LLMProvider {
+  readonly name = 'extractive';
+
+  async generate(request: GenerationRequest): Promise<string> {
+    return `Based on your documents, here's what I found about "${request.question}":
+
+${this.summarizeWithReferences(request.references)}
+
+This information is sourced from ${request.references.length} relevant section${request.references.length > 1 ? 's' : ''} across your documents.`;
+  }
+
+  async *stream(request: GenerationRequest): AsyncIterable<string> {
+    const text = await this.generate(request);
+    // Emit word by word so streaming consumers behave the same as with a model
+    for (const piece of text.match(/\S+\s*|\s+/g) || []) {
+      if (request.signal?.aborted) return;
+      yield piece;
+    }
+  }
+
+  private summarizeWithReferences(references: DocumentReference[]): string {
+    if (references.length === 0) return "No relevant content found.";
+
+    // Group references by document
+    const byDocument = new Map<string, DocumentReference[]>();
+    references.forEach(ref => {
+      const existing = byDocument.get(ref.documentName) || [];
+      existing.push(ref);
+      byDocument.set(ref.documentName, existing);
+    });
+
+    let summary = '';
+    byDocument.forEach((refs, docName) => {
+      summary += `**From ${docName}:**\n`;
+      refs.forEach(ref => {
+        // Create clickable reference link like DeepWiki
+        const change = ref.change ? `**${CHANGE_LABELS[ref.change]}:** ` : '';
+        summary += `- ${change}${ref.excerpt} ${formatReferenceLink(ref)}\n`;
+      });
+      summary += '\n';
+    });
+
+    return summary.trim();
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Local Document Migration
+ * Moves documents that earlier versions kept in localStorage into Convex
+ */
+
+import { ConvexReactClient } from 'convex/react';
+import { api } from '@/convex/_generated/api';
+import { toExtractedContent } from '@/convex/lib/extraction';
+import { hashFile, uploadToStorage } from './documents';
+
+const LEGACY_DOCUMENTS_KEY = 'deepwiki-documents';
+// Held by the tab that migrates, so other tabs of the same browser wait their turn
+const MIGRATION_LOCK = 'deepwiki-document-migration';
+
+interface LegacyDocument {
+  id: string;
+  filename: string;
+  originalName: string;
+  fileSize: number;
+  uploadedAt: number;
+  status: string;
+  textContent?: string;
+  analysis?: {
+    text_content: string;
+    metadata?: {
+      title?: string;
+      author?: string;
+    };
+    sections: Array<{
+      page_number: number;
+      content: string;
+    }>;
+  };
+}
+
+export interface MigrationResult {
+  migrated: number;
+  failed: number;
+}
+
+export function readLegacyDocuments(): LegacyDocument[] {
+  const raw = localStorage.getItem(LEGACY_DOCUMENTS_KEY);
+  if (!raw) return [];
+
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error('Failed to read local documents:', error);
+    return [];
+  }
+}
+
+/**
+ * Uploads each stored document into Convex storage and creates its record.
+ * The PDF bytes were never kept in the browser, so the extracted text is
+ * stored in their place. Documents that fail stay in localStorage and are
+ * retried on the next run. Resolves to null when another tab is already
+ * migrating; documents that tab already imported are recognised by their
+ * hash if it stopped before clearing them.
+ */
+export async function migrateLocalDocuments(
+  convex: ConvexReactClient,
+  userId: string
+): Promise<MigrationResult | null> {
+  if (!navigator.locks) return migrate(convex, userId);
+  return navigator.locks.request(MIGRATION_LOCK, { ifAvailable: true }, lock =>
+    lock ? migrate(convex, userId) : null
+  );
+}
+
+async function migrate(convex: ConvexReactClient, userId: string): Promise<MigrationResult> {
+  const remaining: LegacyDocument[] = [];
+  let migrated = 0;
+
+  // Read under the lock, so documents a previous holder migrated are gone
+  for (const doc of readLegacyDocuments()) {
+    try {
+      const sections = doc.analysis?.sections || [];
+      const extracted = sections.length > 0 ? toExtractedContent({ sections }) : undefined;
+      const text = doc.analysis?.text_content || doc.textContent || '';
+      const file = new Blob([text], { type: 'text/plain' });
+      const contentHash = await hashFile(file);
+      const uploadUrl = await convex.mutation(api.documents.generateUploadUrl, {});
+      const fileId = await uploadToStorage(uploadUrl, file);
+
+      await convex.mutation(api.documents.importDocument, {
+        filename: doc.filename,
+        originalName: doc.originalName,
+        fileId,
+        userId,
+        uploadedAt: doc.uploadedAt,
+        fileSize: doc.fileSize || 0,
+        mimeType: 'text/plain',
+        title: doc.analysis?.metadata?.title,
+        author: doc.analysis?.metadata?.author,
+        pages: extracted?.pages,
+        extractedContent: extracted?.content,
+        contentHash,
+      });
+      migrated++;
+    } catch (error) {
+      console.error(`Failed to migrate ${doc.originalName}:`, error);
+      remaining.push(doc);
+    }
+  }
+
+  if (remaining.length > 0) {
+    localStorage.setItem(LEGACY_DOCUMENTS_KEY, JSON.stringify(remaining));
+  } else {
+    localStorage.removeItem(LEGACY_DOCUMENTS_KEY);
+  }
+
+  return { migrated, failed: remaining.length };
+}
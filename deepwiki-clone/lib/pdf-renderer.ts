@@ -0,0 +1,100 @@
+/**
+ * PDF Page Renderer
+ * Draws a page of a PDF onto a canvas with pdf.js, with a selectable text
+ * layer on top. pdf.js is loaded on first use and each file is fetched once.
+ */
+
+import type { PDFDocumentProxy, RenderTask, TextLayer } from 'pdfjs-dist';
+
+// Size of the page in PDF points
+export interface RenderedPage {
+  width: number;
+  height: number;
+}
+
+const documents = new Map<string, Promise<PDFDocumentProxy>>();
+
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+}
+
+function loadDocument(url: string): Promise<PDFDocumentProxy> {
+  let document = documents.get(url);
+  if (!document) {
+    document = loadPdfjs().then(pdfjs => pdfjs.getDocument(url).promise);
+    // A failed load is retried the next time the file is opened
+    document.catch(() => documents.delete(url));
+    documents.set(url, document);
+  }
+  return document;
+}
+
+/**
+ * Renders a page scaled to cssWidth pixels. The canvas is drawn at the
+ * device pixel ratio so text stays sharp on high density screens. Aborting
+ * the signal cancels rendering, e.g. when the page is closed.
+ */
+export async function renderPage(
+  url: string,
+  pageNumber: number,
+  canvas: HTMLCanvasElement,
+  textLayerContainer: HTMLElement,
+  cssWidth: number,
+  signal?: AbortSignal
+): Promise<RenderedPage> {
+  const pdfjs = await loadPdfjs();
+  const pdf = await loadDocument(url);
+  if (pageNumber < 1 || pageNumber > pdf.numPages) {
+    throw new Error(`Page ${pageNumber} does not exist`);
+  }
+
+  const page = await pdf.getPage(pageNumber);
+  const { width, height } = page.getViewport({ scale: 1 });
+  const viewport = page.getViewport({ scale: cssWidth / width });
+  const pixelRatio = window.devicePixelRatio || 1;
+
+  canvas.width = Math.floor(viewport.width * pixelRatio);
+  canvas.height = Math.floor(viewport.height * pixelRatio);
+  canvas.style.width = `${viewport.width}px`;
+  canvas.style.height = `${viewport.height}px`;
+
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not supported');
+
+  let renderTask: RenderTask | null = null;
+  let textLayer: TextLayer | null = null;
+  const cancel = () => {
+    renderTask?.cancel();
+    textLayer?.cancel();
+  };
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    renderTask = page.render({
+      canvasContext: context,
+      viewport,
+      transform: pixelRatio === 1 ? undefined : [pixelRatio, 0, 0, pixelRatio, 0, 0],
+    });
+    await renderTask.promise;
+    renderTask = null;
+    if (signal?.aborted) throw new DOMException('Rendering cancelled', 'AbortError');
+
+    // pdf.js sizes the text spans from this variable
+    textLayerContainer.replaceChildren();
+    textLayerContainer.style.setProperty('--scale-factor', String(viewport.scale));
+    textLayer = new pdfjs.TextLayer({
+      textContentSource: page.streamTextContent(),
+      container: textLayerContainer,
+      viewport,
+    });
+    await textLayer.render();
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+  }
+
+  return { width, height };
+}
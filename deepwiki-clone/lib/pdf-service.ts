@@ -1,11 +1,40 @@
 /**
  * PDF Processing Service Client
- * Handles communication with the Python FastAPI PDF processing service
+ * Handles communication with the Python FastAPI PDF processing service.
+ * The service has adapters for Word, EPUB, HTML, Markdown and text files that
+ * return the same PDFExtractedContent shape, with logical page numbers.
  */
 
+import { PAGE_SEPARATOR } from '@/convex/lib/chunking';
+import { resolveMimeType } from '@/convex/lib/formats';
+import {
+  LayoutBlock,
+  ProcessorOcrResult,
+  ProcessorOutlineEntry,
+  ProcessorTable,
+  ProcessorWord,
+} from '@/convex/lib/extraction';
+
+export type { LayoutBlock };
+
+// Rows and header cells of a table, with its page and bounding box in PDF points
+export type PDFTable = ProcessorTable;
+
+// Text and confidence of pages read with OCR
+export type OCRResult = ProcessorOcrResult;
+
+// Character range of a page within text_content
+export interface PageOffset {
+  page_number: number;
+  start: number;
+  end: number;
+}
+
 export interface PDFExtractedContent {
   document_id: string;
   filename: string;
+  // Format adapter that read the file
+  mime_type: string;
   text_content: string;
   page_count: number;
   word_count: number;
@@ -17,6 +46,8 @@ export interface PDFExtractedContent {
     producer?: string;
     creation_date?: string;
     modification_date?: string;
+    // ISO 639-1 code of the text layer, empty when it could not be detected
+    language?: string;
   };
   sections: Array<{
     type: string;
@@ -25,7 +56,18 @@ export interface PDFExtractedContent {
     word_count: number;
     char_count: number;
     error?: string;
+    // Headings, paragraphs and tables in reading order; content joins their text with blank lines
+    blocks: LayoutBlock[];
+    // Word positions in PDF points, only for PDF pages
+    words?: ProcessorWord[];
+    page_width?: number;
+    page_height?: number;
   }>;
+  // Table blocks point into this list by table_index
+  tables: PDFTable[];
+  // The PDF's bookmarks, empty when it has none
+  outline: ProcessorOutlineEntry[];
+  page_offsets: PageOffset[];
 }
 
 export interface PDFAnalysisResult extends PDFExtractedContent {
@@ -39,6 +81,40 @@ export interface PDFAnalysisResult extends PDFExtractedContent {
   analysis_timestamp: number;
 }
 
+/**
+ * Maps each page to its character range when the section contents are joined
+ * with PAGE_SEPARATOR. This is the same layout chunk offsets are computed against.
+ */
+export function buildPageOffsets(sections: Array<{ page_number: number; content: string }>): PageOffset[] {
+  const offsets: PageOffset[] = [];
+  let start = 0;
+
+  for (const section of sections) {
+    offsets.push({
+      page_number: section.page_number,
+      start,
+      end: start + section.content.length,
+    });
+    start += section.content.length + PAGE_SEPARATOR.length;
+  }
+
+  return offsets;
+}
+
+export function findPageForOffset(pageOffsets: PageOffset[], offset: number): PageOffset | undefined {
+  return pageOffsets.find(page => offset >= page.start && offset <= page.end);
+}
+
+// Rebuilds text_content from the sections so offsets resolve to exact pages
+function withPageOffsets<T extends PDFExtractedContent>(result: T): T {
+  const sections = result.sections || [];
+  return {
+    ...result,
+    text_content: sections.map(section => section.content).join(PAGE_SEPARATOR),
+    page_offsets: buildPageOffsets(sections),
+  };
+}
+
 class PDFService {
   private baseUrl: string;
 
@@ -46,6 +122,17 @@ class PDFService {
     this.baseUrl = baseUrl;
   }
 
+  // The MIME type picks the service's format adapter
+  private fileFormData(file: File): FormData {
+    const formData = new FormData();
+    formData.append('file', file);
+    const mimeType = resolveMimeType(file.name, file.type);
+    if (mimeType) {
+      formData.append('mime_type', mimeType);
+    }
+    return formData;
+  }
+
   async healthCheck(): Promise<boolean> {
     try {
       const response = await fetch(`${this.baseUrl}/health`);
@@ -56,8 +143,7 @@ class PDFService {
   }
 
   async extractText(file: File, documentId?: string): Promise<PDFExtractedContent> {
-    const formData = new FormData();
-    formData.append('file', file);
+    const formData = this.fileFormData(file);
     if (documentId) {
       formData.append('document_id', documentId);
     }
@@ -72,12 +158,30 @@ class PDFService {
       throw new Error(errorData.detail || `HTTP ${response.status}`);
     }
 
-    return await response.json();
+    return withPageOffsets(await response.json());
   }
 
-  async analyzeDocument(file: File, documentId?: string): Promise<PDFAnalysisResult> {
+  // Reads pages without a text layer, e.g. the empty sections of a scanned PDF
+  async ocrPages(file: File, pageNumbers: number[]): Promise<OCRResult> {
     const formData = new FormData();
     formData.append('file', file);
+    formData.append('pages', pageNumbers.join(','));
+
+    const response = await fetch(`${this.baseUrl}/ocr-pages`, {
+      method: 'POST',
+      body: formData,
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ detail: 'Unknown error' }));
+      throw new Error(errorData.detail || `HTTP ${response.status}`);
+    }
+
+    return await response.json();
+  }
+
+  async analyzeDocument(file: File, documentId?: string): Promise<PDFAnalysisResult> {
+    const formData = this.fileFormData(file);
     if (documentId) {
       formData.append('document_id', documentId);
     }
@@ -92,7 +196,7 @@ class PDFService {
       throw new Error(errorData.detail || `HTTP ${response.status}`);
     }
 
-    return await response.json();
+    return withPageOffsets(await response.json());
   }
 }
 
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { QuerySyntaxError, parseQuery } from './query-parser'
+
+function syntaxError(query: string): QuerySyntaxError {
+  try {
+    parseQuery(query)
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) return error
+    throw error
+  }
+  throw new Error(`Expected "${query}" to be rejected`)
+}
+
+describe('parseQuery', () => {
+  it('returns null for an empty query', () => {
+    expect(parseQuery('')).toBeNull()
+    expect(parseQuery('   ')).toBeNull()
+  })
+
+  it('parses a single term', () => {
+    expect(parseQuery('termination')).toEqual({ type: 'term', value: 'termination' })
+  })
+
+  it('joins adjacent clauses with AND', () => {
+    expect(parseQuery('payment AND "force majeure" terms')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'payment' },
+        { type: 'phrase', value: 'force majeure' },
+        { type: 'term', value: 'terms' },
+      ],
+    })
+  })
+
+  it('binds AND tighter than OR', () => {
+    expect(parseQuery('a b OR c')).toEqual({
+      type: 'or',
+      children: [
+        { type: 'and', children: [{ type: 'term', value: 'a' }, { type: 'term', value: 'b' }] },
+        { type: 'term', value: 'c' },
+      ],
+    })
+  })
+
+  it('groups with parentheses', () => {
+    expect(parseQuery('a (b OR c)')).toEqual({
+      type: 'and',
+      children: [
+        { type: 'term', value: 'a' },
+        { type: 'or', children: [{ type: 'term', value: 'b' }, { type: 'term', value: 'c' }] },
+      ],
+    })
+  })
+
+  it('negates with a leading minus or NOT', () => {
+    expect(parseQuery('-draft')).toEqual({ type: 'not', child: { type: 'term', value: 'draft' } })
+    expect(parseQuery('NOT "first draft"')).toEqual({ type: 'not', child: { type: 'phrase', value: 'first draft' } })
+  })
+
+  it('keeps a minus inside a word', () => {
+    expect(parseQuery('e-mail')).toEqual({ type: 'term', value: 'e-mail' })
+  })
+
+  it('parses trailing wildcards as prefixes', () => {
+    expect(parseQuery('indemn*')).toEqual({ type: 'prefix', value: 'indemn' })
+  })
+
+  it('parses document, collection and page filters', () => {
+    expect(parseQuery('doc:contract.pdf')).toEqual({ type: 'filter', field: 'doc', value: 'contract.pdf' })
+    expect(parseQuery('collection:"Lease agreements"')).toEqual({
+      type: 'filter',
+      field: 'collection',
+      value: 'Lease agreements',
+    })
+    expect(parseQuery('page:12')).toEqual({ type: 'filter', field: 'page', value: '12', from: 12, to: 12 })
+    expect(parseQuery('page:10..20')).toEqual({ type: 'filter', field: 'page', value: '10..20', from: 10, to: 20 })
+    expect(parseQuery('page:3-5')).toMatchObject({ from: 3, to: 5 })
+  })
+
+  it('treats unknown fields as plain words', () => {
+    expect(parseQuery('note:urgent')).toEqual({ type: 'term', value: 'note:urgent' })
+  })
+
+  it.each([
+    ['"force majeure', 'Unterminated quote', 0],
+    ['(a OR b', 'Missing closing parenthesis', 0],
+    ['a OR b)', 'Unmatched closing parenthesis', 6],
+    ['a ()', 'Empty parentheses', 2],
+    ['a OR', 'Query ends unexpectedly', 4],
+    ['""', 'Empty phrase', 0],
+    ['in*dem', 'Wildcards are only supported at the end of a word', 0],
+    ['page:ten', 'Invalid page filter "ten", use page:12 or page:10..20', 0],
+    ['page:20..10', 'Page range 20..10 is reversed', 0],
+    ['x doc:', 'Missing value for doc: filter', 2],
+  ])('rejects %s with its position', (query, message, position) => {
+    const error = syntaxError(query)
+    expect(error.message).toBe(message)
+    expect(error.position).toBe(position)
+  })
+})
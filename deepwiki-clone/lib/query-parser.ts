@@ -0,0 +1,238 @@
+/**
+ * Search Query Parser
+ * Turns queries like `"force majeure" AND termination -draft doc:contract.pdf page:10..20`
+ * into an AST the search service can evaluate
+ */
+
+export type FilterField = 'doc' | 'page' | 'collection';
+
+export type QueryNode =
+  | { type: 'term'; value: string }
+  | { type: 'prefix'; value: string }
+  | { type: 'phrase'; value: string }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  | { type: 'filter'; field: 'doc' | 'collection'; value: string }
+  | { type: 'filter'; field: 'page'; value: string; from: number; to: number };
+
+export class QuerySyntaxError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'word' | 'phrase' | 'filter' | 'and' | 'or' | 'not' | 'lparen' | 'rparen';
+
+interface Token {
+  type: TokenType;
+  value: string;
+  position: number;
+  field?: FilterField;
+}
+
+const FILTER_FIELDS: FilterField[] = ['doc', 'page', 'collection'];
+
+function lex(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = query.indexOf('"', start + 1);
+    if (end === -1) {
+      throw new QuerySyntaxError('Unterminated quote', start);
+    }
+    i = end + 1;
+    return query.slice(start + 1, end);
+  };
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', value: char, position: i });
+      i++;
+      continue;
+    }
+
+    // A leading minus negates the following word, phrase or group
+    if (char === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      tokens.push({ type: 'not', value: '-', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const position = i;
+      tokens.push({ type: 'phrase', value: readQuoted(i), position });
+      continue;
+    }
+
+    const position = i;
+    let word = '';
+    while (i < query.length && !/[\s()"]/.test(query[i])) {
+      word += query[i];
+      i++;
+    }
+
+    const fieldMatch = word.match(/^([a-z]+):(.*)$/i);
+    const field = fieldMatch?.[1].toLowerCase() as FilterField | undefined;
+    if (fieldMatch && field && FILTER_FIELDS.includes(field)) {
+      let value = fieldMatch[2];
+      if (value === '' && query[i] === '"') {
+        value = readQuoted(i);
+      }
+      if (!value.trim()) {
+        throw new QuerySyntaxError(`Missing value for ${field}: filter`, position);
+      }
+      tokens.push({ type: 'filter', value, position, field });
+      continue;
+    }
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ type: word.toLowerCase() as TokenType, value: word, position });
+    } else {
+      tokens.push({ type: 'word', value: word, position });
+    }
+  }
+
+  return tokens;
+}
+
+class Parser {
+  private index = 0;
+
+  constructor(private tokens: Token[], private queryLength: number) {}
+
+  parse(): QueryNode | null {
+    if (this.tokens.length === 0) return null;
+
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next) {
+      throw new QuerySyntaxError(
+        next.type === 'rparen' ? 'Unmatched closing parenthesis' : `Unexpected "${next.value}"`,
+        next.position
+      );
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.type === 'or') {
+      this.next();
+      children.push(this.parseAnd());
+    }
+    return children.length === 1 ? children[0] : { type: 'or', children };
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+
+    while (true) {
+      const token = this.peek();
+      if (!token || token.type === 'or' || token.type === 'rparen') break;
+      // Explicit AND is optional between adjacent clauses
+      if (token.type === 'and') this.next();
+      children.push(this.parseUnary());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (token?.type === 'not') {
+      this.next();
+      return { type: 'not', child: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+
+    if (!token) {
+      throw new QuerySyntaxError('Query ends unexpectedly', this.queryLength);
+    }
+
+    switch (token.type) {
+      case 'lparen': {
+        if (this.peek()?.type === 'rparen') {
+          throw new QuerySyntaxError('Empty parentheses', token.position);
+        }
+        const node = this.parseOr();
+        if (this.next()?.type !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing parenthesis', token.position);
+        }
+        return node;
+      }
+      case 'phrase':
+        if (!token.value.trim()) {
+          throw new QuerySyntaxError('Empty phrase', token.position);
+        }
+        return { type: 'phrase', value: token.value };
+      case 'filter':
+        return parseFilter(token);
+      case 'word':
+        if (token.value.endsWith('*')) {
+          const value = token.value.replace(/\*+$/, '');
+          if (!value || value.includes('*')) {
+            throw new QuerySyntaxError('Wildcards are only supported at the end of a word', token.position);
+          }
+          return { type: 'prefix', value };
+        }
+        if (token.value.includes('*')) {
+          throw new QuerySyntaxError('Wildcards are only supported at the end of a word', token.position);
+        }
+        return { type: 'term', value: token.value };
+      default:
+        throw new QuerySyntaxError(`Unexpected "${token.value}"`, token.position);
+    }
+  }
+}
+
+function parseFilter(token: Token): QueryNode {
+  if (token.field !== 'page') {
+    return { type: 'filter', field: token.field as 'doc' | 'collection', value: token.value };
+  }
+
+  const range = token.value.match(/^(\d+)(?:(?:\.\.|-)(\d+))?$/);
+  if (!range) {
+    throw new QuerySyntaxError(`Invalid page filter "${token.value}", use page:12 or page:10..20`, token.position);
+  }
+
+  const from = parseInt(range[1], 10);
+  const to = range[2] ? parseInt(range[2], 10) : from;
+  if (to < from) {
+    throw new QuerySyntaxError(`Page range ${from}..${to} is reversed`, token.position);
+  }
+
+  return { type: 'filter', field: 'page', value: token.value, from, to };
+}
+
+/**
+ * Parses a search query, throwing QuerySyntaxError with the offending position.
+ * Returns null for an empty query.
+ */
+export function parseQuery(query: string): QueryNode | null {
+  return new Parser(lex(query), query.length).parse();
+}
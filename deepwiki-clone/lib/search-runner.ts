@@ -0,0 +1,104 @@
+/**
+ * Search Runner
+ * Answers a question recorded in the searches table and saves the answer to
+ * its row. A run outlives the page that started it, so the search's own page
+ * follows its progress through the row.
+ */
+
+import { AIChatService, DocumentReference } from './ai-chat-service';
+import { DocumentScope } from './document-scope';
+import { formatSectionLocation } from '@/convex/lib/chunking';
+import { Id } from '@/convex/_generated/dataModel';
+
+export type SearchType = 'fast' | 'deep';
+
+// The results field of a searches row
+export interface SearchResults {
+  content: string;
+  documentRefs: Array<{
+    documentName: string;
+    documentId: Id<'documents'>;
+    page: number;
+    section?: string;
+    paragraph?: number;
+    charStart?: number;
+    charEnd?: number;
+  }>;
+  documentSnippets: Array<{
+    documentId: Id<'documents'>;
+    documentName: string;
+    relevantPages: number[];
+    excerpts: string[];
+  }>;
+  confidence: number;
+}
+
+export interface SearchCallbacks {
+  complete: (results: SearchResults) => Promise<unknown>;
+  fail: (error: string) => Promise<unknown>;
+}
+
+// Runs a search in the background and records its outcome on the row
+export function runSearch(run: () => Promise<SearchResults>, callbacks: SearchCallbacks): void {
+  run()
+    .then(results => callbacks.complete(results))
+    .catch(error => {
+      console.error('Search failed:', error);
+      return callbacks.fail(error instanceof Error ? error.message : 'Search failed');
+    })
+    .catch(error => console.error('Failed to save search:', error));
+}
+
+// A fast search is one chat answer without earlier turns
+export async function runFastSearch(
+  chatService: AIChatService,
+  question: string,
+  scope: DocumentScope
+): Promise<SearchResults> {
+  chatService.clearHistory();
+  chatService.setScope(scope);
+  const { message, references } = await chatService.askQuestion(question);
+  return toSearchResults(message.content, references);
+}
+
+// Shortens answer links like [report.pdf:page12 · §2 Scope](ref:…) to
+// [report.pdf:p12](ref:…), keeping the document id and offset of the reference
+export function toCitationText(content: string): string {
+  return content.replace(/\[([^\]]+?):page(\d+)[^\]]*\]\((ref:[^)]+)\)/g, '[$1:p$2]($3)');
+}
+
+export function toSearchResults(content: string, references: DocumentReference[]): SearchResults {
+  const snippets = new Map<string, SearchResults['documentSnippets'][number]>();
+  for (const ref of references) {
+    let snippet = snippets.get(ref.documentId);
+    if (!snippet) {
+      snippet = {
+        documentId: ref.documentId as Id<'documents'>,
+        documentName: ref.documentName,
+        relevantPages: [],
+        excerpts: [],
+      };
+      snippets.set(ref.documentId, snippet);
+    }
+    if (!snippet.relevantPages.includes(ref.pageNumber)) snippet.relevantPages.push(ref.pageNumber);
+    snippet.excerpts.push(ref.excerpt);
+  }
+  snippets.forEach(snippet => snippet.relevantPages.sort((a, b) => a - b));
+
+  const totalConfidence = references.reduce((sum, ref) => sum + ref.confidence, 0);
+
+  return {
+    content: toCitationText(content),
+    documentRefs: references.map(ref => ({
+      documentName: ref.documentName,
+      documentId: ref.documentId as Id<'documents'>,
+      page: ref.pageNumber,
+      section: ref.section && formatSectionLocation(ref.section),
+      paragraph: ref.paragraphIndex,
+      charStart: ref.charStart,
+      charEnd: ref.charEnd,
+    })),
+    documentSnippets: Array.from(snippets.values()),
+    confidence: references.length ? Math.round(totalConfidence / references.length) : 0,
+  };
+}
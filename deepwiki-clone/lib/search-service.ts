@@ -1,14 +1,29 @@
 /**
  * Search Service for PDF Documents
- * Handles both local search and future vector search integration
+ * Retrieves BM25-ranked chunks from the server-side search index, then applies
+ * the query language (phrases, boolean operators, prefixes, filters) to them
  */
 
+import { analyze, tokenize, normalizeTerm } from '@/convex/lib/textAnalysis';
+import { parseQuery, QueryNode, QuerySyntaxError } from './query-parser';
+import { DocumentScope, ALL_DOCUMENTS, isInScope, toScopeFields } from './document-scope';
+import { escapeHtml } from './chat-format';
+import { MAX_SCOPED_DOCUMENTS, SectionLocation } from '@/convex/lib/chunking';
+import { TableLocation } from '@/convex/lib/tables';
+import { KeyConcept, relatedConcepts } from './key-concepts';
+
 export interface SearchResult {
   id: string;
   documentId: string;
   documentName: string;
   excerpt: string;
   pageNumber: number;
+  paragraphIndex: number;
+  section?: SectionLocation;
+  table?: TableLocation;
+  // Character range of the excerpt within the document text
+  charStart: number;
+  charEnd: number;
   score: number;
   highlightedText: string;
 }
@@ -19,32 +34,98 @@ export interface SearchResponse {
   totalResults: number;
   searchTime: number;
   suggestions?: string[];
+  error?: {
+    message: string;
+    position: number;
+  };
+}
+
+// A chunk row from the Convex chunks table
+export interface DocumentChunk {
+  _id: string;
+  pageNumber: number;
+  paragraphIndex: number;
+  text: string;
+  startOffset: number;
+  endOffset: number;
+  section?: SectionLocation;
+  // Titles of the outline entries the chunk sits under, outermost first
+  sectionPath?: string[];
+  // Set when the chunk is (part of) a table
+  table?: TableLocation;
+}
+
+// A ranked chunk returned by the Convex chunks:searchChunks query
+export interface RetrievedChunk extends DocumentChunk {
+  documentId: string;
+  documentName: string;
+  rank: number;
+  // BM25 score of the chunk for the query
+  score: number;
 }
 
-export interface Document {
+export type ChunkRetriever = (
+  query: string,
+  options?: DocumentScope & { documentId?: string; limit?: number; requiredTerms?: string[] }
+) => Promise<RetrievedChunk[]>;
+
+// What search needs to know about a document besides its chunks
+export interface SearchableDocument {
   id: string;
   originalName: string;
-  textContent?: string;
-  analysis?: {
-    text_content: string;
-    sections: Array<{
-      page_number: number;
-      content: string;
-    }>;
-  };
+  pageCount: number;
+  version?: number;
+  // Replaced by a newer version; searched only when picked by hand
+  superseded?: boolean;
+  collectionId?: string;
+  collectionName?: string;
+  keyConcepts?: KeyConcept[];
+}
+
+const MAX_RESULTS = 20;
+// Chunks fetched from the search index before the query is applied to them
+const CANDIDATE_CHUNKS = 100;
+const EXCERPT_LENGTH = 200;
+const MAX_SUGGESTIONS = 3;
+
+// Words of a chunk, analyzed once per query
+interface ChunkText {
+  words: string[];
+  stems: string[];
 }
 
 class SearchService {
-  private documents: Document[] = [];
+  private documents = new Map<string, SearchableDocument>();
+  private retriever: ChunkRetriever | null = null;
+
+  setDocuments(docs: SearchableDocument[]) {
+    this.documents = new Map(docs.map(doc => [doc.id, doc]));
+  }
 
-  setDocuments(docs: Document[]) {
-    this.documents = docs;
+  setRetriever(retriever: ChunkRetriever) {
+    this.retriever = retriever;
   }
 
-  async search(query: string): Promise<SearchResponse> {
+  async search(query: string, scope: DocumentScope = ALL_DOCUMENTS): Promise<SearchResponse> {
     const startTime = Date.now();
-    
-    if (!query.trim()) {
+
+    let ast: QueryNode | null;
+    try {
+      ast = parseQuery(query);
+    } catch (error) {
+      if (error instanceof QuerySyntaxError) {
+        return {
+          query,
+          results: [],
+          totalResults: 0,
+          searchTime: 0,
+          error: { message: error.message, position: error.position }
+        };
+      }
+      throw error;
+    }
+
+    if (!ast || !this.retriever) {
       return {
         query,
         results: [],
@@ -53,121 +134,265 @@ class SearchService {
       };
     }
 
-    const results: SearchResult[] = [];
-    const searchTerms = query.toLowerCase().split(' ').filter(term => term.length > 2);
-
-    this.documents.forEach(doc => {
-      const content = doc.textContent || doc.analysis?.text_content || '';
-      const sections = doc.analysis?.sections || [];
-
-      // Search in full content
-      searchTerms.forEach(term => {
-        const regex = new RegExp(`([^.]*${term}[^.]*)`, 'gi');
-        const matches = content.match(regex);
-
-        if (matches) {
-          matches.forEach((match, index) => {
-            // Find which page this match is on
-            let pageNumber = 1;
-            let charCount = 0;
-            
-            for (const section of sections) {
-              charCount += section.content.length;
-              if (charCount >= content.indexOf(match)) {
-                pageNumber = section.page_number;
-                break;
-              }
-            }
-
-            // Calculate relevance score (simple frequency-based)
-            const termFreq = (match.toLowerCase().match(new RegExp(term, 'g')) || []).length;
-            const score = termFreq / match.length * 100;
-
-            // Highlight the search term
-            const highlightedText = match.replace(
-              new RegExp(`(${term})`, 'gi'),
-              '<mark>$1</mark>'
-            );
-
-            results.push({
-              id: `${doc.id}-${index}`,
-              documentId: doc.id,
-              documentName: doc.originalName,
-              excerpt: match.trim().substring(0, 200) + (match.length > 200 ? '...' : ''),
-              pageNumber,
-              score,
-              highlightedText: highlightedText.trim().substring(0, 200) + (highlightedText.length > 200 ? '...' : '')
-            });
-          });
+    // The search index needs words to look up; filters and exclusions only narrow
+    const searchText = collectSearchText(ast).join(' ').trim();
+    if (!searchText) {
+      return {
+        query,
+        results: [],
+        totalResults: 0,
+        searchTime: 0,
+        error: { message: 'Add a word or phrase to search for', position: 0 }
+      };
+    }
+
+    const narrowed = this.narrowScope(ast, scope);
+    const candidates = narrowed
+      ? await this.retriever(searchText, {
+        ...toScopeFields(narrowed),
+        limit: CANDIDATE_CHUNKS,
+        requiredTerms: collectRequiredTerms(ast)
+      })
+      : [];
+
+    const terms = collectTerms(ast);
+    const prefixes = collectPrefixes(ast);
+    const results = candidates
+      .filter(chunk => this.matches(ast!, chunk, analyzeChunk(chunk.text)) !== false)
+      .slice(0, MAX_RESULTS)
+      .map(chunk => this.toSearchResult(chunk, terms, prefixes));
+
+    return {
+      query,
+      results,
+      totalResults: results.length,
+      searchTime: Date.now() - startTime,
+      suggestions: this.generateSuggestions(query, results)
+    };
+  }
+
+  /**
+   * Moves doc: and collection: filters that every result must satisfy into
+   * the retrieval scope, so the candidates come from those documents only.
+   * Returns null when no document in scope passes the filters. When more
+   * documents pass than one search can be limited to, the scope is kept and
+   * the filters only apply to the candidates.
+   */
+  private narrowScope(ast: QueryNode, scope: DocumentScope): DocumentScope | null {
+    const required = (ast.type === 'and' ? ast.children : [ast])
+      .filter(node => node.type === 'filter' && node.field !== 'page');
+    if (required.length === 0) return scope;
+
+    const documentIds = Array.from(this.documents.values())
+      .filter(doc => scope.documentIds?.length ? scope.documentIds.includes(doc.id) : !doc.superseded)
+      .filter(doc => isInScope(doc, scope))
+      .filter(doc => required.every(node => this.matchesDocument(node, doc)))
+      .map(doc => doc.id);
+    if (documentIds.length === 0) return null;
+    return documentIds.length <= MAX_SCOPED_DOCUMENTS ? { documentIds } : scope;
+  }
+
+  /**
+   * Whether a chunk satisfies a query node.
+   * Returns null when the node places no constraint (e.g. a lone stopword).
+   */
+  private matches(node: QueryNode, chunk: RetrievedChunk, text: ChunkText): boolean | null {
+    switch (node.type) {
+      case 'term':
+      case 'phrase': {
+        const terms = analyze(node.value);
+        if (terms.length === 0) return null;
+        return containsSequence(text.stems, terms);
+      }
+      case 'prefix': {
+        const prefix = node.value.toLowerCase();
+        return text.words.some(word => word.startsWith(prefix));
+      }
+      case 'filter':
+        if (node.field === 'page') return chunk.pageNumber >= node.from && chunk.pageNumber <= node.to;
+        return this.matchesDocument(node, this.documents.get(chunk.documentId) ?? {
+          id: chunk.documentId,
+          originalName: chunk.documentName,
+          pageCount: 0
+        });
+      case 'not': {
+        const excluded = this.matches(node.child, chunk, text);
+        return excluded === null ? null : !excluded;
+      }
+      case 'and': {
+        let result: boolean | null = null;
+        for (const child of node.children) {
+          const match = this.matches(child, chunk, text);
+          if (match === false) return false;
+          if (match) result = true;
         }
-      });
-    });
+        return result;
+      }
+      case 'or': {
+        let result: boolean | null = null;
+        for (const child of node.children) {
+          const match = this.matches(child, chunk, text);
+          if (match) return true;
+          if (match === false) result = false;
+        }
+        return result;
+      }
+    }
+  }
 
-    // Sort by relevance score
-    results.sort((a, b) => b.score - a.score);
+  private matchesDocument(node: QueryNode, doc: SearchableDocument): boolean {
+    if (node.type !== 'filter' || node.field === 'page') return true;
+    const value = node.value.toLowerCase();
+    if (node.field === 'doc') {
+      return doc.id === node.value || doc.originalName.toLowerCase().includes(value);
+    }
+    return doc.collectionId === node.value || doc.collectionName?.toLowerCase() === value;
+  }
 
-    // Remove duplicates and limit results
-    const uniqueResults = results
-      .filter((result, index, arr) => 
-        arr.findIndex(r => r.excerpt === result.excerpt) === index
-      )
-      .slice(0, 20);
+  private toSearchResult(chunk: RetrievedChunk, terms: string[], prefixes: string[]): SearchResult {
+    const termSet = new Set(terms);
+    const isHit = (word: string) =>
+      termSet.has(normalizeTerm(word)) || prefixes.some(prefix => word.startsWith(prefix));
+    const tokens = tokenize(chunk.text);
+    const firstHit = tokens.find(token => isHit(token.term));
 
-    const searchTime = Date.now() - startTime;
+    // Center the excerpt on the first matching word
+    const start = Math.max(0, (firstHit?.start ?? 0) - 60);
+    const end = Math.min(chunk.text.length, start + EXCERPT_LENGTH);
+    const prefix = start > 0 ? '...' : '';
+    const suffix = end < chunk.text.length ? '...' : '';
+
+    let highlightedText = '';
+    let cursor = start;
+    tokens
+      .filter(token => token.start >= start && token.end <= end && isHit(token.term))
+      .forEach(token => {
+        highlightedText += escapeHtml(chunk.text.slice(cursor, token.start)) +
+          `<mark>${escapeHtml(chunk.text.slice(token.start, token.end))}</mark>`;
+        cursor = token.end;
+      });
+    highlightedText += escapeHtml(chunk.text.slice(cursor, end));
 
     return {
-      query,
-      results: uniqueResults,
-      totalResults: uniqueResults.length,
-      searchTime,
-      suggestions: this.generateSuggestions(query, uniqueResults)
+      id: chunk._id,
+      documentId: chunk.documentId,
+      documentName: chunk.documentName,
+      excerpt: prefix + chunk.text.slice(start, end).trim() + suffix,
+      pageNumber: chunk.pageNumber,
+      paragraphIndex: chunk.paragraphIndex,
+      section: chunk.section,
+      table: chunk.table,
+      charStart: chunk.startOffset + start,
+      charEnd: chunk.startOffset + end,
+      score: chunk.score,
+      highlightedText: prefix + highlightedText.trim() + suffix
     };
   }
 
+  // Key concepts on the pages of the top results, ready to run as queries
   private generateSuggestions(query: string, results: SearchResult[]): string[] {
-    // Simple suggestion generation based on document content
-    const suggestions: string[] = [];
-    
-    // Extract common terms from results
-    const terms = new Set<string>();
-    results.forEach(result => {
-      const words = result.excerpt.toLowerCase()
-        .replace(/[^\w\s]/g, '')
-        .split(' ')
-        .filter(word => word.length > 3);
-      
-      words.forEach(word => terms.add(word));
-    });
-
-    // Return top 3 most relevant terms not in original query
-    const queryWords = query.toLowerCase().split(' ');
-    const filteredTerms = Array.from(terms)
-      .filter(term => !queryWords.includes(term))
-      .slice(0, 3);
-
-    return filteredTerms;
+    return relatedConcepts(
+      results,
+      documentId => this.documents.get(documentId)?.keyConcepts,
+      query,
+      MAX_SUGGESTIONS
+    ).map(concept => concept.text.includes(' ') ? `"${concept.text}"` : concept.text);
   }
 
+  // Results from a single document, e.g. for find-in-document
   async searchInDocument(documentId: string, query: string): Promise<SearchResult[]> {
-    const doc = this.documents.find(d => d.id === documentId);
-    if (!doc) return [];
-
-    const fullSearch = await this.search(query);
-    return fullSearch.results.filter(result => result.documentId === documentId);
+    const response = await this.search(query, { documentIds: [documentId] });
+    return response.results;
   }
 
   getSearchStatistics() {
+    const documents = Array.from(this.documents.values());
     return {
-      totalDocuments: this.documents.length,
-      totalPages: this.documents.reduce((sum, doc) => {
-        return sum + (doc.analysis?.sections?.length || 0);
-      }, 0),
-      avgWordsPerDocument: this.documents.reduce((sum, doc) => {
-        const content = doc.textContent || doc.analysis?.text_content || '';
-        return sum + content.split(' ').length;
-      }, 0) / (this.documents.length || 1)
+      totalDocuments: documents.length,
+      totalPages: documents.reduce((sum, doc) => sum + doc.pageCount, 0)
     };
   }
 }
 
-export const searchService = new SearchService();
\ No newline at end of file
+/**
+ * Words sent to the search index: the terms, phrases and prefixes outside
+ * negations. Prefixes go last, where the index matches a partial word.
+ */
+function collectSearchText(node: QueryNode): string[] {
+  const words: string[] = [];
+  const prefixes: string[] = [];
+  const visit = (child: QueryNode) => {
+    switch (child.type) {
+      case 'term':
+      case 'phrase':
+        words.push(child.value);
+        break;
+      case 'prefix':
+        prefixes.push(child.value);
+        break;
+      case 'and':
+      case 'or':
+        child.children.forEach(visit);
+        break;
+    }
+  };
+  visit(node);
+  return [...words, ...prefixes];
+}
+
+/**
+ * Index terms used for highlighting.
+ * Negated clauses and filters are left out.
+ */
+function collectTerms(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'term':
+    case 'phrase':
+      return analyze(node.value);
+    case 'and':
+    case 'or':
+      return Array.from(new Set(node.children.flatMap(collectTerms)));
+    default:
+      return [];
+  }
+}
+
+/**
+ * Index terms every match contains: the words and phrases joined by AND at
+ * the top of the query. The server drops candidates without them before
+ * ranking, so a rare required word is not crowded out by common ones.
+ */
+function collectRequiredTerms(node: QueryNode): string[] {
+  const required = node.type === 'and' ? node.children : [node];
+  return Array.from(new Set(required
+    .flatMap(child => child.type === 'term' || child.type === 'phrase' ? analyze(child.value) : [])));
+}
+
+function collectPrefixes(node: QueryNode): string[] {
+  switch (node.type) {
+    case 'prefix':
+      return [node.value.toLowerCase()];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(collectPrefixes);
+    default:
+      return [];
+  }
+}
+
+function analyzeChunk(text: string): ChunkText {
+  return {
+    words: tokenize(text).map(token => token.term),
+    stems: analyze(text)
+  };
+}
+
+// Phrases match consecutive words once stopwords are dropped
+function containsSequence(stems: string[], terms: string[]): boolean {
+  for (let i = 0; i + terms.length <= stems.length; i++) {
+    if (terms.every((term, offset) => stems[i + offset] === term)) return true;
+  }
+  return false;
+}
+
+export const searchService = new SearchService();
@@ -0,0 +1,30 @@
+"use client";
+
+import { useCallback } from "react";
+import { useConvex } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { useUser } from "@/lib/user-context";
+import { ChunkRetriever } from "@/lib/search-service";
+import { toScopeArgs } from "@/lib/document-scope";
+
+// Retrieval for chat answers and searches, run server-side through the chunks query
+export function useChunkRetriever(): ChunkRetriever {
+  const { user } = useUser();
+  const convex = useConvex();
+
+  return useCallback<ChunkRetriever>(
+    async (query, options = {}) => {
+      if (!user) return [];
+      return convex.query(api.chunks.searchChunks, {
+        query,
+        userId: user.id,
+        ...toScopeArgs(options),
+        documentId: options.documentId as Id<"documents"> | undefined,
+        limit: options.limit,
+        requiredTerms: options.requiredTerms,
+      });
+    },
+    [convex, user]
+  );
+}
@@ -0,0 +1,17 @@
+"use client";
+
+import { useCallback } from "react";
+import { useConvex } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { Id } from "@/convex/_generated/dataModel";
+import { PageLoader } from "@/lib/version-changes";
+
+// Loads a document's page texts on demand, e.g. to compare two versions
+export function usePageLoader(): PageLoader {
+  const convex = useConvex();
+
+  return useCallback<PageLoader>(
+    documentId => convex.query(api.pages.getPages, { documentId: documentId as Id<"documents"> }),
+    [convex]
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { useCallback } from "react";
+import { useMutation } from "convex/react";
+import { api } from "@/convex/_generated/api";
+import { useUser } from "@/lib/user-context";
+import { AIChatService, ChatDocument } from "@/lib/ai-chat-service";
+import { DocumentScope, toScopeArgs } from "@/lib/document-scope";
+import { runSearch, runFastSearch, SearchType } from "@/lib/search-runner";
+import { runDeepSearch } from "@/lib/deep-search";
+import { useChunkRetriever } from "@/lib/use-chunk-retriever";
+import { usePageLoader } from "@/lib/use-page-loader";
+
+// Records a question in the searches table and answers it in the background; resolves to the row id
+export function useSearchStarter(documents: ChatDocument[]) {
+  const { user } = useUser();
+  const retrieveChunks = useChunkRetriever();
+  const loadPages = usePageLoader();
+  const startSearch = useMutation(api.searches.startSearch);
+  const addSearchStep = useMutation(api.searches.addSearchStep);
+  const completeSearch = useMutation(api.searches.completeSearch);
+  const failSearch = useMutation(api.searches.failSearch);
+
+  return useCallback(
+    async (query: string, scope: DocumentScope, searchType: SearchType): Promise<string | null> => {
+      if (!user) return null;
+
+      const searchId = await startSearch({
+        query,
+        userId: user.id,
+        searchType,
+        ...toScopeArgs(scope),
+      });
+
+      // Each question gets its own service so answers do not share history
+      const chatService = new AIChatService();
+      chatService.setDocuments(documents);
+      chatService.setRetriever(retrieveChunks);
+      chatService.setPageLoader(loadPages);
+
+      const run = searchType === "deep"
+        ? () => runDeepSearch(query, {
+            chatService,
+            retriever: retrieveChunks,
+            documents,
+            scope,
+            onStep: message => {
+              addSearchStep({ searchId, userId: user.id, message })
+                .catch((error: unknown) => console.error("Failed to save search step:", error));
+            },
+          })
+        : () => runFastSearch(chatService, query, scope);
+
+      runSearch(run, {
+        complete: results => completeSearch({ searchId, userId: user.id, results }),
+        fail: error => failSearch({ searchId, userId: user.id, error }),
+      });
+      return searchId;
+    },
+    [user, documents, retrieveChunks, loadPages, startSearch, addSearchStep, completeSearch, failSearch]
+  );
+}
@@ -14,6 +14,8 @@ interface UserContextType {
   isLoading: boolean;
 }
 
+const USER_ID_KEY = "deepwiki-user-id";
+
 const UserContext = createContext<UserContextType | undefined>(undefined);
 
 export function UserProvider({ children }: { children: ReactNode }) {
@@ -23,8 +25,15 @@ export function UserProvider({ children }: { children: ReactNode }) {
   useEffect(() => {
     // For now, create a mock user
     // In production, this would integrate with Clerk or similar
+    // The id is kept so documents and threads in Convex survive reloads
+    let userId = localStorage.getItem(USER_ID_KEY);
+    if (!userId) {
+      userId = "user_" + Math.random().toString(36).substr(2, 9);
+      localStorage.setItem(USER_ID_KEY, userId);
+    }
+
     const mockUser: User = {
-      id: "user_" + Math.random().toString(36).substr(2, 9),
+      id: userId,
       email: "demo@example.com",
       name: "Demo User",
     };
@@ -0,0 +1,144 @@
+/**
+ * Change Questions
+ * Answers questions like "what changed between v2 and v3?" from the diff of
+ * two document versions instead of from search results
+ */
+
+import { PageText } from '@/convex/lib/chunking';
+import { CHANGE_LABELS, ChangeType, DiffHunk, diffDocuments } from '@/convex/lib/diff';
+import type { DocumentReference } from './ai-chat-service';
+
+export interface VersionedDocument {
+  id: string;
+  originalName: string;
+  version?: number;
+  previousVersionId?: string;
+}
+
+// Fetches the page texts of a document
+export type PageLoader = (documentId: string) => Promise<PageText[]>;
+
+export interface VersionComparison {
+  before: VersionedDocument;
+  after: VersionedDocument;
+  // One per changed paragraph, in the order of the later version
+  references: DocumentReference[];
+}
+
+const MAX_CHANGE_REFERENCES = 10;
+const CHANGE_QUESTION = /\b(?:changed?|changes|differen(?:t|ces?)|diff|added|removed|deleted|revised|modified)\b/i;
+const VERSION_MENTION = /\bv(?:ersion)?\s*(\d+)\b/gi;
+
+function versionOf(document: VersionedDocument): number {
+  return document.version ?? 1;
+}
+
+// Versions of each document with more than one, oldest first
+function versionGroups(documents: VersionedDocument[]): VersionedDocument[][] {
+  const byId = new Map(documents.map(doc => [doc.id, doc]));
+  const groups = new Map<string, VersionedDocument[]>();
+
+  for (const document of documents) {
+    let root = document;
+    while (root.previousVersionId && byId.has(root.previousVersionId)) {
+      root = byId.get(root.previousVersionId)!;
+    }
+    groups.set(root.id, [...(groups.get(root.id) || []), document]);
+  }
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => group.sort((a, b) => versionOf(a) - versionOf(b)));
+}
+
+function namedGroup(question: string, groups: VersionedDocument[][]): VersionedDocument[] | undefined {
+  const lowered = question.toLowerCase();
+  return groups.find(group =>
+    lowered.includes(group[0].originalName.replace(/\.[^.]+$/, '').toLowerCase())
+  );
+}
+
+// Without a name in the question: the document in the chat scope, or the only one with versions
+function defaultGroup(groups: VersionedDocument[][], scopedIds: string[]): VersionedDocument[] | undefined {
+  const scoped = groups.find(group => group.some(doc => scopedIds.includes(doc.id)));
+  return scoped ?? (groups.length === 1 ? groups[0] : undefined);
+}
+
+/**
+ * The two versions a change question asks about. Two version numbers compare
+ * those, one compares it with the version before it, none compares the latest
+ * two. Questions that mention neither a version nor a versioned document by
+ * name are left to search.
+ */
+export function resolveComparison(
+  question: string,
+  documents: VersionedDocument[],
+  scopedIds: string[] = []
+): { before: VersionedDocument; after: VersionedDocument } | undefined {
+  if (!CHANGE_QUESTION.test(question)) return undefined;
+
+  const mentioned = Array.from(question.matchAll(VERSION_MENTION), match => parseInt(match[1], 10));
+  const groups = versionGroups(documents);
+  const named = namedGroup(question, groups);
+  if (!named && mentioned.length === 0 && !/\b(?:versions?|revisions?)\b/i.test(question)) return undefined;
+
+  const group = named ?? defaultGroup(groups, scopedIds);
+  if (!group) return undefined;
+
+  const find = (version: number) => group.find(doc => versionOf(doc) === version);
+  if (mentioned.length >= 2) {
+    const [first, second] = [mentioned[0], mentioned[1]].sort((a, b) => a - b);
+    const before = find(first);
+    const after = find(second);
+    return before && after ? { before, after } : undefined;
+  }
+  if (mentioned.length === 1) {
+    const index = group.findIndex(doc => versionOf(doc) === mentioned[0]);
+    if (index < 0) return undefined;
+    // "What changed in v1?" can only mean against v2
+    return index > 0
+      ? { before: group[index - 1], after: group[index] }
+      : { before: group[0], after: group[1] };
+  }
+  return { before: group[group.length - 2], after: group[group.length - 1] };
+}
+
+type ChangeHunk = DiffHunk & { type: ChangeType };
+
+function changeReference(
+  hunk: ChangeHunk,
+  before: VersionedDocument,
+  after: VersionedDocument
+): DocumentReference {
+  const { type } = hunk;
+  // Deleted text is cited in the earlier version, everything else in the later one
+  const [document, block] = type === 'delete' ? [before, hunk.before!] : [after, hunk.after!];
+  const excerpt = block.text.substring(0, 200);
+  const origin = type === 'move' ? ` from page ${hunk.before!.pageNumber} of v${versionOf(before)}` : '';
+
+  return {
+    documentId: document.id,
+    documentName: `${document.originalName} (v${versionOf(document)})`,
+    pageNumber: block.pageNumber,
+    paragraphIndex: block.paragraphIndex,
+    charStart: block.offset,
+    charEnd: block.offset + excerpt.length,
+    excerpt: excerpt + (block.text.length > 200 ? '...' : ''),
+    relevantText: `${CHANGE_LABELS[type]}${origin}: ${block.text.substring(0, 500)}${block.text.length > 500 ? '...' : ''}`,
+    confidence: 100,
+    change: type,
+  };
+}
+
+export function compareVersions(
+  before: VersionedDocument,
+  after: VersionedDocument,
+  pages: { before: PageText[]; after: PageText[] }
+): VersionComparison {
+  const references = diffDocuments(pages.before, pages.after)
+    .filter((hunk): hunk is ChangeHunk => hunk.type !== 'equal')
+    .slice(0, MAX_CHANGE_REFERENCES)
+    .map(hunk => changeReference(hunk, before, after));
+
+  return { before, after, references };
+}
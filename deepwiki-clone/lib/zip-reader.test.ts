@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { deflateRawSync } from 'zlib'
+import { readZipEntries } from './zip-reader'
+
+interface TestEntry {
+  path: string
+  content?: string
+  method?: 'stored' | 'deflated' | 'bzip2'
+  encrypted?: boolean
+}
+
+// Builds an archive the way zip tools lay it out: local headers and data, then the central directory
+function buildZip(entries: TestEntry[], comment = ''): Blob {
+  const encoder = new TextEncoder()
+  const local: Uint8Array<ArrayBuffer>[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path)
+    const raw = encoder.encode(entry.content ?? '')
+    const data = entry.method === 'deflated' ? new Uint8Array(deflateRawSync(raw)) : raw
+    const method = { stored: 0, deflated: 8, bzip2: 12 }[entry.method ?? 'stored']
+    const flags = entry.encrypted ? 1 : 0
+
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(6, flags, true)
+    header.setUint16(8, method, true)
+    header.setUint32(18, data.length, true)
+    header.setUint32(22, raw.length, true)
+    header.setUint16(26, name.length, true)
+    local.push(new Uint8Array(header.buffer), name, data)
+
+    const record = new DataView(new ArrayBuffer(46))
+    record.setUint32(0, 0x02014b50, true)
+    record.setUint16(8, flags, true)
+    record.setUint16(10, method, true)
+    record.setUint32(20, data.length, true)
+    record.setUint32(24, raw.length, true)
+    record.setUint16(28, name.length, true)
+    record.setUint32(42, offset, true)
+    central.push(new Uint8Array(record.buffer), name)
+
+    offset += 30 + name.length + data.length
+  }
+
+  const directorySize = central.reduce((sum, part) => sum + part.length, 0)
+  const commentBytes = encoder.encode(comment)
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, directorySize, true)
+  end.setUint32(16, offset, true)
+  end.setUint16(20, commentBytes.length, true)
+
+  return new Blob([...local, ...central, new Uint8Array(end.buffer), commentBytes])
+}
+
+describe('readZipEntries', () => {
+  it('lists entries with their paths and sizes', async () => {
+    const entries = await readZipEntries(buildZip([
+      { path: 'Contracts/lease.txt', content: 'Rent is due monthly.' },
+      { path: 'notes.md', content: '# Notes' },
+    ]))
+    expect(entries.map(({ path, size }) => ({ path, size }))).toEqual([
+      { path: 'Contracts/lease.txt', size: 20 },
+      { path: 'notes.md', size: 7 },
+    ])
+  })
+
+  it('reads stored and deflated entries', async () => {
+    const text = 'The tenant shall pay rent. '.repeat(50)
+    const [stored, deflated] = await readZipEntries(buildZip([
+      { path: 'stored.txt', content: 'plain' },
+      { path: 'deflated.txt', content: text, method: 'deflated' },
+    ]))
+    expect(await (await stored.read()).text()).toBe('plain')
+    expect(await (await deflated.read()).text()).toBe(text)
+  })
+
+  it('decodes UTF-8 paths', async () => {
+    const [entry] = await readZipEntries(buildZip([{ path: 'Verträge/Kündigung.txt', content: 'x' }]))
+    expect(entry.path).toBe('Verträge/Kündigung.txt')
+  })
+
+  it('skips directories, encrypted entries and unsupported compression', async () => {
+    const entries = await readZipEntries(buildZip([
+      { path: 'Contracts/' },
+      { path: 'secret.txt', content: 'x', encrypted: true },
+      { path: 'old.txt', content: 'x', method: 'bzip2' },
+      { path: 'Contracts/lease.txt', content: 'x' },
+    ]))
+    expect(entries.map(entry => entry.path)).toEqual(['Contracts/lease.txt'])
+  })
+
+  it('finds the directory behind an archive comment', async () => {
+    const entries = await readZipEntries(buildZip([{ path: 'a.txt', content: 'a' }], 'Exported by a tool'))
+    expect(entries.map(entry => entry.path)).toEqual(['a.txt'])
+  })
+
+  it('rejects files that are not archives', async () => {
+    await expect(readZipEntries(new Blob(['not a zip file at all, just some text']))).rejects.toThrow('Not a ZIP archive')
+  })
+})
@@ -0,0 +1,97 @@
+/**
+ * ZIP Reader
+ * Lists the files in a ZIP archive and reads them one at a time, so large
+ * archives are never unpacked into memory at once. Supports stored and
+ * deflated entries, which covers archives made by common tools.
+ */
+
+export interface ZipEntry {
+  path: string;
+  // Uncompressed size in bytes
+  size: number;
+  read(): Promise<Blob>;
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+// Fixed part of the end record plus the longest possible comment
+const MAX_END_RECORD_BYTES = 22 + 0xffff;
+
+const STORED = 0;
+const DEFLATED = 8;
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<DataView> {
+  return new DataView(await blob.slice(start, end).arrayBuffer());
+}
+
+async function findEndRecord(file: Blob): Promise<DataView> {
+  const start = Math.max(0, file.size - MAX_END_RECORD_BYTES);
+  const tail = await readBytes(file, start, file.size);
+
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      return new DataView(tail.buffer, offset);
+    }
+  }
+  throw new Error('Not a ZIP archive');
+}
+
+async function readEntryData(file: Blob, headerOffset: number, compressedSize: number, method: number): Promise<Blob> {
+  const header = await readBytes(file, headerOffset, headerOffset + 30);
+  if (header.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+    throw new Error('Corrupt ZIP archive');
+  }
+
+  // The local header repeats the name and may carry a different extra field
+  const dataStart = headerOffset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = file.slice(dataStart, dataStart + compressedSize);
+  if (method === STORED) return data;
+
+  const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(inflated).blob();
+}
+
+export async function readZipEntries(file: Blob): Promise<ZipEntry[]> {
+  const end = await findEndRecord(file);
+  const entryCount = end.getUint16(10, true);
+  const directorySize = end.getUint32(12, true);
+  const directoryOffset = end.getUint32(16, true);
+  if (directoryOffset === 0xffffffff) {
+    throw new Error('ZIP64 archives are not supported');
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(offset, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupt ZIP archive');
+    }
+
+    const flags = directory.getUint16(offset + 8, true);
+    const method = directory.getUint16(offset + 10, true);
+    const compressedSize = directory.getUint32(offset + 20, true);
+    const size = directory.getUint32(offset + 24, true);
+    const nameLength = directory.getUint16(offset + 28, true);
+    const extraLength = directory.getUint16(offset + 30, true);
+    const commentLength = directory.getUint16(offset + 32, true);
+    const headerOffset = directory.getUint32(offset + 42, true);
+    const path = decoder.decode(new Uint8Array(directory.buffer, directory.byteOffset + offset + 46, nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories, encrypted entries and unknown compression methods are skipped
+    const encrypted = (flags & 1) !== 0;
+    if (path.endsWith('/') || encrypted || (method !== STORED && method !== DEFLATED)) continue;
+
+    entries.push({
+      path,
+      size,
+      read: () => readEntryData(file, headerOffset, compressedSize, method),
+    });
+  }
+
+  return entries;
+}
@@ -5,15 +5,26 @@ Provides text extraction and document analysis capabilities
 """
 
 import os
+import re
 import tempfile
 import json
 import time
 from typing import List, Dict, Any, Optional
 from pathlib import Path
 
-from fastapi import FastAPI, File, UploadFile, HTTPException
+from fastapi import FastAPI, File, Form, UploadFile, HTTPException
 from fastapi.middleware.cors import CORSMiddleware
 import PyPDF2
+import pdfplumber
+import docx
+from docx.table import Table as DocxTable
+from docx.text.paragraph import Paragraph as DocxParagraph
+import ebooklib
+from ebooklib import epub
+from bs4 import BeautifulSoup, Comment, NavigableString, Tag
+import markdown
+import pytesseract
+from langdetect import DetectorFactory, LangDetectException, detect
 import uvicorn
 
 app = FastAPI(
@@ -33,10 +44,284 @@ app.add_middleware(
 
 # Response models using dict instead of Pydantic BaseModel for simplicity
 
+NUMBERED_HEADING = re.compile(r'^(?:section\s+)?(\d+(?:\.\d+)*)\.?\s+\S', re.IGNORECASE)
+NAMED_HEADING = re.compile(r'^(chapter|part|appendix)\s+[\w.]+', re.IGNORECASE)
+MAX_HEADING_CHARS = 80
+# Must match CELL_SEPARATOR in convex/lib/tables.ts
+CELL_SEPARATOR = ' | '
+NUMERIC_CELL = re.compile(r'^[\s$€£¥%()+\-.,\d]+$')
+
+# Tesseract language packs, e.g. "eng+deu"
+OCR_LANGUAGES = os.environ.get('OCR_LANGUAGES', 'eng')
+OCR_RESOLUTION = 300
+# Shorter texts do not identify their language reliably
+MIN_LANGUAGE_CHARS = 50
+
+# Repeatable language detection
+DetectorFactory.seed = 0
+
+# Must match DOCUMENT_FORMATS in convex/lib/formats.ts
+PDF_MIME_TYPE = 'application/pdf'
+DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+EPUB_MIME_TYPE = 'application/epub+zip'
+HTML_MIME_TYPE = 'text/html'
+MARKDOWN_MIME_TYPE = 'text/markdown'
+TEXT_MIME_TYPE = 'text/plain'
+EXTENSION_MIME_TYPES = {
+    '.pdf': PDF_MIME_TYPE,
+    '.docx': DOCX_MIME_TYPE,
+    '.epub': EPUB_MIME_TYPE,
+    '.html': HTML_MIME_TYPE,
+    '.htm': HTML_MIME_TYPE,
+    '.md': MARKDOWN_MIME_TYPE,
+    '.markdown': MARKDOWN_MIME_TYPE,
+    '.txt': TEXT_MIME_TYPE,
+}
+
+# Formats without pages are split into logical pages of about this many characters
+LOGICAL_PAGE_CHARS = 3000
+HEADING_TAGS = {'h1', 'h2', 'h3', 'h4', 'h5', 'h6'}
+TEXT_BLOCK_TAGS = {'p', 'li', 'pre', 'blockquote', 'dt', 'dd', 'figcaption', 'address'}
+SKIPPED_TAGS = {'script', 'style', 'nav', 'head', 'template', 'noscript'}
+
+def heading_level(line: str) -> Optional[int]:
+    """Return the heading depth of a line, or None for body text"""
+    if len(line) > MAX_HEADING_CHARS or line.endswith(('.', ',', ';')):
+        return None
+
+    numbered = NUMBERED_HEADING.match(line)
+    if numbered:
+        return numbered.group(1).count('.') + 1
+    if NAMED_HEADING.match(line):
+        return 1
+    letters = [c for c in line if c.isalpha()]
+    if len(letters) >= 3 and all(c.isupper() for c in letters) and len(line.split()) <= 8:
+        return 1
+    return None
+
+def detect_layout(page_text: str) -> List[Dict[str, Any]]:
+    """Split page text into headings and paragraphs in reading order.
+
+    PyPDF2 returns lines in content stream order. A paragraph ends at a blank
+    line, or at a short line that closes a sentence.
+    """
+    lines = [line.strip() for line in page_text.splitlines()]
+    full_width = max((len(line) for line in lines), default=0)
+    blocks: List[Dict[str, Any]] = []
+    paragraph: List[str] = []
+
+    def close_paragraph():
+        if paragraph:
+            blocks.append({'type': 'paragraph', 'text': ' '.join(paragraph)})
+            paragraph.clear()
+
+    for line in lines:
+        if not line:
+            close_paragraph()
+            continue
+
+        level = heading_level(line)
+        if level is not None:
+            close_paragraph()
+            blocks.append({'type': 'heading', 'text': line, 'level': level})
+            continue
+
+        paragraph.append(line)
+        if line.endswith(('.', '!', '?', ':')) and len(line) < 0.8 * full_width:
+            close_paragraph()
+
+    close_paragraph()
+    return blocks
+
+def clean_cell(cell: Optional[str]) -> str:
+    """Cell text on one line; line breaks separate rows in the table text"""
+    return ' '.join((cell or '').split())
+
+def table_text(header: List[str], rows: List[List[str]]) -> str:
+    """One line per row with cells separated by CELL_SEPARATOR, the same as tableText in the app"""
+    lines = [header] if header else []
+    return '\n'.join(CELL_SEPARATOR.join(row) for row in lines + rows)
+
+def split_header(cells: List[List[str]]):
+    """Treat the first row as the header when it labels the columns instead of holding numbers"""
+    labels = [cell for cell in cells[0] if cell]
+    if labels and not any(NUMERIC_CELL.match(cell) for cell in labels):
+        return cells[0], cells[1:]
+    return [], cells
+
+def extract_tables(page: Any) -> List[Dict[str, Any]]:
+    """Find ruled or aligned tables on a pdfplumber page"""
+    tables = []
+    for table in page.find_tables():
+        cells = [[clean_cell(cell) for cell in row] for row in table.extract()]
+        cells = [row for row in cells if any(row)]
+        # A single row or column is more likely a framed paragraph
+        if len(cells) < 2 or max(len(row) for row in cells) < 2:
+            continue
+        header, rows = split_header(cells)
+        x0, top, x1, bottom = table.bbox
+        tables.append({
+            'header': header,
+            'rows': rows,
+            'bbox': {
+                'x0': x0,
+                'top': top,
+                'x1': x1,
+                'bottom': bottom,
+                'page_width': float(page.width),
+                'page_height': float(page.height)
+            }
+        })
+    return sorted(tables, key=lambda table: table['bbox']['top'])
+
+def detect_layout_with_tables(page: Any, tables: List[Dict[str, Any]], first_index: int) -> List[Dict[str, Any]]:
+    """Headings, paragraphs and tables in reading order.
+
+    The text above, beside and below each table is laid out on its own, so
+    table cells do not run into the surrounding paragraphs.
+    """
+    page_x0, page_top, page_x1, page_bottom = page.bbox
+    blocks: List[Dict[str, Any]] = []
+    top = page_top
+
+    def layout(region: Any):
+        blocks.extend(detect_layout(region.extract_text() or ''))
+
+    for offset, table in enumerate(tables):
+        bbox = table['bbox']
+        table_top = max(bbox['top'], top)
+        table_bottom = max(bbox['bottom'], table_top)
+        if table_top > top:
+            layout(page.crop((page_x0, top, page_x1, table_top)))
+        blocks.append({
+            'type': 'table',
+            'text': table_text(table['header'], table['rows']),
+            'table_index': first_index + offset
+        })
+        if table_bottom > table_top:
+            band = page.crop((page_x0, table_top, page_x1, table_bottom))
+            layout(band.outside_bbox((bbox['x0'], table_top, bbox['x1'], table_bottom), strict=False))
+        top = table_bottom
+
+    if top < page_bottom:
+        layout(page.crop((page_x0, top, page_x1, page_bottom)))
+    return blocks
+
+def detect_language(text: str) -> Optional[str]:
+    """ISO 639-1 code of the text's language, or None when it cannot be told"""
+    if len(text.strip()) < MIN_LANGUAGE_CHARS:
+        return None
+    try:
+        return detect(text)
+    except LangDetectException:
+        return None
+
+def word_box(text: str, x0: float, top: float, x1: float, bottom: float) -> Dict[str, Any]:
+    """A word and its bounding box in PDF points from the top-left corner of the page"""
+    return {
+        'text': text,
+        'x0': round(x0, 1),
+        'top': round(top, 1),
+        'x1': round(x1, 1),
+        'bottom': round(bottom, 1)
+    }
+
+def extract_words(page: Any) -> List[Dict[str, Any]]:
+    """Words of a pdfplumber page in reading order, used to highlight citations on the rendered page"""
+    return [
+        word_box(word['text'], word['x0'], word['top'], word['x1'], word['bottom'])
+        for word in page.extract_words()
+    ]
+
+def ocr_page(page: Any) -> Dict[str, Any]:
+    """Render a pdfplumber page and read it with Tesseract on the CPU.
+
+    Confidence is the mean word confidence, 0 to 100. Word boxes are
+    converted from image pixels back to PDF points.
+    """
+    image = page.to_image(resolution=OCR_RESOLUTION).original
+    data = pytesseract.image_to_data(image, lang=OCR_LANGUAGES, output_type=pytesseract.Output.DICT)
+    points_per_pixel = 72 / OCR_RESOLUTION
+
+    lines: List[str] = []
+    confidences: List[float] = []
+    words: List[Dict[str, Any]] = []
+    current_key = None
+    current_words: List[str] = []
+
+    def close_line():
+        if current_words:
+            lines.append(' '.join(current_words))
+            current_words.clear()
+
+    for i, word in enumerate(data['text']):
+        word = word.strip()
+        confidence = float(data['conf'][i])
+        if not word or confidence < 0:
+            continue
+        key = (data['block_num'][i], data['par_num'][i], data['line_num'][i])
+        if key != current_key:
+            close_line()
+            # A new Tesseract paragraph starts a new paragraph in the text
+            if current_key is not None and key[:2] != current_key[:2]:
+                lines.append('')
+            current_key = key
+        current_words.append(word)
+        confidences.append(confidence)
+        left, top = data['left'][i] * points_per_pixel, data['top'][i] * points_per_pixel
+        words.append(word_box(
+            word,
+            left,
+            top,
+            left + data['width'][i] * points_per_pixel,
+            top + data['height'][i] * points_per_pixel
+        ))
+    close_line()
+
+    blocks = detect_layout('\n'.join(lines))
+    return {
+        'content': '\n\n'.join(block['text'] for block in blocks),
+        'blocks': blocks,
+        'words': words,
+        'page_width': float(page.width),
+        'page_height': float(page.height),
+        'confidence': sum(confidences) / len(confidences) if confidences else 0.0
+    }
+
+def extract_outline(pdf_reader: PyPDF2.PdfReader) -> List[Dict[str, Any]]:
+    """Flatten the PDF's bookmarks into entries with a title, depth and target page"""
+    entries: List[Dict[str, Any]] = []
+
+    def walk(items: List[Any], level: int):
+        for item in items:
+            # A nested list holds the children of the preceding bookmark
+            if isinstance(item, list):
+                walk(item, level + 1)
+                continue
+            title = (item.title or '').strip()
+            try:
+                page_index = pdf_reader.get_destination_page_number(item)
+            except Exception:
+                page_index = None
+            if not title or page_index is None or page_index < 0:
+                continue
+            entries.append({
+                'title': title,
+                'level': level,
+                'page_number': page_index + 1
+            })
+
+    try:
+        walk(pdf_reader.outline, 1)
+    except Exception as e:
+        print(f"Error reading the PDF outline: {e}")
+        return []
+    return entries
+
 def extract_text_from_pdf(file_path: Path) -> Dict[str, Any]:
     """Extract text content from PDF file"""
     try:
-        with open(file_path, 'rb') as file:
+        with open(file_path, 'rb') as file, pdfplumber.open(file_path) as plumber_pdf:
             pdf_reader = PyPDF2.PdfReader(file)
             
             # Extract metadata
@@ -55,19 +340,44 @@ def extract_text_from_pdf(file_path: Path) -> Dict[str, Any]:
             # Extract text from all pages
             full_text = ""
             sections = []
+            tables = []
             
             for page_num, page in enumerate(pdf_reader.pages):
+                plumber_page = plumber_pdf.pages[page_num]
                 try:
-                    page_text = page.extract_text()
+                    try:
+                        page_tables = extract_tables(plumber_page)
+                    except Exception as e:
+                        print(f"Error detecting tables on page {page_num + 1}: {e}")
+                        page_tables = []
+
+                    if page_tables:
+                        blocks = detect_layout_with_tables(plumber_page, page_tables, len(tables))
+                        for table in page_tables:
+                            tables.append({'page_number': page_num + 1, **table})
+                    else:
+                        blocks = detect_layout(page.extract_text())
+                    # Blocks are joined the same way the app joins them, so offsets line up
+                    page_text = "\n\n".join(block['text'] for block in blocks)
                     full_text += page_text + "\n\n"
+
+                    try:
+                        words = extract_words(plumber_page)
+                    except Exception as e:
+                        print(f"Error locating words on page {page_num + 1}: {e}")
+                        words = []
                     
                     # Create section for each page
                     sections.append({
                         'type': 'page',
                         'page_number': page_num + 1,
-                        'content': page_text.strip(),
+                        'content': page_text,
                         'word_count': len(page_text.split()),
-                        'char_count': len(page_text)
+                        'char_count': len(page_text),
+                        'blocks': blocks,
+                        'words': words,
+                        'page_width': float(plumber_page.width),
+                        'page_height': float(plumber_page.height)
                     })
                 except Exception as e:
                     print(f"Error extracting text from page {page_num + 1}: {e}")
@@ -77,20 +387,285 @@ def extract_text_from_pdf(file_path: Path) -> Dict[str, Any]:
                         'content': '[Error extracting text from this page]',
                         'word_count': 0,
                         'char_count': 0,
-                        'error': str(e)
+                        'error': str(e),
+                        'blocks': []
                     })
             
+            metadata['language'] = detect_language(full_text) or ''
+
             return {
                 'text_content': full_text.strip(),
                 'page_count': len(pdf_reader.pages),
                 'word_count': len(full_text.split()),
                 'metadata': metadata,
-                'sections': sections
+                'sections': sections,
+                'tables': tables,
+                'outline': extract_outline(pdf_reader)
             }
             
     except Exception as e:
         raise HTTPException(status_code=400, detail=f"Failed to extract text from PDF: {str(e)}")
 
+def resolve_mime_type(filename: str, mime_type: Optional[str]) -> Optional[str]:
+    """The adapter's MIME type; browsers send no type, or a generic one, for some formats"""
+    if mime_type in ADAPTERS:
+        return mime_type
+    return EXTENSION_MIME_TYPES.get(Path(filename).suffix.lower())
+
+def build_extraction(
+    pages: List[List[Dict[str, Any]]],
+    metadata: Dict[str, Any],
+    outline: Optional[List[Dict[str, Any]]] = None
+) -> Dict[str, Any]:
+    """Shape logical pages of blocks like extract_text_from_pdf's result.
+
+    Table blocks carry their header and rows, which move to the tables list.
+    """
+    sections = []
+    tables = []
+    for page_number, page_blocks in enumerate(pages, start=1):
+        blocks = []
+        for block in page_blocks:
+            if block['type'] == 'table':
+                blocks.append({'type': 'table', 'text': block['text'], 'table_index': len(tables)})
+                tables.append({'page_number': page_number, 'header': block['header'], 'rows': block['rows']})
+            else:
+                blocks.append(block)
+        page_text = "\n\n".join(block['text'] for block in blocks)
+        sections.append({
+            'type': 'page',
+            'page_number': page_number,
+            'content': page_text,
+            'word_count': len(page_text.split()),
+            'char_count': len(page_text),
+            'blocks': blocks
+        })
+
+    full_text = "\n\n".join(section['content'] for section in sections)
+    return {
+        'text_content': full_text,
+        'page_count': len(sections),
+        'word_count': len(full_text.split()),
+        'metadata': {**metadata, 'language': detect_language(full_text) or ''},
+        'sections': sections,
+        'tables': tables,
+        'outline': outline or []
+    }
+
+def table_block(cells: List[List[str]]) -> Optional[Dict[str, Any]]:
+    """A table block from cell texts, or None when it is too small to be a table"""
+    cells = [[clean_cell(cell) for cell in row] for row in cells]
+    cells = [row for row in cells if any(row)]
+    if len(cells) < 2 or max(len(row) for row in cells) < 2:
+        return None
+    header, rows = split_header(cells)
+    return {'type': 'table', 'text': table_text(header, rows), 'header': header, 'rows': rows}
+
+def text_block(text: str) -> Optional[Dict[str, Any]]:
+    text = ' '.join(text.split())
+    return {'type': 'paragraph', 'text': text} if text else None
+
+def paginate(blocks: List[Dict[str, Any]]) -> List[List[Dict[str, Any]]]:
+    """Split blocks into logical pages at top-level headings and after LOGICAL_PAGE_CHARS.
+
+    A top-level heading that occurs once is taken as the document title, and
+    the level below it starts the pages instead.
+    """
+    levels = [block['level'] for block in blocks if block['type'] == 'heading']
+    split_level = None
+    if levels:
+        top = min(levels)
+        split_level = top if levels.count(top) > 1 else min((level for level in levels if level > top), default=None)
+
+    pages: List[List[Dict[str, Any]]] = []
+    current: List[Dict[str, Any]] = []
+    chars = 0
+    for block in blocks:
+        starts_section = split_level is not None and block['type'] == 'heading' and block['level'] <= split_level
+        has_body = any(existing['type'] != 'heading' for existing in current)
+        if has_body and (starts_section or chars >= LOGICAL_PAGE_CHARS):
+            pages.append(current)
+            current, chars = [], 0
+        current.append(block)
+        chars += len(block['text'])
+    if current:
+        pages.append(current)
+    return pages or [[]]
+
+def html_blocks(root: Tag) -> List[Dict[str, Any]]:
+    """Headings, paragraphs and tables of an HTML element in document order"""
+    blocks: List[Dict[str, Any]] = []
+    structural = HEADING_TAGS | TEXT_BLOCK_TAGS | {
+        'table', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'ul', 'ol', 'dl', 'figure', 'body'
+    }
+
+    def walk(node: Tag):
+        for child in node.children:
+            if isinstance(child, Comment):
+                continue
+            if isinstance(child, NavigableString):
+                # Loose text between blocks, e.g. in a div that also holds paragraphs
+                block = text_block(str(child)) if node.name not in ('ul', 'ol', 'dl', 'table', 'tr') else None
+                if block:
+                    blocks.append(block)
+                continue
+            if not isinstance(child, Tag) or child.name in SKIPPED_TAGS:
+                continue
+            if child.name in HEADING_TAGS:
+                text = ' '.join(child.get_text(' ').split())
+                if text:
+                    blocks.append({'type': 'heading', 'text': text, 'level': int(child.name[1])})
+            elif child.name == 'table':
+                rows = [
+                    [cell.get_text(' ') for cell in row.find_all(['th', 'td'])]
+                    for row in child.find_all('tr')
+                ]
+                block = table_block(rows) if rows else None
+                if block:
+                    blocks.append(block)
+                else:
+                    walk(child)
+            elif child.find(structural) is None:
+                # No block-level content inside, e.g. a paragraph or a div of inline text
+                block = text_block(child.get_text(' '))
+                if block:
+                    blocks.append(block)
+            else:
+                walk(child)
+
+    walk(root)
+    return blocks
+
+def parse_html(html: str) -> BeautifulSoup:
+    return BeautifulSoup(html, 'html.parser')
+
+def extract_html(file_path: Path) -> Dict[str, Any]:
+    soup = parse_html(file_path.read_text(encoding='utf-8', errors='replace'))
+    author = soup.find('meta', attrs={'name': 'author'})
+    metadata = {
+        'title': soup.title.get_text().strip() if soup.title else '',
+        'author': author.get('content', '') if author else ''
+    }
+    return build_extraction(paginate(html_blocks(soup.body or soup)), metadata)
+
+def extract_markdown(file_path: Path) -> Dict[str, Any]:
+    text = file_path.read_text(encoding='utf-8', errors='replace')
+    soup = parse_html(markdown.markdown(text, extensions=['tables', 'fenced_code']))
+    blocks = html_blocks(soup)
+    title = next((block['text'] for block in blocks if block['type'] == 'heading' and block['level'] == 1), '')
+    return build_extraction(paginate(blocks), {'title': title, 'author': ''})
+
+def extract_plain_text(file_path: Path) -> Dict[str, Any]:
+    text = file_path.read_text(encoding='utf-8', errors='replace')
+    return build_extraction(paginate(detect_layout(text)), {'title': '', 'author': ''})
+
+def docx_heading_level(paragraph: DocxParagraph) -> Optional[int]:
+    style = paragraph.style.name if paragraph.style is not None else ''
+    if style == 'Title':
+        return 1
+    match = re.match(r'Heading (\d)', style)
+    return int(match.group(1)) if match else None
+
+def extract_docx(file_path: Path) -> Dict[str, Any]:
+    """Pages end at Word's page breaks where the file records them, otherwise at top-level headings"""
+    document = docx.Document(str(file_path))
+    blocks: List[Dict[str, Any]] = []
+    # Indexes of blocks that start a page
+    page_starts = set()
+
+    for element in document.element.body.iterchildren():
+        tag = element.tag.split('}')[-1]
+        if tag == 'tbl':
+            table = DocxTable(element, document)
+            block = table_block([[cell.text for cell in row.cells] for row in table.rows])
+            if block:
+                blocks.append(block)
+            continue
+        if tag != 'p':
+            continue
+
+        paragraph = DocxParagraph(element, document)
+        # Word records where it started each page when it last laid the document out
+        if element.xpath('.//w:lastRenderedPageBreak') and blocks:
+            page_starts.add(len(blocks))
+        text = ' '.join(paragraph.text.split())
+        if text:
+            level = docx_heading_level(paragraph)
+            if level is not None:
+                blocks.append({'type': 'heading', 'text': text, 'level': level})
+            else:
+                blocks.append({'type': 'paragraph', 'text': text})
+        if element.xpath('.//w:br[@w:type="page"]'):
+            page_starts.add(len(blocks))
+
+    page_starts.discard(0)
+    page_starts.discard(len(blocks))
+    if page_starts:
+        bounds = [0, *sorted(page_starts), len(blocks)]
+        pages = [blocks[start:end] for start, end in zip(bounds, bounds[1:])]
+    else:
+        pages = paginate(blocks)
+
+    properties = document.core_properties
+    metadata = {'title': properties.title or '', 'author': properties.author or ''}
+    return build_extraction(pages, metadata)
+
+def extract_epub(file_path: Path) -> Dict[str, Any]:
+    """Each chapter in reading order starts a page; the book's table of contents becomes the outline"""
+    book = epub.read_epub(str(file_path))
+    pages: List[List[Dict[str, Any]]] = []
+    chapter_pages: Dict[str, int] = {}
+
+    for item_id, _ in book.spine:
+        item = book.get_item_with_id(item_id)
+        if item is None or item.get_type() != ebooklib.ITEM_DOCUMENT:
+            continue
+        soup = parse_html(item.get_content().decode('utf-8', errors='replace'))
+        chapter = paginate(html_blocks(soup.body or soup))
+        if not any(chapter):
+            continue
+        # Table of contents links are relative to the package, so match on the file name too
+        chapter_pages[item.get_name()] = len(pages) + 1
+        chapter_pages.setdefault(Path(item.get_name()).name, len(pages) + 1)
+        pages.extend(chapter)
+
+    outline: List[Dict[str, Any]] = []
+
+    def walk(entries: Any, level: int):
+        for entry in entries:
+            if isinstance(entry, tuple):
+                section, children = entry
+                add_entry(section, level)
+                walk(children, level + 1)
+            else:
+                add_entry(entry, level)
+
+    def add_entry(entry: Any, level: int):
+        href = (getattr(entry, 'href', '') or '').split('#')[0]
+        page_number = chapter_pages.get(href) or chapter_pages.get(Path(href).name)
+        title = (getattr(entry, 'title', '') or '').strip()
+        if title and page_number:
+            outline.append({'title': title, 'level': level, 'page_number': page_number})
+
+    walk(book.toc, 1)
+
+    titles = book.get_metadata('DC', 'title')
+    creators = book.get_metadata('DC', 'creator')
+    metadata = {
+        'title': titles[0][0] if titles else '',
+        'author': creators[0][0] if creators else ''
+    }
+    return build_extraction(pages, metadata, outline)
+
+ADAPTERS = {
+    PDF_MIME_TYPE: extract_text_from_pdf,
+    DOCX_MIME_TYPE: extract_docx,
+    EPUB_MIME_TYPE: extract_epub,
+    HTML_MIME_TYPE: extract_html,
+    MARKDOWN_MIME_TYPE: extract_markdown,
+    TEXT_MIME_TYPE: extract_plain_text,
+}
+
 @app.get("/")
 async def root():
     """Health check endpoint"""
@@ -109,6 +684,15 @@ async def health_check():
         "capabilities": [
             "text_extraction",
             "metadata_extraction", 
+            "outline_extraction",
+            "table_extraction",
+            "docx_extraction",
+            "epub_extraction",
+            "html_extraction",
+            "markdown_extraction",
+            "plain_text_extraction",
+            "ocr",
+            "word_boxes",
             "page_analysis"
         ]
     }
@@ -116,13 +700,15 @@ async def health_check():
 @app.post("/extract-text")
 async def extract_text(
     file: UploadFile = File(...),
-    document_id: Optional[str] = None
+    document_id: Optional[str] = None,
+    mime_type: Optional[str] = Form(None)
 ):
-    """Extract text content from uploaded PDF"""
+    """Extract text content from an uploaded PDF, Word, EPUB, HTML, Markdown or text file"""
     
-    # Validate file type
-    if not file.filename.lower().endswith('.pdf'):
-        raise HTTPException(status_code=400, detail="Only PDF files are supported")
+    # Pick the format adapter
+    resolved_mime_type = resolve_mime_type(file.filename, mime_type or file.content_type)
+    if not resolved_mime_type:
+        raise HTTPException(status_code=400, detail="Supported formats are PDF, DOCX, EPUB, HTML, Markdown and plain text")
     
     # Generate document ID if not provided
     if not document_id:
@@ -130,13 +716,13 @@ async def extract_text(
     
     # Save uploaded file temporarily
     try:
-        with tempfile.NamedTemporaryFile(delete=False, suffix='.pdf') as temp_file:
+        with tempfile.NamedTemporaryFile(delete=False, suffix=Path(file.filename).suffix) as temp_file:
             content = await file.read()
             temp_file.write(content)
             temp_file_path = Path(temp_file.name)
         
         # Extract text and metadata
-        extraction_result = extract_text_from_pdf(temp_file_path)
+        extraction_result = ADAPTERS[resolved_mime_type](temp_file_path)
         
         # Clean up temporary file
         os.unlink(temp_file_path)
@@ -148,7 +734,10 @@ async def extract_text(
             "page_count": extraction_result['page_count'],
             "word_count": extraction_result['word_count'],
             "metadata": extraction_result['metadata'],
-            "sections": extraction_result['sections']
+            "sections": extraction_result['sections'],
+            "tables": extraction_result['tables'],
+            "outline": extraction_result['outline'],
+            "mime_type": resolved_mime_type
         }
         
     except Exception as e:
@@ -157,15 +746,60 @@ async def extract_text(
             os.unlink(temp_file_path)
         raise HTTPException(status_code=500, detail=f"Processing failed: {str(e)}")
 
+@app.post("/ocr-pages")
+async def ocr_pages(
+    file: UploadFile = File(...),
+    pages: Optional[str] = Form(None)
+):
+    """OCR pages without a text layer. pages is a comma-separated list of page numbers, all pages by default"""
+
+    if not file.filename.lower().endswith('.pdf'):
+        raise HTTPException(status_code=400, detail="Only PDF files are supported")
+
+    try:
+        requested = [int(page) for page in pages.split(',') if page.strip()] if pages else None
+    except ValueError:
+        raise HTTPException(status_code=400, detail="pages must be comma-separated page numbers")
+
+    try:
+        with tempfile.NamedTemporaryFile(delete=False, suffix='.pdf') as temp_file:
+            temp_file.write(await file.read())
+            temp_file_path = Path(temp_file.name)
+
+        results = []
+        with pdfplumber.open(temp_file_path) as plumber_pdf:
+            page_numbers = requested or list(range(1, len(plumber_pdf.pages) + 1))
+            for page_number in page_numbers:
+                if page_number < 1 or page_number > len(plumber_pdf.pages):
+                    raise HTTPException(status_code=400, detail=f"Page {page_number} does not exist")
+                results.append({'page_number': page_number, **ocr_page(plumber_pdf.pages[page_number - 1])})
+
+        os.unlink(temp_file_path)
+
+        return {
+            "pages": results,
+            "language": detect_language(' '.join(page['content'] for page in results)) or ''
+        }
+
+    except HTTPException:
+        if 'temp_file_path' in locals() and temp_file_path.exists():
+            os.unlink(temp_file_path)
+        raise
+    except Exception as e:
+        if 'temp_file_path' in locals() and temp_file_path.exists():
+            os.unlink(temp_file_path)
+        raise HTTPException(status_code=500, detail=f"OCR failed: {str(e)}")
+
 @app.post("/analyze-document")
 async def analyze_document(
     file: UploadFile = File(...),
-    document_id: Optional[str] = None
+    document_id: Optional[str] = None,
+    mime_type: Optional[str] = Form(None)
 ):
     """Perform comprehensive document analysis including text extraction and basic NLP"""
     
     # First extract text
-    extraction_response = await extract_text(file, document_id)
+    extraction_response = await extract_text(file, document_id, mime_type)
     
     # Perform basic analysis
     text = extraction_response['text_content']
@@ -188,6 +822,8 @@ async def analyze_document(
         'text_content': extraction_response['text_content'],
         'metadata': extraction_response['metadata'],
         'sections': extraction_response['sections'],
+        'tables': extraction_response['tables'],
+        'outline': extraction_response['outline'],
         'analysis_timestamp': int(time.time() * 1000)
     }
     